@@ -35,7 +35,8 @@ export default [
         URL: 'readonly',
         fetch: 'readonly',
         Blob: 'readonly',
-        confirm: 'readonly'
+        confirm: 'readonly',
+        Notification: 'readonly'
       }
     },
     plugins: {
@@ -4,3 +4,5 @@
 
 export { default as GoogleDriveSync } from './GoogleDriveSync.vue'
 export { default as SyncStatus } from './SyncStatus.vue'
+export { default as ScoringWeights } from './ScoringWeights.vue'
+export { default as PlacesSettings } from './PlacesSettings.vue'
@@ -2,6 +2,9 @@
  * Tasks Components Barrel Export
  */
 
+export { default as BulkActionBar } from './BulkActionBar.vue'
+export { default as CompletionHistory } from './CompletionHistory.vue'
+export { default as MarkdownNotes } from './MarkdownNotes.vue'
 export { default as TaskCard } from './TaskCard.vue'
 export { default as TaskForm } from './TaskForm.vue'
 export { default as TaskList } from './TaskList.vue'
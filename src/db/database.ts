@@ -4,15 +4,32 @@
  *
  * This is the main database module providing:
  * - Database class extending Dexie
- * - Typed tables for Task, SuggestionSession, SyncState
+ * - Typed tables for Task, SuggestionSession, SyncState, ScoringProfile, CompletionRecord, Place
+ *   and the sync bases (tasks as of the last sync)
  * - Schema versioning with migration support
  */
 
 import Dexie, { type Table } from 'dexie'
-import type { Task } from '@/types/task'
-import type { SuggestionSession } from '@/types/suggestion'
+import type { Task, CompletionRecord } from '@/types/task'
+import type { SuggestionSession, ScoringProfile } from '@/types/suggestion'
 import type { SyncState } from '@/types/sync'
-import { SCHEMA_VERSION_1, SCHEMA_VERSION_2, CURRENT_SCHEMA_VERSION, migrateNumericPriority } from './schema'
+import type { Place } from '@/types/place'
+import {
+  SCHEMA_VERSION_1,
+  SCHEMA_VERSION_2,
+  SCHEMA_VERSION_3,
+  SCHEMA_VERSION_4,
+  SCHEMA_VERSION_5,
+  SCHEMA_VERSION_6,
+  SCHEMA_VERSION_7,
+  SCHEMA_VERSION_8,
+  SCHEMA_VERSION_9,
+  SCHEMA_VERSION_10,
+  CURRENT_SCHEMA_VERSION,
+  migrateNumericPriority,
+  migrateDependsOnId,
+  migrateTaskClock
+} from './schema'
 
 /**
  * SpareTime Database class
@@ -28,6 +45,18 @@ export class SparetimeDatabase extends Dexie {
   /** Sync state table (singleton) */
   syncState!: Table<SyncState, number>
 
+  /** Scoring profile table (singleton) */
+  scoringProfile!: Table<ScoringProfile, number>
+
+  /** Completion history of recurring tasks */
+  completions!: Table<CompletionRecord, number>
+
+  /** User-defined named places */
+  places!: Table<Place, string>
+
+  /** Tasks as of the last sync, used as the base of three-way merges */
+  syncBases!: Table<Task, string>
+
   constructor() {
     super('SparetimeDB')
 
@@ -45,6 +74,62 @@ export class SparetimeDatabase extends Dexie {
           }
         })
       })
+
+    // Version 3 - Scoring profile (user-configurable factor weights)
+    this.version(3).stores(SCHEMA_VERSION_3)
+
+    // Version 4 - Multiple dependencies per task
+    this.version(4)
+      .stores(SCHEMA_VERSION_4)
+      .upgrade(async (trans) => {
+        // Migrate all tasks: single dependsOnId becomes a dependsOnIds list
+        await trans.table('tasks').toCollection().modify((task: { dependsOnId?: string; dependsOnIds?: string[] }) => {
+          migrateDependsOnId(task)
+        })
+      })
+
+    // Version 5 - Completion history for recurring tasks
+    this.version(5)
+      .stores(SCHEMA_VERSION_5)
+      .upgrade(async (trans) => {
+        // Seed history with the last known completion so intervals can be measured
+        const records: CompletionRecord[] = []
+        await trans.table('tasks').each((task: Task) => {
+          if (task.type === 'recurring' && task.recurringPattern?.lastCompletedDate && task.id) {
+            records.push({ taskId: task.id, completedAt: task.recurringPattern.lastCompletedDate })
+          }
+        })
+        await trans.table('completions').bulkAdd(records)
+      })
+
+    // Version 6 - Free-form tags
+    this.version(6).stores(SCHEMA_VERSION_6)
+
+    // Version 7 - Named places
+    this.version(7).stores(SCHEMA_VERSION_7)
+
+    // Version 8 - Sync bases for field-level merges
+    this.version(8).stores(SCHEMA_VERSION_8)
+
+    // Version 9 - Hybrid logical clocks for ordering changes across devices
+    this.version(9)
+      .stores(SCHEMA_VERSION_9)
+      .upgrade(async (trans) => {
+        // Seed clocks from updatedAt, the same way copies from older devices are read
+        await trans.table('tasks').toCollection().modify((task: Task) => migrateTaskClock(task))
+        await trans.table('syncBases').toCollection().modify((task: Task) => migrateTaskClock(task))
+      })
+
+    // Version 10 - Sessions keep every action taken, not only the latest one
+    this.version(10)
+      .stores(SCHEMA_VERSION_10)
+      .upgrade(async (trans) => {
+        await trans.table('suggestionSessions').toCollection().modify((session: SuggestionSession) => {
+          if (session.actionTaken && !session.actions) {
+            session.actions = [session.actionTaken]
+          }
+        })
+      })
   }
 }
 
@@ -80,16 +165,24 @@ export async function closeDatabase(): Promise<void> {
 
 /**
  * Clear all data from the database
- * WARNING: This deletes all tasks, sessions, and sync state
+ * WARNING: This deletes all tasks, sessions, sync state, scoring profile, completion history, places and sync bases
  *
  * @returns Promise that resolves when all tables are cleared
  */
 export async function clearAllData(): Promise<void> {
-  await db.transaction('rw', [db.tasks, db.suggestionSessions, db.syncState], async () => {
-    await db.tasks.clear()
-    await db.suggestionSessions.clear()
-    await db.syncState.clear()
-  })
+  await db.transaction(
+    'rw',
+    [db.tasks, db.suggestionSessions, db.syncState, db.scoringProfile, db.completions, db.places, db.syncBases],
+    async () => {
+      await db.syncBases.clear()
+      await db.tasks.clear()
+      await db.suggestionSessions.clear()
+      await db.syncState.clear()
+      await db.scoringProfile.clear()
+      await db.completions.clear()
+      await db.places.clear()
+    }
+  )
 }
 
 /**
@@ -126,21 +219,28 @@ export async function exportAllData(): Promise<{
   exportTimestamp: string
   tasks: Task[]
   suggestionSessions: SuggestionSession[]
+  completions: CompletionRecord[]
+  places: Place[]
 }> {
-  const [tasks, suggestionSessions] = await Promise.all([
+  const [tasks, suggestionSessions, completions, places] = await Promise.all([
     db.tasks.toArray(),
-    db.suggestionSessions.toArray()
+    db.suggestionSessions.toArray(),
+    db.completions.toArray(),
+    db.places.toArray()
   ])
 
   return {
     version: CURRENT_SCHEMA_VERSION,
     exportTimestamp: new Date().toISOString(),
     tasks,
-    suggestionSessions
+    suggestionSessions,
+    completions,
+    places
   }
 }
 
 // Re-export types for convenience
-export type { Task } from '@/types/task'
-export type { SuggestionSession } from '@/types/suggestion'
+export type { Task, CompletionRecord } from '@/types/task'
+export type { SuggestionSession, ScoringProfile } from '@/types/suggestion'
 export type { SyncState } from '@/types/sync'
+export type { Place } from '@/types/place'
@@ -5,11 +5,14 @@
  * Index Strategy:
  * - [status+type]: Filter active/completed tasks by type
  * - [recurringPattern.nextDueDate+status]: Query active recurring tasks by due date
- * - dependsOnId: Quickly find tasks that depend on a given task
+ * - *dependsOnIds: Multi-entry index to find tasks that depend on a given task
+ * - *tags: Multi-entry index to find tasks with a given tag
  * - deletedAt: Filter soft-deleted tasks
+ * - completions [taskId+completedAt]: Completion history of a task in date order
  */
 
 import type { Priority } from '@/types/task'
+import { clockFromTimestamp } from '@/utils/hlc'
 
 /**
  * Schema version 1 - UUID-based IDs with soft delete support
@@ -32,10 +35,76 @@ export const SCHEMA_VERSION_2 = {
   ...SCHEMA_VERSION_1
 } as const
 
+/**
+ * Schema version 3 - Adds scoring profile table (singleton with id=1)
+ */
+export const SCHEMA_VERSION_3 = {
+  ...SCHEMA_VERSION_2,
+  scoringProfile: 'id'
+} as const
+
+/**
+ * Schema version 4 - Multiple dependencies per task
+ * Migration converts: dependsOnId -> dependsOnIds (multi-entry index)
+ */
+export const SCHEMA_VERSION_4 = {
+  ...SCHEMA_VERSION_3,
+  tasks:
+    'id, name, type, status, deadline, [status+type], *dependsOnIds, recurringPattern.nextDueDate, [recurringPattern.nextDueDate+status], effortLevel, location, deletedAt'
+} as const
+
+/**
+ * Schema version 5 - Completion history for recurring tasks
+ * Migration seeds one record per recurring task from lastCompletedDate
+ */
+export const SCHEMA_VERSION_5 = {
+  ...SCHEMA_VERSION_4,
+  completions: '++id, taskId, completedAt, [taskId+completedAt]'
+} as const
+
+/**
+ * Schema version 6 - Free-form tags (multi-entry index)
+ */
+export const SCHEMA_VERSION_6 = {
+  ...SCHEMA_VERSION_5,
+  tasks:
+    'id, name, type, status, deadline, [status+type], *dependsOnIds, *tags, recurringPattern.nextDueDate, [recurringPattern.nextDueDate+status], effortLevel, location, deletedAt'
+} as const
+
+/**
+ * Schema version 7 - Named places
+ */
+export const SCHEMA_VERSION_7 = {
+  ...SCHEMA_VERSION_6,
+  places: 'id, name, deletedAt'
+} as const
+
+/**
+ * Schema version 8 - Copies of tasks as of the last sync (base for three-way merges)
+ */
+export const SCHEMA_VERSION_8 = {
+  ...SCHEMA_VERSION_7,
+  syncBases: 'id'
+} as const
+
+/**
+ * Schema version 9 - Hybrid logical clocks on tasks (no index changes)
+ */
+export const SCHEMA_VERSION_9 = {
+  ...SCHEMA_VERSION_8
+} as const
+
+/**
+ * Schema version 10 - Every action on a suggestion session is kept, not only the latest (no index changes)
+ */
+export const SCHEMA_VERSION_10 = {
+  ...SCHEMA_VERSION_9
+} as const
+
 /**
  * Current schema version
  */
-export const CURRENT_SCHEMA_VERSION = 2
+export const CURRENT_SCHEMA_VERSION = 10
 
 /**
  * Convert numeric priority (0-10) to Priority enum
@@ -46,6 +115,29 @@ export function migrateNumericPriority(numericPriority: number): Priority {
   return 'optional'
 }
 
+/**
+ * Convert a single dependsOnId (schema v1-v3) to a dependsOnIds list in place
+ * Also applied to tasks synced from devices still on the old format
+ */
+export function migrateDependsOnId(task: { dependsOnId?: string; dependsOnIds?: string[] }): void {
+  if (task.dependsOnId !== undefined) {
+    if (task.dependsOnIds === undefined && task.dependsOnId) {
+      task.dependsOnIds = [task.dependsOnId]
+    }
+    delete task.dependsOnId
+  }
+}
+
+/**
+ * Give a task saved before clocks existed the clock of its last update, in place
+ * Every device derives the same clock, so unchanged tasks keep matching the backup
+ */
+export function migrateTaskClock(task: { updatedAt: string; hlc?: string }): void {
+  if (!task.hlc) {
+    task.hlc = clockFromTimestamp(task.updatedAt)
+  }
+}
+
 /**
  * Get schema for a specific version
  */
@@ -55,6 +147,22 @@ export function getSchemaForVersion(version: number): Record<string, string> {
       return { ...SCHEMA_VERSION_1 }
     case 2:
       return { ...SCHEMA_VERSION_2 }
+    case 3:
+      return { ...SCHEMA_VERSION_3 }
+    case 4:
+      return { ...SCHEMA_VERSION_4 }
+    case 5:
+      return { ...SCHEMA_VERSION_5 }
+    case 6:
+      return { ...SCHEMA_VERSION_6 }
+    case 7:
+      return { ...SCHEMA_VERSION_7 }
+    case 8:
+      return { ...SCHEMA_VERSION_8 }
+    case 9:
+      return { ...SCHEMA_VERSION_9 }
+    case 10:
+      return { ...SCHEMA_VERSION_10 }
     default:
       throw new Error(`Unknown schema version: ${version}`)
   }
@@ -17,6 +17,9 @@ import { createRouter, createWebHashHistory } from 'vue-router'
 const TasksView = () => import('@/views/TasksView.vue')
 const SuggestionsView = () => import('@/views/SuggestionsView.vue')
 const SettingsView = () => import('@/views/SettingsView.vue')
+const HistoryView = () => import('@/views/HistoryView.vue')
+const DependencyGraphView = () => import('@/views/DependencyGraphView.vue')
+const TrashView = () => import('@/views/TrashView.vue')
 
 const router = createRouter({
   // Hash mode for PWA compatibility (works with service worker and offline)
@@ -28,12 +31,30 @@ const router = createRouter({
       component: TasksView,
       meta: { title: 'Tasks - SpareTime' }
     },
+    {
+      path: '/dependencies',
+      name: 'dependencies',
+      component: DependencyGraphView,
+      meta: { title: 'Dependencies - SpareTime' }
+    },
+    {
+      path: '/trash',
+      name: 'trash',
+      component: TrashView,
+      meta: { title: 'Trash - SpareTime' }
+    },
     {
       path: '/suggestions',
       name: 'suggestions',
       component: SuggestionsView,
       meta: { title: 'Suggestions - SpareTime' }
     },
+    {
+      path: '/history',
+      name: 'history',
+      component: HistoryView,
+      meta: { title: 'History - SpareTime' }
+    },
     {
       path: '/settings',
       name: 'settings',
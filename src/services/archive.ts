@@ -0,0 +1,84 @@
+/**
+ * Archive - Moving finished tasks out of the way
+ * Completed one-off tasks are archived automatically once they have been
+ * done for a period chosen per device. Archived tasks stay in backups.
+ */
+
+import { subDays } from 'date-fns'
+
+import type { Task } from '@/types/task'
+
+export const DEFAULT_AUTO_ARCHIVE_DAYS = 14
+
+/**
+ * Auto-archive periods offered in settings (0 turns auto-archive off)
+ */
+export const AUTO_ARCHIVE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: 'After 1 day' },
+  { value: 7, label: 'After 1 week' },
+  { value: 14, label: 'After 2 weeks' },
+  { value: 30, label: 'After 30 days' }
+]
+
+/**
+ * localStorage key for the auto-archive period
+ */
+const AUTO_ARCHIVE_KEY = 'sparetime-auto-archive-days'
+
+/**
+ * Read the auto-archive period chosen on this device
+ */
+export function getAutoArchiveDays(): number {
+  const saved = localStorage.getItem(AUTO_ARCHIVE_KEY)
+  const days = Number(saved)
+  return saved !== null && AUTO_ARCHIVE_OPTIONS.some((o) => o.value === days)
+    ? days
+    : DEFAULT_AUTO_ARCHIVE_DAYS
+}
+
+/**
+ * Save the auto-archive period on this device
+ */
+export function setAutoArchiveDays(days: number): void {
+  localStorage.setItem(AUTO_ARCHIVE_KEY, String(days))
+}
+
+/**
+ * Check whether a task counts as done for its dependents
+ * Completed tasks stay done once they are archived.
+ */
+export function isTaskDone(task: Task): boolean {
+  return task.status === 'completed' || (task.status === 'archived' && !!task.completedAt)
+}
+
+/**
+ * Find completed one-off tasks that are due to be archived
+ * Tasks completed before completedAt was recorded use their last update.
+ *
+ * @param tasks - Tasks to check
+ * @param days - Days a task stays completed before it is archived (0 = never)
+ * @param now - Current moment
+ * @returns IDs of the tasks to archive
+ */
+export function getTasksToAutoArchive(tasks: Task[], days: number, now: Date = new Date()): string[] {
+  if (days <= 0) return []
+
+  const cutoff = subDays(now, days)
+  return tasks
+    .filter(
+      (t) =>
+        t.type === 'one-off' &&
+        t.status === 'completed' &&
+        !t.deletedAt &&
+        new Date(t.completedAt ?? t.updatedAt) < cutoff
+    )
+    .map((t) => t.id)
+}
+
+/**
+ * Leave archived tasks out of an export unless they are asked for
+ */
+export function filterExportedTasks(tasks: Task[], includeArchived: boolean): Task[] {
+  return includeArchived ? tasks : tasks.filter((t) => t.status !== 'archived')
+}
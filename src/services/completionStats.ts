@@ -0,0 +1,90 @@
+/**
+ * Completion Stats - Compare how often recurring tasks are actually done
+ * with how often they are configured to repeat
+ */
+
+import type { CompletionRecord, IntervalUnit, RecurringPattern } from '@/types/task'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Approximate length of each interval unit in days
+ */
+const DAYS_PER_UNIT: Record<IntervalUnit, number> = {
+  hours: 1 / 24,
+  days: 1,
+  weeks: 7,
+  months: 30.44,
+  years: 365.25
+}
+
+/**
+ * Summary of a recurring task's completion history
+ */
+export interface CompletionStats {
+  completionCount: number
+  /** Average days between consecutive completions (null with fewer than 2) */
+  averageIntervalDays: number | null
+  /** Configured interval in days (null if no pattern) */
+  configuredIntervalDays: number | null
+  /**
+   * Actual interval divided by configured interval
+   * Above 1 means the task is done less often than planned
+   */
+  intervalRatio: number | null
+  /** Average of recorded actual durations (null if none recorded) */
+  averageDurationMinutes: number | null
+  lastCompletedAt: string | null
+}
+
+/**
+ * Convert a recurring interval to days
+ */
+export function intervalToDays(intervalValue: number, intervalUnit: IntervalUnit): number {
+  return intervalValue * DAYS_PER_UNIT[intervalUnit]
+}
+
+/**
+ * Calculate completion statistics for a recurring task
+ *
+ * @param records - Completion records of one task (any order)
+ * @param pattern - Task's recurring pattern (if any)
+ * @returns Counts, averages, and the actual vs. configured interval ratio
+ */
+export function calculateCompletionStats(
+  records: CompletionRecord[],
+  pattern?: Pick<RecurringPattern, 'intervalValue' | 'intervalUnit'>
+): CompletionStats {
+  const times = records
+    .map((r) => new Date(r.completedAt).getTime())
+    .filter((t) => !Number.isNaN(t))
+    .sort((a, b) => a - b)
+
+  let averageIntervalDays: number | null = null
+  if (times.length >= 2) {
+    averageIntervalDays = (times[times.length - 1]! - times[0]!) / (times.length - 1) / MS_PER_DAY
+  }
+
+  const configuredIntervalDays = pattern
+    ? intervalToDays(pattern.intervalValue, pattern.intervalUnit)
+    : null
+
+  const durations = records
+    .map((r) => r.actualDurationMinutes)
+    .filter((d): d is number => typeof d === 'number')
+
+  return {
+    completionCount: records.length,
+    averageIntervalDays,
+    configuredIntervalDays,
+    intervalRatio:
+      averageIntervalDays !== null && configuredIntervalDays
+        ? averageIntervalDays / configuredIntervalDays
+        : null,
+    averageDurationMinutes:
+      durations.length > 0
+        ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+        : null,
+    lastCompletedAt: times.length > 0 ? new Date(times[times.length - 1]!).toISOString() : null
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Dependency Graph - Build and lay out the prerequisite graph of active tasks
+ *
+ * Nodes are active tasks that take part in at least one dependency between
+ * active tasks. Columns follow the longest prerequisite chain, so every edge
+ * points from left (prerequisite) to right (dependent).
+ */
+
+import type { Task } from '@/types/task'
+import { isTaskDone } from './archive'
+
+/**
+ * Node size and spacing used by the SVG layout (in SVG units)
+ */
+export const GRAPH_NODE_WIDTH = 150
+export const GRAPH_NODE_HEIGHT = 44
+const COLUMN_GAP = 60
+const ROW_GAP = 16
+
+/**
+ * A task positioned in the graph
+ */
+export interface DependencyGraphNode {
+  task: Task
+  /** True if any prerequisite is still incomplete */
+  blocked: boolean
+  /** Column index (0 = no active prerequisites) */
+  column: number
+  /** Top-left corner in SVG units */
+  x: number
+  y: number
+  /** Active tasks that become ready once this task is completed */
+  unblocksTaskIds: string[]
+  /** Summed time estimate of those tasks */
+  unblocksMinutes: number
+}
+
+/**
+ * A prerequisite edge (from must be done before to)
+ */
+export interface DependencyGraphEdge {
+  fromId: string
+  toId: string
+}
+
+/**
+ * Laid-out dependency graph
+ */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[]
+  edges: DependencyGraphEdge[]
+  width: number
+  height: number
+  /** Node whose completion unblocks the most work (null if none unblocks anything) */
+  mostUnblocking: DependencyGraphNode | null
+}
+
+/**
+ * Check whether a task still waits on an incomplete prerequisite
+ * Matches taskStore.hasIncompleteDependencies: missing tasks don't block
+ */
+function isBlocked(task: Task, taskMap: Map<string, Task>): boolean {
+  return (task.dependsOnIds ?? []).some((id) => {
+    const dependency = taskMap.get(id)
+    return dependency !== undefined && !isTaskDone(dependency)
+  })
+}
+
+/**
+ * Build the dependency graph for active tasks
+ *
+ * @param allTasks - All tasks (completed ones resolve blocked state)
+ * @returns Nodes with layout positions, edges, and the most unblocking node
+ */
+export function buildDependencyGraph(allTasks: Task[]): DependencyGraph {
+  const taskMap = new Map(allTasks.map((t) => [t.id, t]))
+  const activeTasks = allTasks.filter((t) => t.status === 'active' && !t.deletedAt)
+  const activeIds = new Set(activeTasks.map((t) => t.id))
+
+  // Edges between active tasks only - completed prerequisites are already satisfied
+  const edges: DependencyGraphEdge[] = []
+  for (const task of activeTasks) {
+    for (const dependencyId of task.dependsOnIds ?? []) {
+      if (activeIds.has(dependencyId) && dependencyId !== task.id) {
+        edges.push({ fromId: dependencyId, toId: task.id })
+      }
+    }
+  }
+
+  const connectedIds = new Set(edges.flatMap((e) => [e.fromId, e.toId]))
+  const graphTasks = activeTasks
+    .filter((t) => connectedIds.has(t.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const columns = assignColumns(graphTasks, edges)
+
+  // Stack nodes within each column in name order
+  const rowsPerColumn = new Map<number, number>()
+  const nodes: DependencyGraphNode[] = graphTasks.map((task) => {
+    const column = columns.get(task.id) ?? 0
+    const row = rowsPerColumn.get(column) ?? 0
+    rowsPerColumn.set(column, row + 1)
+
+    const unblocksTaskIds = findTasksUnblockedBy(task.id, activeTasks, taskMap)
+
+    return {
+      task,
+      blocked: isBlocked(task, taskMap),
+      column,
+      x: column * (GRAPH_NODE_WIDTH + COLUMN_GAP),
+      y: row * (GRAPH_NODE_HEIGHT + ROW_GAP),
+      unblocksTaskIds,
+      unblocksMinutes: unblocksTaskIds.reduce(
+        (sum, id) => sum + (taskMap.get(id)?.timeEstimateMinutes ?? 0),
+        0
+      )
+    }
+  })
+
+  const columnCount = Math.max(0, ...nodes.map((n) => n.column + 1))
+  const rowCount = Math.max(0, ...rowsPerColumn.values())
+
+  return {
+    nodes,
+    edges,
+    width: Math.max(0, columnCount * (GRAPH_NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP),
+    height: Math.max(0, rowCount * (GRAPH_NODE_HEIGHT + ROW_GAP) - ROW_GAP),
+    mostUnblocking: findMostUnblocking(nodes)
+  }
+}
+
+/**
+ * Assign each task to the column after its deepest prerequisite
+ * Relaxation is capped at one pass per task so synced data with a cycle
+ * still terminates
+ */
+function assignColumns(tasks: Task[], edges: DependencyGraphEdge[]): Map<string, number> {
+  const columns = new Map(tasks.map((t) => [t.id, 0]))
+
+  for (let pass = 0; pass < tasks.length; pass++) {
+    let changed = false
+    for (const edge of edges) {
+      const next = (columns.get(edge.fromId) ?? 0) + 1
+      if (next > (columns.get(edge.toId) ?? 0) && next < tasks.length) {
+        columns.set(edge.toId, next)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+
+  return columns
+}
+
+/**
+ * Find active tasks whose only incomplete prerequisite is the given task
+ */
+function findTasksUnblockedBy(
+  taskId: string,
+  activeTasks: Task[],
+  taskMap: Map<string, Task>
+): string[] {
+  return activeTasks
+    .filter((t) => t.dependsOnIds?.includes(taskId))
+    .filter((t) =>
+      (t.dependsOnIds ?? []).every((id) => {
+        if (id === taskId) return true
+        const dependency = taskMap.get(id)
+        return dependency === undefined || isTaskDone(dependency)
+      })
+    )
+    .map((t) => t.id)
+}
+
+/**
+ * Pick the node that unblocks the most work (minutes, then task count)
+ * Blocked nodes can't be completed yet, so ready nodes are preferred
+ */
+function findMostUnblocking(nodes: DependencyGraphNode[]): DependencyGraphNode | null {
+  let best: DependencyGraphNode | null = null
+
+  for (const node of nodes) {
+    if (node.unblocksTaskIds.length === 0) continue
+    if (
+      !best ||
+      (best.blocked && !node.blocked) ||
+      (best.blocked === node.blocked &&
+        (node.unblocksMinutes > best.unblocksMinutes ||
+          (node.unblocksMinutes === best.unblocksMinutes &&
+            node.unblocksTaskIds.length > best.unblocksTaskIds.length)))
+    ) {
+      best = node
+    }
+  }
+
+  return best
+}
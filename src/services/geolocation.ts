@@ -0,0 +1,75 @@
+/**
+ * Geolocation - Thin wrapper around the browser Geolocation API
+ * Positions are only used on this device to pick the nearest place;
+ * nothing is sent to a server.
+ */
+
+import type { Coordinates } from '@/types/place'
+
+/**
+ * How long to wait for a position fix before giving up
+ */
+const POSITION_TIMEOUT_MS = 10000
+
+/**
+ * Accept a cached position up to this age
+ */
+const POSITION_MAX_AGE_MS = 5 * 60 * 1000
+
+export type GeolocationPermission = 'granted' | 'denied' | 'prompt' | 'unsupported'
+
+/**
+ * Check if the browser supports the Geolocation API
+ */
+export function isGeolocationSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'geolocation' in navigator
+}
+
+/**
+ * Get the current location permission without prompting the user
+ * Browsers without the Permissions API report 'prompt'
+ */
+export async function getGeolocationPermission(): Promise<GeolocationPermission> {
+  if (!isGeolocationSupported()) {
+    return 'unsupported'
+  }
+
+  if (!('permissions' in navigator) || !navigator.permissions?.query) {
+    return 'prompt'
+  }
+
+  try {
+    const status = await navigator.permissions.query({ name: 'geolocation' })
+    return status.state
+  } catch {
+    return 'prompt'
+  }
+}
+
+/**
+ * Get the device's current position
+ * Prompts for permission if it has not been decided yet
+ *
+ * @returns Current coordinates, or null if unavailable, denied or timed out
+ */
+export function getCurrentCoordinates(): Promise<Coordinates | null> {
+  if (!isGeolocationSupported()) {
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }),
+      (error) => {
+        console.warn('Failed to get current position:', error.message)
+        resolve(null)
+      },
+      { timeout: POSITION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS }
+    )
+  })
+}
@@ -5,7 +5,9 @@
 
 import type { Task } from '@/types/task'
 import type { GoogleDriveBackup } from '@/types/sync'
+import type { Place } from '@/types/place'
 import { generateChecksum } from '@/utils/crypto'
+import { isPlaceCoordinateSyncEnabled, preparePlacesForSync } from './places'
 
 // Constants
 const BACKUP_FILE_NAME = 'sparetime-backup.json'
@@ -22,15 +24,17 @@ function getClientId(): string {
 }
 
 /**
- * Create a backup payload from tasks
+ * Create a backup payload from tasks and places
+ * Place coordinates are stripped unless the user opted in to syncing them
  */
-export async function createBackupPayload(tasks: Task[]): Promise<GoogleDriveBackup> {
+export async function createBackupPayload(tasks: Task[], places: Place[] = []): Promise<GoogleDriveBackup> {
   const checksum = await generateChecksum(tasks)
 
   return {
     version: BACKUP_VERSION,
     exportTimestamp: new Date().toISOString(),
     tasks,
+    places: preparePlacesForSync(places, isPlaceCoordinateSyncEnabled()),
     checksum
   }
 }
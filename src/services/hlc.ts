@@ -0,0 +1,86 @@
+/**
+ * Hybrid Logical Clock - Ordering task changes across devices
+ *
+ * Every change is stamped with a clock made of the wall-clock time, a
+ * counter and the ID of the device that made it (see utils/hlc). The clock
+ * never runs backwards and moves past every clock seen in a sync, so a
+ * change made after seeing another one orders after it even when the
+ * device clocks disagree.
+ */
+
+import { compareClocks, formatClock, parseClock, type HybridClock } from '@/utils/hlc'
+import { generateUUID } from '@/utils/crypto'
+
+/**
+ * Highest counter that fits the clock format; the clock moves on a millisecond past it
+ */
+const MAX_COUNTER = 9999
+
+/**
+ * localStorage keys for the device ID and the last clock issued or seen
+ */
+const DEVICE_ID_KEY = 'sparetime-device-id'
+const CLOCK_KEY = 'sparetime-hlc'
+
+/**
+ * ID of this device, created on first use
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = generateUUID().replace(/-/g, '').slice(0, 12)
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+/**
+ * Last clock issued or seen on this device
+ */
+function readLastClock(): HybridClock | null {
+  const saved = localStorage.getItem(CLOCK_KEY)
+  return saved ? parseClock(saved) : null
+}
+
+/**
+ * Issue the clock of a new change on this device
+ * Later than every clock issued or seen before, whatever the wall clock says.
+ *
+ * @param now - Current wall-clock time in milliseconds
+ */
+export function tickClock(now: number = Date.now()): string {
+  const last = readLastClock()
+  let wallTime = now
+  let counter = 0
+  if (last && last.wallTime >= now) {
+    wallTime = last.wallTime
+    counter = last.counter + 1
+    if (counter > MAX_COUNTER) {
+      wallTime++
+      counter = 0
+    }
+  }
+
+  const clock = formatClock({ wallTime, counter, deviceId: getDeviceId() })
+  localStorage.setItem(CLOCK_KEY, clock)
+  return clock
+}
+
+/**
+ * Move the clock past clocks received from other devices
+ * Changes made here afterwards order after the changes they build on.
+ *
+ * @param clocks - Received clocks (missing ones are skipped)
+ */
+export function observeClocks(clocks: Iterable<string | undefined>): void {
+  const last = localStorage.getItem(CLOCK_KEY)
+  let latest = last && parseClock(last) ? last : null
+  for (const clock of clocks) {
+    if (clock && parseClock(clock) && (!latest || compareClocks(clock, latest) > 0)) {
+      latest = clock
+    }
+  }
+  if (latest && latest !== last) {
+    localStorage.setItem(CLOCK_KEY, latest)
+  }
+}
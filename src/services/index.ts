@@ -3,4 +3,16 @@
  */
 
 export * from './scoring'
+export * from './subtasks'
+export * from './projectSessions'
+export * from './completionStats'
+export * from './snooze'
+export * from './trash'
+export * from './archive'
+export * from './search'
+export * from './taskListView'
+export * from './places'
+export * from './geolocation'
 export * from './urgency'
+export * from './weightLearning'
+export * from './dependencyGraph'
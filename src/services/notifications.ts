@@ -0,0 +1,76 @@
+/**
+ * Notifications - Optional browser notifications for unblocked tasks
+ * The preference is stored per device; nothing is sent to a server.
+ */
+
+/**
+ * localStorage key for the unblock notification preference
+ */
+const UNBLOCK_NOTIFICATIONS_KEY = 'sparetime-unblock-notifications'
+
+/**
+ * Check if the browser supports the Notification API
+ */
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+/**
+ * Check if the user turned on browser notifications for unblocked tasks
+ * Also requires the browser permission to still be granted
+ */
+export function isUnblockNotificationEnabled(): boolean {
+  return (
+    isNotificationSupported() &&
+    Notification.permission === 'granted' &&
+    localStorage.getItem(UNBLOCK_NOTIFICATIONS_KEY) === 'true'
+  )
+}
+
+/**
+ * Turn browser notifications for unblocked tasks on or off
+ * Asks for permission when enabling
+ *
+ * @param enabled - Whether notifications should be shown
+ * @returns true if notifications are now enabled
+ */
+export async function setUnblockNotificationEnabled(enabled: boolean): Promise<boolean> {
+  if (!enabled) {
+    localStorage.removeItem(UNBLOCK_NOTIFICATIONS_KEY)
+    return false
+  }
+
+  if (!isNotificationSupported()) {
+    return false
+  }
+
+  const permission =
+    Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission
+
+  if (permission !== 'granted') {
+    localStorage.removeItem(UNBLOCK_NOTIFICATIONS_KEY)
+    return false
+  }
+
+  localStorage.setItem(UNBLOCK_NOTIFICATIONS_KEY, 'true')
+  return true
+}
+
+/**
+ * Show a browser notification if the user enabled them
+ *
+ * @param title - Notification title
+ * @param body - Notification text
+ */
+export function showUnblockNotification(title: string, body: string): void {
+  if (!isUnblockNotificationEnabled()) return
+
+  try {
+    new Notification(title, { body, icon: '/icons/icon.svg', tag: 'sparetime-unblocked' })
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Failed to show notification:', e)
+  }
+}
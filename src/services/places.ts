@@ -0,0 +1,145 @@
+/**
+ * Places - Named locations and nearest-place detection
+ *
+ * Coordinates never leave the device unless the user opts in to syncing them;
+ * the opt-in is stored per device like the notification preference.
+ */
+
+import type { Coordinates, Place } from '@/types/place'
+
+/**
+ * Radius used for places saved without one
+ */
+export const DEFAULT_PLACE_RADIUS_METERS = 200
+
+/**
+ * Mean Earth radius used by the haversine formula
+ */
+const EARTH_RADIUS_METERS = 6371000
+
+/**
+ * localStorage key for the coordinate sync opt-in
+ */
+const PLACE_COORDINATE_SYNC_KEY = 'sparetime-sync-place-coordinates'
+
+/**
+ * Check whether a place has coordinates
+ */
+export function hasCoordinates(place: Place): boolean {
+  return place.latitude !== undefined && place.longitude !== undefined
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ *
+ * @returns Distance in meters
+ */
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLon = toRadians(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Find the nearest place the device is currently at
+ *
+ * @param places - Candidate places (deleted places and places without coordinates are ignored)
+ * @param position - Current position
+ * @returns Closest place whose radius contains the position, or null
+ */
+export function findNearestPlace(places: Place[], position: Coordinates): Place | null {
+  let nearest: Place | null = null
+  let nearestDistance = Infinity
+
+  for (const place of places) {
+    if (place.deletedAt || !hasCoordinates(place)) continue
+
+    const distance = distanceMeters(position, {
+      latitude: place.latitude!,
+      longitude: place.longitude!
+    })
+    const radius = place.radiusMeters ?? DEFAULT_PLACE_RADIUS_METERS
+    if (distance <= radius && distance < nearestDistance) {
+      nearest = place
+      nearestDistance = distance
+    }
+  }
+
+  return nearest
+}
+
+/**
+ * Remove coordinates from a place before it leaves the device
+ */
+export function stripPlaceCoordinates(place: Place): Place {
+  const stripped = { ...place }
+  delete stripped.latitude
+  delete stripped.longitude
+  delete stripped.radiusMeters
+  return stripped
+}
+
+/**
+ * Merge local and remote places (newer updatedAt wins)
+ * Remote copies uploaded without coordinates keep the local coordinates,
+ * since devices that do not sync coordinates strip them from every place.
+ *
+ * @returns Merged places, one per id
+ */
+export function mergePlaces(local: Place[], remote: Place[]): Place[] {
+  const merged = new Map<string, Place>()
+  for (const place of local) {
+    merged.set(place.id, place)
+  }
+
+  for (const remotePlace of remote) {
+    const localPlace = merged.get(remotePlace.id)
+    if (!localPlace) {
+      merged.set(remotePlace.id, remotePlace)
+    } else if (new Date(remotePlace.updatedAt) > new Date(localPlace.updatedAt)) {
+      merged.set(
+        remotePlace.id,
+        hasCoordinates(remotePlace) || !hasCoordinates(localPlace)
+          ? remotePlace
+          : {
+              ...remotePlace,
+              latitude: localPlace.latitude,
+              longitude: localPlace.longitude,
+              radiusMeters: localPlace.radiusMeters
+            }
+      )
+    }
+  }
+
+  return [...merged.values()]
+}
+
+/**
+ * Check if the user opted in to syncing place coordinates from this device
+ */
+export function isPlaceCoordinateSyncEnabled(): boolean {
+  return localStorage.getItem(PLACE_COORDINATE_SYNC_KEY) === 'true'
+}
+
+/**
+ * Turn syncing of place coordinates on or off for this device
+ */
+export function setPlaceCoordinateSyncEnabled(enabled: boolean): void {
+  if (enabled) {
+    localStorage.setItem(PLACE_COORDINATE_SYNC_KEY, 'true')
+  } else {
+    localStorage.removeItem(PLACE_COORDINATE_SYNC_KEY)
+  }
+}
+
+/**
+ * Prepare places for the sync payload
+ * Coordinates are only included when the user opted in
+ */
+export function preparePlacesForSync(places: Place[], includeCoordinates: boolean): Place[] {
+  return includeCoordinates ? places : places.map(stripPlaceCoordinates)
+}
@@ -0,0 +1,89 @@
+/**
+ * Project Sessions - Time tracking for project tasks
+ * Projects are never completed by a single suggestion; instead each sitting is
+ * logged as a session, and time spent is measured against the total estimate.
+ */
+
+import type { Task } from '@/types/task'
+import { daysUntil } from '@/utils/dateHelpers'
+
+/**
+ * Days without a session at which the stalled factor saturates
+ */
+export const MAX_STALLED_DAYS = 30
+
+/**
+ * Days without a session before a project is called out as stalled
+ */
+export const STALLED_REASON_DAYS = 7
+
+/**
+ * Effort tracked against a project's total estimate
+ */
+export interface ProjectEffort {
+  spentMinutes: number
+  estimateMinutes: number
+  remainingMinutes: number
+  /** Share of the estimate already spent (0-1, capped at 1) */
+  progress: number
+  sessionCount: number
+}
+
+/**
+ * Sum the minutes of all logged sessions
+ */
+export function getTimeSpentMinutes(task: Task): number {
+  return (task.sessionLogs ?? []).reduce((sum, log) => sum + log.durationMinutes, 0)
+}
+
+/**
+ * Get when the project was last worked on
+ * Falls back to the creation date when no session has been logged yet
+ */
+export function getLastWorkedAt(task: Task): string {
+  const logs = task.sessionLogs ?? []
+  return logs.length > 0 ? logs[logs.length - 1]!.loggedAt : task.createdAt
+}
+
+/**
+ * Summarize time spent vs. the total estimate of a project
+ *
+ * @param task - Project task
+ * @returns Spent, estimated and remaining minutes with progress
+ */
+export function getProjectEffort(task: Task): ProjectEffort {
+  const spentMinutes = getTimeSpentMinutes(task)
+  const estimateMinutes = task.timeEstimateMinutes
+
+  return {
+    spentMinutes,
+    estimateMinutes,
+    remainingMinutes: Math.max(0, estimateMinutes - spentMinutes),
+    progress: estimateMinutes > 0 ? Math.min(1, spentMinutes / estimateMinutes) : 0,
+    sessionCount: task.sessionLogs?.length ?? 0
+  }
+}
+
+/**
+ * Get the number of whole days since the project was last worked on
+ */
+export function getDaysSinceLastWorked(task: Task, now: Date = new Date()): number {
+  return Math.max(0, -daysUntil(getLastWorkedAt(task), now))
+}
+
+/**
+ * Calculate the stalled factor (0-1) for a project
+ * Grows linearly with days since the last session, so long-neglected projects
+ * come back up in suggestions
+ *
+ * @param task - Task to score
+ * @param now - Current date (defaults to now)
+ * @returns Stalled score, or null for non-project tasks
+ */
+export function calculateStalledScore(task: Task, now: Date = new Date()): number | null {
+  if (task.type !== 'project') {
+    return null
+  }
+
+  return Math.min(getDaysSinceLastWorked(task, now), MAX_STALLED_DAYS) / MAX_STALLED_DAYS
+}
@@ -1,58 +1,128 @@
 /**
- * Scoring Algorithm - Equal-weighted scoring for task suggestions
- * Per research.md - uses equal weighting for all factors with urgency tiebreaker
+ * Scoring Algorithm - Weighted scoring for task suggestions
+ * Per research.md - factors are averaged (equal weights by default) with urgency tiebreaker.
+ * Weights and normalization horizons come from the user's scoring profile.
  */
 
 import type { Task, Priority } from '@/types/task'
-import type { SuggestionContext, ScoringFactors, TaskScore } from '@/types/suggestion'
-import { calculateUrgency, normalizeUrgency } from './urgency'
+import type {
+  SuggestionContext,
+  ScoringFactors,
+  ScoringProfile,
+  ScoringWeights,
+  TaskScore
+} from '@/types/suggestion'
+import { calculateUrgency, normalizeUrgency, MAX_OVERDUE_DAYS } from './urgency'
+import { getEffectiveTimeEstimate, getNextSubtask, getPendingSubtasks } from './subtasks'
+import { calculateStalledScore, getDaysSinceLastWorked, STALLED_REASON_DAYS } from './projectSessions'
 import { toRaw } from 'vue'
 
 /**
  * Maximum days to consider for deadline proximity normalization
  */
-const MAX_DEADLINE_DAYS = 30
+export const MAX_DEADLINE_DAYS = 30
+
+/**
+ * Number of postponements at which the postponement factor saturates
+ */
+const MAX_POSTPONEMENTS = 5
+
+/**
+ * Default weights - every factor counts equally
+ */
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  urgency: 1,
+  deadlineProximity: 1,
+  priority: 1,
+  postponements: 1,
+  timeMatch: 1,
+  effortMatch: 1,
+  locationMatch: 1,
+  stalled: 1,
+  tagMatch: 1
+}
+
+/**
+ * Default scoring profile - equal weighting with the built-in horizons
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 1,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  maxDeadlineDays: MAX_DEADLINE_DAYS,
+  maxOverdueDays: MAX_OVERDUE_DAYS
+}
 
 /**
  * Calculate the overall score for a task given a suggestion context
  *
  * @param task - The task to score
  * @param context - The suggestion context (available time, filters)
+ * @param profile - Scoring profile with factor weights (default: equal weighting)
  * @returns Normalized score between 0 and 1
  */
-export function calculateScore(task: Task, context: SuggestionContext): number {
-  const factors = calculateFactors(task, context)
-
-  // Get all applicable (non-null) factor values
-  const applicableFactors: number[] = []
-
-  // Always included factors
-  applicableFactors.push(factors.priority)
-  applicableFactors.push(factors.timeMatch)
-  applicableFactors.push(normalizeUrgency(factors.urgency))
-  applicableFactors.push(factors.postponements)
+export function calculateScore(
+  task: Task,
+  context: SuggestionContext,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  const factors = calculateFactors(task, context, profile)
+  return calculateWeightedScore(factors, profile)
+}
 
-  // Conditionally included factors
-  if (factors.deadlineProximity !== null) {
-    applicableFactors.push(factors.deadlineProximity)
-  }
-  if (factors.effortMatch !== null) {
-    applicableFactors.push(factors.effortMatch)
-  }
-  if (factors.locationMatch !== null) {
-    applicableFactors.push(factors.locationMatch)
+/**
+ * Combine scoring factors into a single score using the profile weights
+ * Null factors (e.g. no filter applied) are left out of the average entirely
+ *
+ * @param factors - Scoring factors for a task
+ * @param profile - Scoring profile with factor weights
+ * @returns Normalized score between 0 and 1
+ */
+export function calculateWeightedScore(
+  factors: ScoringFactors,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  const values = getNormalizedFactorValues(factors, profile)
+
+  let weightedSum = 0
+  let totalWeight = 0
+
+  for (const key of Object.keys(values) as Array<keyof ScoringFactors>) {
+    const value = values[key]
+    if (value === null) continue
+
+    const weight = Math.max(0, profile.weights[key] ?? DEFAULT_SCORING_WEIGHTS[key])
+    weightedSum += value * weight
+    totalWeight += weight
   }
 
-  // Equal weighting: average all applicable factors
-  if (applicableFactors.length === 0) {
+  if (totalWeight === 0) {
     return 0
   }
 
-  const sum = applicableFactors.reduce((acc, val) => acc + val, 0)
-  const score = sum / applicableFactors.length
-
   // Ensure score is normalized to 0-1
-  return normalizeScore(score)
+  return normalizeScore(weightedSum / totalWeight)
+}
+
+/**
+ * Get each factor on a 0-1 scale (null when the factor does not apply)
+ * Raw urgency is in days, so it is normalized with the profile's overdue horizon
+ */
+export function getNormalizedFactorValues(
+  factors: ScoringFactors,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Record<keyof ScoringFactors, number | null> {
+  return {
+    urgency: normalizeUrgency(factors.urgency, profile.maxOverdueDays),
+    deadlineProximity: factors.deadlineProximity,
+    priority: factors.priority,
+    postponements: factors.postponements,
+    timeMatch: factors.timeMatch,
+    effortMatch: factors.effortMatch,
+    locationMatch: factors.locationMatch,
+    // Sessions recorded before the factor existed have no value
+    stalled: factors.stalled ?? null,
+    tagMatch: factors.tagMatch ?? null
+  }
 }
 
 /**
@@ -60,24 +130,29 @@ export function calculateScore(task: Task, context: SuggestionContext): number {
  *
  * @param task - The task to analyze
  * @param context - The suggestion context
+ * @param profile - Scoring profile providing normalization horizons
  * @returns Scoring factors object
  */
-export function calculateFactors(task: Task, context: SuggestionContext): ScoringFactors {
+export function calculateFactors(
+  task: Task,
+  context: SuggestionContext,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoringFactors {
   const urgency = calculateUrgency(task)
 
-  // For project tasks, use minimum session duration instead of total time estimate
-  const effectiveTime = task.type === 'project' && task.projectSession
-    ? task.projectSession.minSessionDurationMinutes
-    : task.timeEstimateMinutes
+  // For project tasks, use the next checklist step or minimum session duration
+  const effectiveTime = getEffectiveTimeEstimate(task, context.availableTimeMinutes)
 
   return {
     urgency,
-    deadlineProximity: calculateDeadlineProximity(task),
+    deadlineProximity: calculateDeadlineProximity(task, profile.maxDeadlineDays),
     priority: normalizePriority(task.priority),
     postponements: calculatePostponementScore(task),
     timeMatch: calculateTimeMatch(effectiveTime, context.availableTimeMinutes),
     effortMatch: calculateEffortMatch(task, context),
-    locationMatch: calculateLocationMatch(task, context)
+    locationMatch: calculateLocationMatch(task, context),
+    stalled: calculateStalledScore(task),
+    tagMatch: calculateTagMatch(task, context)
   }
 }
 
@@ -112,7 +187,7 @@ export function compareTasks(a: TaskScore, b: TaskScore): number {
  * Calculate deadline proximity factor (0-1)
  * Higher value = closer deadline
  */
-function calculateDeadlineProximity(task: Task): number | null {
+function calculateDeadlineProximity(task: Task, maxDeadlineDays: number): number | null {
   if (!task.deadline) {
     return null
   }
@@ -129,13 +204,13 @@ function calculateDeadlineProximity(task: Task): number | null {
     return 1
   }
 
-  if (daysUntil >= MAX_DEADLINE_DAYS) {
+  if (daysUntil >= maxDeadlineDays) {
     // Far in the future = no urgency
     return 0
   }
 
   // Linear interpolation: closer deadline = higher score
-  return 1 - (daysUntil / MAX_DEADLINE_DAYS)
+  return 1 - (daysUntil / maxDeadlineDays)
 }
 
 /**
@@ -155,13 +230,33 @@ function normalizePriority(priority: Priority): number {
 }
 
 /**
- * Calculate postponement score (placeholder for future implementation)
- * Currently returns 0 as we don't track postponements yet
+ * Get the number of times a task has been skipped
+ * For recurring tasks, only postponements since the last completion count,
+ * so a chore that was eventually done starts its next cycle fresh
+ *
+ * @param task - The task to inspect
+ * @returns Number of relevant postponements
  */
-function calculatePostponementScore(_task: Task): number {
-  // TODO: Implement when postponement tracking is added
-  // Higher postponement count = higher score (need to get it done)
-  return 0
+export function getPostponementCount(task: Task): number {
+  const history = task.postponements
+  if (!history) {
+    return 0
+  }
+
+  if (task.type === 'recurring' && task.recurringPattern?.lastCompletedDate) {
+    const lastCompleted = new Date(task.recurringPattern.lastCompletedDate).getTime()
+    return history.timestamps.filter((t) => new Date(t).getTime() > lastCompleted).length
+  }
+
+  return history.count
+}
+
+/**
+ * Calculate postponement score (0-1)
+ * Higher postponement count = higher score (need to get it done)
+ */
+function calculatePostponementScore(task: Task): number {
+  return Math.min(1, getPostponementCount(task) / MAX_POSTPONEMENTS)
 }
 
 /**
@@ -211,19 +306,39 @@ function calculateLocationMatch(task: Task, context: SuggestionContext): number
   return task.location === context.contextFilters.location ? 1 : 0
 }
 
+/**
+ * Calculate tag match factor (0-1)
+ * Share of the task's tags the user has at hand
+ * Returns null if no tags are selected or the task has no tags
+ */
+function calculateTagMatch(task: Task, context: SuggestionContext): number | null {
+  const available = context.contextFilters?.tags
+  if (!available?.length || !task.tags?.length) {
+    return null
+  }
+
+  const matched = task.tags.filter((tag) => available.includes(tag)).length
+  return matched / task.tags.length
+}
+
 /**
  * Score and rank a list of tasks
  *
  * @param tasks - Tasks to score
  * @param context - Suggestion context
+ * @param profile - Scoring profile with factor weights (default: equal weighting)
  * @returns Sorted array of task scores (highest first)
  */
-export function scoreAndRankTasks(tasks: Task[], context: SuggestionContext): TaskScore[] {
+export function scoreAndRankTasks(
+  tasks: Task[],
+  context: SuggestionContext,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): TaskScore[] {
   const scored: TaskScore[] = tasks.map(task => {
-    const factors = calculateFactors(task, context)
-    const score = calculateScore(task, context)
+    const factors = calculateFactors(task, context, profile)
+    const score = calculateWeightedScore(factors, profile)
 
-    return {
+    const taskScore: TaskScore = {
       taskId: task.id!,
       task: toRaw(task), // Convert to plain object to avoid DataCloneError in IndexedDB
       score,
@@ -231,6 +346,14 @@ export function scoreAndRankTasks(tasks: Task[], context: SuggestionContext): Ta
       reason: generateReason(task, context, factors),
       factors
     }
+
+    // Projects with a checklist are suggested one step at a time
+    const subtask = getNextSubtask(task, context.availableTimeMinutes)
+    if (subtask) {
+      taskScore.subtask = { ...toRaw(subtask) }
+    }
+
+    return taskScore
   })
 
   // Sort by score (descending) with urgency tiebreaker
@@ -243,10 +366,14 @@ export function scoreAndRankTasks(tasks: Task[], context: SuggestionContext): Ta
 function generateReason(task: Task, context: SuggestionContext, factors: ScoringFactors): string {
   const reasons: string[] = []
 
+  // Next checklist step for projects
+  const pendingSteps = getPendingSubtasks(task).length
+  if (pendingSteps > 0) {
+    reasons.push(`next of ${pendingSteps} remaining step${pendingSteps === 1 ? '' : 's'}`)
+  }
+
   // Time fit (use effective time for project tasks)
-  const effectiveTime = task.type === 'project' && task.projectSession
-    ? task.projectSession.minSessionDurationMinutes
-    : task.timeEstimateMinutes
+  const effectiveTime = getEffectiveTimeEstimate(task, context.availableTimeMinutes)
   const percentOfTime = Math.round((effectiveTime / context.availableTimeMinutes) * 100)
   if (percentOfTime >= 80) {
     reasons.push(`uses ${percentOfTime}% of your time`)
@@ -281,6 +408,14 @@ function generateReason(task: Task, context: SuggestionContext, factors: Scoring
     }
   }
 
+  // Stalled projects
+  if (task.type === 'project') {
+    const idleDays = getDaysSinceLastWorked(task)
+    if (idleDays >= STALLED_REASON_DAYS) {
+      reasons.push(`not worked on for ${idleDays} days`)
+    }
+  }
+
   // Context matches
   if (factors.effortMatch === 1) {
     reasons.push(`matches your ${context.contextFilters?.effortLevel} effort preference`)
@@ -288,6 +423,9 @@ function generateReason(task: Task, context: SuggestionContext, factors: Scoring
   if (factors.locationMatch === 1) {
     reasons.push(`can be done ${task.location === 'anywhere' ? 'anywhere' : 'at ' + task.location}`)
   }
+  if (factors.tagMatch === 1) {
+    reasons.push(`you have ${task.tags!.join(', ')} at hand`)
+  }
 
   return reasons.length > 0 ? reasons.join(', ') : 'fits your available time'
 }
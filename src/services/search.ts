@@ -0,0 +1,241 @@
+/**
+ * Search - In-memory full-text index over task names, notes and tags
+ *
+ * The index maps each word to the tasks containing it. Query words match
+ * indexed words exactly, by prefix ("vacu" finds "vacuum"), or with a small
+ * typo allowance ("vaccum" finds "vacuum"). Every query word has to match.
+ */
+
+import type { Task } from '@/types/task'
+
+/**
+ * Inverted index from words to task IDs
+ */
+export interface SearchIndex {
+  /** Task IDs per indexed word */
+  words: Map<string, Set<string>>
+  /** Indexed words per task (used to remove a task again) */
+  taskWords: Map<string, Set<string>>
+}
+
+/**
+ * A stretch of text marked as matching or not (for highlighting)
+ */
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Relevance of each kind of word match
+ */
+const MATCH_SCORES = {
+  exact: 3,
+  prefix: 2,
+  fuzzy: 1
+} as const
+
+/**
+ * Query words shorter than this only match exactly or by prefix
+ */
+const MIN_FUZZY_LENGTH = 4
+
+/**
+ * Query words of at least this length allow two typos instead of one
+ */
+const TWO_TYPO_LENGTH = 8
+
+/**
+ * Lowercase a text and strip accents so "Café" matches "cafe"
+ */
+function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/**
+ * Split text into searchable words
+ *
+ * @param text - Any text (task name, tag, query)
+ * @returns Lowercase, accent-free words
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/**
+ * Edit distance between two words, counting a swap of neighbouring letters
+ * as one edit ("tyers" -> "tyres"), giving up once it exceeds a limit
+ *
+ * @returns Distance, or limit + 1 if the words are further apart
+ */
+function boundedEditDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2]! + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > limit) return limit + 1
+    beforePrevious = previous
+    previous = current
+  }
+
+  return previous[b.length]!
+}
+
+/**
+ * Score how well a query word matches an indexed word
+ *
+ * @returns Match score, or 0 if the words don't match
+ */
+function matchWord(queryWord: string, word: string): number {
+  if (word === queryWord) return MATCH_SCORES.exact
+  if (word.startsWith(queryWord)) return MATCH_SCORES.prefix
+  if (queryWord.length < MIN_FUZZY_LENGTH) return 0
+
+  const limit = queryWord.length >= TWO_TYPO_LENGTH ? 2 : 1
+  // Compare against the word's start too, so typos in a prefix still match
+  const candidate = word.length > queryWord.length + limit ? word.slice(0, queryWord.length) : word
+  return boundedEditDistance(queryWord, candidate, limit) <= limit ? MATCH_SCORES.fuzzy : 0
+}
+
+/**
+ * Words of a task that are searchable
+ */
+function getTaskWords(task: Task): Set<string> {
+  const texts = [task.name, task.notes ?? '', ...(task.tags ?? [])]
+  return new Set(texts.flatMap(tokenize))
+}
+
+/**
+ * Create an index over a set of tasks (deleted tasks are skipped)
+ */
+export function createSearchIndex(tasks: Task[] = []): SearchIndex {
+  const index: SearchIndex = { words: new Map(), taskWords: new Map() }
+  for (const task of tasks) {
+    indexTask(index, task)
+  }
+  return index
+}
+
+/**
+ * Remove a task from the index
+ */
+export function removeFromIndex(index: SearchIndex, taskId: string): void {
+  const words = index.taskWords.get(taskId)
+  if (!words) return
+
+  for (const word of words) {
+    const ids = index.words.get(word)
+    ids?.delete(taskId)
+    if (ids?.size === 0) {
+      index.words.delete(word)
+    }
+  }
+  index.taskWords.delete(taskId)
+}
+
+/**
+ * Add or refresh a task in the index (deleted tasks are removed)
+ */
+export function indexTask(index: SearchIndex, task: Task): void {
+  removeFromIndex(index, task.id)
+  if (task.deletedAt) return
+
+  const words = getTaskWords(task)
+  index.taskWords.set(task.id, words)
+  for (const word of words) {
+    let ids = index.words.get(word)
+    if (!ids) {
+      ids = new Set()
+      index.words.set(word, ids)
+    }
+    ids.add(task.id)
+  }
+}
+
+/**
+ * Search the index
+ *
+ * @param index - Search index
+ * @param query - Free text typed by the user
+ * @returns Matching task IDs, most relevant first (empty for a blank query)
+ */
+export function searchIndex(index: SearchIndex, query: string): string[] {
+  const queryWords = [...new Set(tokenize(query))]
+  if (queryWords.length === 0) return []
+
+  let scores: Map<string, number> | null = null
+
+  for (const queryWord of queryWords) {
+    // Best score per task for this query word
+    const wordScores = new Map<string, number>()
+    for (const [word, ids] of index.words) {
+      const score = matchWord(queryWord, word)
+      if (score === 0) continue
+      for (const id of ids) {
+        wordScores.set(id, Math.max(wordScores.get(id) ?? 0, score))
+      }
+    }
+
+    // Every query word has to match
+    const next = new Map<string, number>()
+    for (const [id, score] of wordScores) {
+      if (scores === null || scores.has(id)) {
+        next.set(id, (scores?.get(id) ?? 0) + score)
+      }
+    }
+    scores = next
+    if (scores.size === 0) return []
+  }
+
+  return [...scores!.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id)
+}
+
+/**
+ * Split text into matching and non-matching segments for highlighting
+ *
+ * @param text - Text shown to the user (e.g. a task name)
+ * @param query - Current search query
+ * @returns Segments covering the whole text in order
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const queryWords = tokenize(query)
+  if (queryWords.length === 0 || !text) return [{ text, match: false }]
+
+  const segments: HighlightSegment[] = []
+  let last = 0
+  for (const found of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = foldText(found[0])
+    if (!queryWords.some((queryWord) => matchWord(queryWord, word) > 0)) continue
+
+    const start = found.index!
+    if (start > last) segments.push({ text: text.slice(last, start), match: false })
+    segments.push({ text: found[0], match: true })
+    last = start + found[0].length
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false })
+
+  return segments
+}
+
+/**
+ * Check whether a single term (e.g. a tag) matches the query
+ */
+export function matchesQuery(text: string, query: string): boolean {
+  const queryWords = tokenize(query)
+  const words = tokenize(text)
+  return queryWords.length > 0 && words.some((word) => queryWords.some((q) => matchWord(q, word) > 0))
+}
@@ -0,0 +1,52 @@
+/**
+ * Snooze - Hide a task until a chosen day
+ * A snooze is stored on the task and expires on its own once the date passes,
+ * so it needs no cleanup and syncs like any other task field.
+ */
+
+import { addDays, nextMonday, nextSaturday, startOfDay } from 'date-fns'
+
+import type { Task } from '@/types/task'
+
+export type SnoozePreset = 'tomorrow' | 'in-3-days' | 'weekend' | 'next-week'
+
+/**
+ * Quick snooze options offered on suggestions
+ */
+export const SNOOZE_PRESETS: { value: SnoozePreset; label: string }[] = [
+  { value: 'tomorrow', label: 'Tomorrow' },
+  { value: 'in-3-days', label: 'In 3 days' },
+  { value: 'weekend', label: 'Saturday' },
+  { value: 'next-week', label: 'Next week' }
+]
+
+/**
+ * Check whether a task is snoozed at a given moment
+ *
+ * @param task - Task to check
+ * @param at - Moment to check (defaults to now)
+ * @returns true until the snooze date is reached
+ */
+export function isSnoozed(task: Task, at: Date = new Date()): boolean {
+  return !!task.snoozedUntil && new Date(task.snoozedUntil) > at
+}
+
+/**
+ * Get the moment a preset snooze ends (start of the chosen day, local time)
+ *
+ * @param preset - Quick snooze option
+ * @param from - Moment the snooze starts (defaults to now)
+ * @returns Start of the day the task comes back
+ */
+export function getSnoozeUntil(preset: SnoozePreset, from: Date = new Date()): Date {
+  switch (preset) {
+    case 'tomorrow':
+      return startOfDay(addDays(from, 1))
+    case 'in-3-days':
+      return startOfDay(addDays(from, 3))
+    case 'weekend':
+      return startOfDay(nextSaturday(from))
+    case 'next-week':
+      return startOfDay(nextMonday(from))
+  }
+}
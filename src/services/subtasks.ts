@@ -0,0 +1,80 @@
+/**
+ * Subtasks - Checklist helpers for project tasks
+ * A project with unchecked steps is worked on one step at a time,
+ * so suggestions and time matching use the next step rather than the project.
+ */
+
+import type { Subtask, Task } from '@/types/task'
+
+/**
+ * Checklist progress for a task
+ */
+export interface SubtaskProgress {
+  completedCount: number
+  totalCount: number
+  completedMinutes: number
+  totalMinutes: number
+}
+
+/**
+ * Get the unchecked steps of a project task, in checklist order
+ */
+export function getPendingSubtasks(task: Task): Subtask[] {
+  if (task.type !== 'project') return []
+  return (task.subtasks ?? []).filter((s) => !s.completed)
+}
+
+/**
+ * Get the first unchecked step that fits the available time
+ *
+ * @param task - Project task
+ * @param availableMinutes - Time the user has
+ * @returns The step to suggest, or undefined if none fits (or there is no checklist)
+ */
+export function getNextSubtask(task: Task, availableMinutes: number): Subtask | undefined {
+  return getPendingSubtasks(task).find((s) => s.timeEstimateMinutes <= availableMinutes)
+}
+
+/**
+ * Get the time a task needs in one sitting
+ * - Project with unchecked steps: the next step that fits (or the shortest step if none fits)
+ * - Project without a checklist: the minimum session duration
+ * - Otherwise: the task's own estimate
+ *
+ * @param task - Task to measure
+ * @param availableMinutes - Time the user has
+ * @returns Effective time in minutes
+ */
+export function getEffectiveTimeEstimate(task: Task, availableMinutes: number): number {
+  const pending = getPendingSubtasks(task)
+  if (pending.length > 0) {
+    const next = getNextSubtask(task, availableMinutes)
+    return next
+      ? next.timeEstimateMinutes
+      : Math.min(...pending.map((s) => s.timeEstimateMinutes))
+  }
+
+  if (task.type === 'project' && task.projectSession) {
+    return task.projectSession.minSessionDurationMinutes
+  }
+
+  return task.timeEstimateMinutes
+}
+
+/**
+ * Summarize checklist progress
+ *
+ * @param task - Task with optional subtasks
+ * @returns Counts and minutes of completed vs. total steps
+ */
+export function getSubtaskProgress(task: Task): SubtaskProgress {
+  const subtasks = task.subtasks ?? []
+  const completed = subtasks.filter((s) => s.completed)
+
+  return {
+    completedCount: completed.length,
+    totalCount: subtasks.length,
+    completedMinutes: completed.reduce((sum, s) => sum + s.timeEstimateMinutes, 0),
+    totalMinutes: subtasks.reduce((sum, s) => sum + s.timeEstimateMinutes, 0)
+  }
+}
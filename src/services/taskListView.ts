@@ -0,0 +1,212 @@
+/**
+ * Task List View - Sorting and grouping options for the task list
+ * The chosen options are stored per device, like other display preferences.
+ */
+
+import { endOfWeek, parseISO } from 'date-fns'
+
+import type { Task, TaskType, Location, EffortLevel, Priority } from '@/types/task'
+import { calculateUrgency, isDueToday, isOverdue } from '@/utils/dateHelpers'
+
+export type TaskSortMode = 'manual' | 'urgency' | 'deadline' | 'priority' | 'time' | 'updated'
+
+export type TaskGroupMode = 'none' | 'type' | 'location' | 'effort' | 'due'
+
+export type DueBucket = 'overdue' | 'today' | 'this-week' | 'later' | 'none'
+
+/**
+ * Sort and group choice for the task list
+ */
+export interface TaskListViewOptions {
+  sort: TaskSortMode
+  group: TaskGroupMode
+}
+
+/**
+ * A labelled group of tasks
+ */
+export interface TaskGroup {
+  /** Stable key (e.g. 'recurring', 'overdue') */
+  key: string
+  label: string
+  tasks: Task[]
+}
+
+/**
+ * Sort modes offered in the task list
+ */
+export const TASK_SORT_OPTIONS: { value: TaskSortMode; label: string }[] = [
+  { value: 'manual', label: 'Date added' },
+  { value: 'urgency', label: 'Urgency' },
+  { value: 'deadline', label: 'Deadline' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'time', label: 'Time estimate' },
+  { value: 'updated', label: 'Recently updated' }
+]
+
+/**
+ * Group modes offered in the task list
+ */
+export const TASK_GROUP_OPTIONS: { value: TaskGroupMode; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'type', label: 'Type' },
+  { value: 'location', label: 'Location' },
+  { value: 'effort', label: 'Effort' },
+  { value: 'due', label: 'Due' }
+]
+
+export const DEFAULT_TASK_LIST_VIEW: TaskListViewOptions = { sort: 'manual', group: 'none' }
+
+/**
+ * localStorage key for the task list view options
+ */
+const TASK_LIST_VIEW_KEY = 'sparetime-task-list-view'
+
+const PRIORITY_RANK: Record<Priority, number> = { critical: 0, important: 1, optional: 2 }
+
+const GROUP_LABELS: {
+  type: Record<TaskType, string>
+  location: Record<Location, string>
+  effort: Record<EffortLevel, string>
+  due: Record<DueBucket, string>
+} = {
+  type: { 'one-off': 'One-Off', recurring: 'Recurring', project: 'Projects' },
+  location: { home: 'Home', outside: 'Outside', anywhere: 'Anywhere' },
+  effort: { low: 'Low effort', medium: 'Medium effort', high: 'High effort' },
+  due: {
+    overdue: 'Overdue',
+    today: 'Today',
+    'this-week': 'This week',
+    later: 'Later',
+    none: 'No due date'
+  }
+}
+
+/**
+ * Get the date a task is next due: the earlier of its deadline and next recurrence
+ *
+ * @returns ISO date string, or undefined if the task has no due date
+ */
+export function getTaskDueDate(task: Task): string | undefined {
+  const dates = [task.deadline, task.recurringPattern?.nextDueDate].filter((d): d is string => !!d)
+  if (dates.length === 0) return undefined
+  return dates.reduce((earliest, date) => (parseISO(date) < parseISO(earliest) ? date : earliest))
+}
+
+/**
+ * Put a task into a due bucket
+ *
+ * @param task - Task to classify
+ * @param now - Current moment
+ */
+export function getDueBucket(task: Task, now: Date = new Date()): DueBucket {
+  const due = getTaskDueDate(task)
+  if (!due) return 'none'
+  if (isOverdue(due, now)) return 'overdue'
+  if (isDueToday(due, now)) return 'today'
+  return parseISO(due) <= endOfWeek(now, { weekStartsOn: 1 }) ? 'this-week' : 'later'
+}
+
+/**
+ * Compare two optional numbers, placing missing values last
+ */
+function compareOptional(a: number | undefined, b: number | undefined): number {
+  if (a === undefined) return b === undefined ? 0 : 1
+  if (b === undefined) return -1
+  return a - b
+}
+
+/**
+ * Sort tasks for display (stable, so ties keep their incoming order)
+ *
+ * @param tasks - Tasks to sort (not modified)
+ * @param mode - Sort mode ('manual' keeps the incoming order)
+ * @param now - Current moment, used for urgency
+ * @returns Sorted copy
+ */
+export function sortTasks(tasks: Task[], mode: TaskSortMode, now: Date = new Date()): Task[] {
+  const sorted = [...tasks]
+
+  switch (mode) {
+    case 'urgency': {
+      // Most overdue first; tasks without a due date last
+      const urgency = (task: Task) => {
+        const due = getTaskDueDate(task)
+        return due === undefined ? undefined : -calculateUrgency(due, now)
+      }
+      return sorted.sort((a, b) => compareOptional(urgency(a), urgency(b)))
+    }
+    case 'deadline': {
+      const deadline = (task: Task) => (task.deadline ? parseISO(task.deadline).getTime() : undefined)
+      return sorted.sort((a, b) => compareOptional(deadline(a), deadline(b)))
+    }
+    case 'priority':
+      return sorted.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])
+    case 'time':
+      return sorted.sort((a, b) => a.timeEstimateMinutes - b.timeEstimateMinutes)
+    case 'updated':
+      return sorted.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    case 'manual':
+      return sorted
+  }
+}
+
+/**
+ * Split tasks into labelled groups, keeping their order within each group
+ * Groups without tasks are left out.
+ *
+ * @param tasks - Tasks in display order
+ * @param mode - Group mode ('none' returns a single unlabelled group)
+ * @param now - Current moment, used for due buckets
+ */
+export function groupTasks(tasks: Task[], mode: TaskGroupMode, now: Date = new Date()): TaskGroup[] {
+  if (mode === 'none') {
+    return [{ key: 'all', label: '', tasks }]
+  }
+
+  const labels: Record<string, string> = GROUP_LABELS[mode]
+  const keyOf = (task: Task): string => {
+    switch (mode) {
+      case 'type':
+        return task.type
+      case 'location':
+        return task.location
+      case 'effort':
+        return task.effortLevel
+      case 'due':
+        return getDueBucket(task, now)
+    }
+  }
+
+  // Groups follow the order of the labels (e.g. Overdue before Today)
+  const groups = new Map<string, Task[]>(Object.keys(labels).map((key) => [key, []]))
+  for (const task of tasks) {
+    groups.get(keyOf(task))?.push(task)
+  }
+
+  return [...groups.entries()]
+    .filter(([, groupTasks]) => groupTasks.length > 0)
+    .map(([key, groupTasks]) => ({ key, label: labels[key]!, tasks: groupTasks }))
+}
+
+/**
+ * Read the task list view options saved on this device
+ */
+export function getTaskListView(): TaskListViewOptions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TASK_LIST_VIEW_KEY) ?? 'null') as Partial<TaskListViewOptions> | null
+    return {
+      sort: TASK_SORT_OPTIONS.some((o) => o.value === saved?.sort) ? saved!.sort! : DEFAULT_TASK_LIST_VIEW.sort,
+      group: TASK_GROUP_OPTIONS.some((o) => o.value === saved?.group) ? saved!.group! : DEFAULT_TASK_LIST_VIEW.group
+    }
+  } catch {
+    return { ...DEFAULT_TASK_LIST_VIEW }
+  }
+}
+
+/**
+ * Save the task list view options on this device
+ */
+export function setTaskListView(options: TaskListViewOptions): void {
+  localStorage.setItem(TASK_LIST_VIEW_KEY, JSON.stringify(options))
+}
@@ -0,0 +1,160 @@
+/**
+ * Task Merge - Field-level three-way merge of a task edited on two devices
+ *
+ * Both copies are compared with the base: the copy of the task as of the
+ * last sync. A field changed on one side takes that side's value; a field
+ * changed on both sides to different values is a conflict that the user
+ * has to settle.
+ */
+
+import type { Task, TaskField } from '@/types/task'
+import type { SyncConflict } from '@/types/sync'
+
+/**
+ * Result of a three-way merge
+ */
+export interface TaskFieldMerge {
+  /** Merged task; conflicting fields keep the local value */
+  merged: Task
+  /** Fields changed on both sides to different values */
+  conflictingFields: TaskField[]
+}
+
+/**
+ * Serialize a value with sorted object keys, so equal values compare equal
+ * however their objects were built
+ */
+function canonicalize(value: unknown): string {
+  if (value === undefined) return 'undefined'
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  )
+}
+
+/**
+ * Check whether two field values are the same (missing equals undefined)
+ */
+export function isSameFieldValue(a: unknown, b: unknown): boolean {
+  return canonicalize(a) === canonicalize(b)
+}
+
+/**
+ * Set a field on a task copy, removing it when the value is missing
+ */
+function setField(task: Task, field: TaskField, value: unknown): void {
+  if (value === undefined) {
+    delete (task as unknown as Record<string, unknown>)[field]
+  } else {
+    (task as unknown as Record<string, unknown>)[field] = value
+  }
+}
+
+/**
+ * Merge two edited copies of a task field by field
+ *
+ * @param base - Task as of the last sync
+ * @param local - Copy on this device
+ * @param remote - Copy in the backup
+ * @returns Merged task (with the local updatedAt and hlc) and the conflicting fields
+ */
+export function mergeTaskFields(base: Task, local: Task, remote: Task): TaskFieldMerge {
+  const merged: Task = { ...local }
+  const conflictingFields: TaskField[] = []
+
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)])
+  fields.delete('id')
+  fields.delete('updatedAt')
+  fields.delete('hlc')
+
+  for (const field of fields as Set<TaskField>) {
+    const localValue = local[field]
+    const remoteValue = remote[field]
+    if (isSameFieldValue(localValue, remoteValue)) continue
+
+    if (isSameFieldValue(localValue, base[field])) {
+      // Only changed on the other device
+      setField(merged, field, remoteValue)
+    } else if (!isSameFieldValue(remoteValue, base[field])) {
+      conflictingFields.push(field)
+    }
+  }
+
+  return { merged, conflictingFields }
+}
+
+/**
+ * Check whether two copies of a task have the same field values (change stamps aside)
+ */
+export function isSameTask(a: Task, b: Task): boolean {
+  return isSameFieldValue(
+    { ...a, updatedAt: undefined, hlc: undefined },
+    { ...b, updatedAt: undefined, hlc: undefined }
+  )
+}
+
+/**
+ * Settle the conflicting fields of a merged task with one side's values
+ *
+ * @param merged - Result of mergeTaskFields
+ * @param source - Copy whose values win
+ * @param fields - Conflicting fields
+ */
+export function applyFieldValues(merged: Task, source: Task, fields: TaskField[]): Task {
+  const resolved: Task = { ...merged }
+  for (const field of fields) {
+    setField(resolved, field, source[field])
+  }
+  return resolved
+}
+
+/**
+ * The task kept when a conflict is settled with one side's values
+ * Changes merged automatically are kept whichever side is chosen.
+ *
+ * @param conflict - Sync conflict
+ * @param side - Device whose values win
+ */
+export function getConflictVersion(conflict: SyncConflict, side: 'local' | 'remote'): Task {
+  const source = side === 'local' ? conflict.localData : conflict.remoteData
+  return conflict.mergedData && conflict.conflictingFields
+    ? applyFieldValues(conflict.mergedData, source, conflict.conflictingFields)
+    : source
+}
+
+/**
+ * Fields whose values differ between two copies of a task (change stamps aside)
+ */
+export function getDifferingFields(a: Task, b: Task): TaskField[] {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)])
+  fields.delete('id')
+  fields.delete('updatedAt')
+  fields.delete('hlc')
+  return ([...fields] as TaskField[]).filter((field) => !isSameFieldValue(a[field], b[field]))
+}
+
+/**
+ * Fields the user has to settle for a conflict
+ * Conflicts found without a base cover every field that differs.
+ */
+export function getConflictFields(conflict: SyncConflict): TaskField[] {
+  return conflict.conflictingFields ?? getDifferingFields(conflict.localData, conflict.remoteData)
+}
+
+/**
+ * Put together the task the user settled field by field
+ *
+ * @param conflict - Sync conflict
+ * @param choices - Device whose value wins per conflicting field (this device if not chosen)
+ * @param edits - Values typed in by the user, taking precedence over the choices
+ */
+export function composeConflictResolution(
+  conflict: SyncConflict,
+  choices: Partial<Record<TaskField, 'local' | 'remote'>>,
+  edits: Partial<Task> = {}
+): Task {
+  const remoteFields = getConflictFields(conflict).filter((field) => choices[field] === 'remote')
+  const composed = applyFieldValues(getConflictVersion(conflict, 'local'), conflict.remoteData, remoteFields)
+  return { ...composed, ...edits, id: conflict.taskId }
+}
@@ -0,0 +1,112 @@
+/**
+ * Trash - Retention of soft-deleted tasks
+ * Deleted tasks stay restorable for a retention period chosen per device,
+ * then they are removed for good. Tasks removed for good by hand are
+ * remembered so the next sync doesn't bring their remote copy back.
+ */
+
+import { differenceInCalendarDays, subDays } from 'date-fns'
+
+import type { Task } from '@/types/task'
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Retention periods offered in the trash
+ */
+export const TRASH_RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 7, label: '1 week' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '3 months' },
+  { value: 365, label: '1 year' }
+]
+
+/**
+ * localStorage key for the retention period
+ */
+const TRASH_RETENTION_KEY = 'sparetime-trash-retention-days'
+
+/**
+ * localStorage key for tasks deleted forever (task ID -> when)
+ */
+const PURGED_TASKS_KEY = 'sparetime-purged-tasks'
+
+/**
+ * Read the retention period chosen on this device
+ */
+export function getTrashRetentionDays(): number {
+  const saved = Number(localStorage.getItem(TRASH_RETENTION_KEY))
+  return TRASH_RETENTION_OPTIONS.some((o) => o.value === saved) ? saved : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Save the retention period on this device
+ */
+export function setTrashRetentionDays(days: number): void {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days))
+}
+
+/**
+ * Get the moment before which deleted tasks are removed for good
+ *
+ * @param retentionDays - Retention period in days
+ * @param now - Current moment
+ * @returns ISO date string
+ */
+export function getTrashCutoff(retentionDays: number, now: Date = new Date()): string {
+  return subDays(now, retentionDays).toISOString()
+}
+
+/**
+ * Check whether a deleted task has been in the trash longer than the retention period
+ */
+export function isPastRetention(task: Task, retentionDays: number, now: Date = new Date()): boolean {
+  return !!task.deletedAt && new Date(task.deletedAt) < new Date(getTrashCutoff(retentionDays, now))
+}
+
+/**
+ * Days until a deleted task is removed for good (0 on the last day)
+ */
+export function getDaysLeftInTrash(task: Task, retentionDays: number, now: Date = new Date()): number {
+  if (!task.deletedAt) return retentionDays
+  const elapsed = differenceInCalendarDays(now, new Date(task.deletedAt))
+  return Math.max(0, retentionDays - elapsed)
+}
+
+/**
+ * Read the tasks deleted forever on this device
+ */
+function readPurgedTasks(): Record<string, string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PURGED_TASKS_KEY) ?? '{}') as unknown
+    return saved && typeof saved === 'object' ? (saved as Record<string, string>) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * IDs of tasks deleted forever on this device
+ */
+export function getPurgedTaskIds(): Set<string> {
+  return new Set(Object.keys(readPurgedTasks()))
+}
+
+/**
+ * Remember tasks deleted forever
+ * Entries older than the retention period are dropped: by then every
+ * device has removed its copy of the task as well.
+ *
+ * @param ids - Task IDs deleted forever
+ * @param now - Current moment
+ */
+export function addPurgedTaskIds(ids: string[], now: Date = new Date()): void {
+  const cutoff = getTrashCutoff(getTrashRetentionDays(), now)
+  const purged = Object.fromEntries(
+    Object.entries(readPurgedTasks()).filter(([, purgedAt]) => purgedAt >= cutoff)
+  )
+  for (const id of ids) {
+    purged[id] = now.toISOString()
+  }
+  localStorage.setItem(PURGED_TASKS_KEY, JSON.stringify(purged))
+}
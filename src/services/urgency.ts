@@ -9,7 +9,7 @@ import type { Task } from '@/types/task'
  * Maximum days overdue for urgency normalization
  * Tasks more overdue than this are capped at 1.0 normalized urgency
  */
-const MAX_OVERDUE_DAYS = 14
+export const MAX_OVERDUE_DAYS = 14
 
 /**
  * Calculate the urgency value for a task
@@ -60,9 +60,10 @@ export function calculateUrgency(task: Task): number {
  * - Due today (0) returns 0.5 (moderate urgency)
  *
  * @param urgency - Raw urgency value in days
+ * @param maxOverdueDays - Days overdue at which urgency is capped (default: MAX_OVERDUE_DAYS)
  * @returns Normalized urgency between 0 and 1
  */
-export function normalizeUrgency(urgency: number): number {
+export function normalizeUrgency(urgency: number, maxOverdueDays = MAX_OVERDUE_DAYS): number {
   if (urgency < 0) {
     // Future tasks have no urgency contribution
     return 0
@@ -74,9 +75,9 @@ export function normalizeUrgency(urgency: number): number {
   }
 
   // Overdue tasks: scale from 0.5 to 1.0 based on days overdue
-  // Cap at MAX_OVERDUE_DAYS
-  const cappedOverdue = Math.min(urgency, MAX_OVERDUE_DAYS)
-  return 0.5 + (cappedOverdue / MAX_OVERDUE_DAYS) * 0.5
+  // Cap at maxOverdueDays
+  const cappedOverdue = Math.min(urgency, maxOverdueDays)
+  return 0.5 + (cappedOverdue / maxOverdueDays) * 0.5
 }
 
 /**
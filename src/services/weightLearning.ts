@@ -0,0 +1,177 @@
+/**
+ * Weight Learning - Fit scoring weights from suggestion outcomes
+ * Runs entirely on-device using the stored suggestion sessions.
+ *
+ * Each suggestion acted on becomes one training sample: its normalized
+ * factors, labelled 1 if it was completed and 0 if it was dismissed or
+ * postponed. When a suggestion was acted on more than once in a session
+ * (skipped, then done after all), its last action counts. A small logistic
+ * regression is fitted on those samples and each coefficient is mapped
+ * onto a weight around the equal-weighting baseline of 1.
+ */
+
+import type {
+  ScoringFactors,
+  ScoringProfile,
+  ScoringWeights,
+  SuggestionAction,
+  SuggestionSession
+} from '@/types/suggestion'
+import { DEFAULT_SCORING_WEIGHTS, getNormalizedFactorValues } from './scoring'
+import { ScoringProfileValidation } from '@/utils/validation'
+
+/**
+ * Minimum number of labelled outcomes before weights are learned
+ */
+export const MIN_LEARNING_SAMPLES = 10
+
+/**
+ * Gradient descent settings
+ */
+const LEARNING_RATE = 0.5
+const ITERATIONS = 500
+const L2_PENALTY = 0.01
+
+/**
+ * A single training sample extracted from a session
+ */
+export interface LearningSample {
+  /** Normalized factor values (null when the factor did not apply) */
+  values: Record<keyof ScoringFactors, number | null>
+  /** 1 = completed, 0 = dismissed or postponed */
+  label: 0 | 1
+}
+
+/**
+ * Result of fitting weights
+ */
+export interface LearnedWeightsResult {
+  weights: ScoringWeights
+  sampleCount: number
+}
+
+/**
+ * Extract training samples from suggestion sessions
+ * Suggestions without an action, or saved before factors were recorded, are skipped
+ *
+ * @param sessions - Stored suggestion sessions
+ * @param profile - Profile whose horizons are used to normalize urgency
+ * @returns Labelled samples
+ */
+export function extractLearningSamples(
+  sessions: SuggestionSession[],
+  profile: ScoringProfile
+): LearningSample[] {
+  const samples: LearningSample[] = []
+
+  for (const session of sessions) {
+    // Sessions saved with only their latest action still count that one
+    const actions = session.actions ?? (session.actionTaken ? [session.actionTaken] : [])
+
+    // Last action per suggested task
+    const outcomes = new Map<string, SuggestionAction['type']>()
+    for (const action of actions) {
+      if (action.taskId) outcomes.set(action.taskId, action.type)
+    }
+
+    for (const [taskId, type] of outcomes) {
+      const suggestion = session.suggestions.find((s) => s.taskId === taskId)
+      if (!suggestion?.factors) continue
+
+      samples.push({
+        values: getNormalizedFactorValues(suggestion.factors, profile),
+        label: type === 'completed' ? 1 : 0
+      })
+    }
+  }
+
+  return samples
+}
+
+/**
+ * Learn per-factor weights from suggestion sessions
+ *
+ * @param sessions - Stored suggestion sessions
+ * @param profile - Current scoring profile
+ * @returns Learned weights, or null if there is not enough data yet
+ */
+export function learnScoringWeights(
+  sessions: SuggestionSession[],
+  profile: ScoringProfile
+): LearnedWeightsResult | null {
+  const samples = extractLearningSamples(sessions, profile)
+
+  // Need enough samples, and both outcomes, to say anything useful
+  const positives = samples.filter((s) => s.label === 1).length
+  if (samples.length < MIN_LEARNING_SAMPLES || positives === 0 || positives === samples.length) {
+    return null
+  }
+
+  const keys = Object.keys(DEFAULT_SCORING_WEIGHTS) as Array<keyof ScoringFactors>
+  const coefficients = fitLogisticRegression(samples, keys)
+
+  const weights = { ...DEFAULT_SCORING_WEIGHTS }
+  for (const key of keys) {
+    const weight = DEFAULT_SCORING_WEIGHTS[key] + coefficients[key]
+    weights[key] = roundWeight(
+      Math.max(ScoringProfileValidation.weight.min, Math.min(ScoringProfileValidation.weight.max, weight))
+    )
+  }
+
+  // Every factor negatively associated with completing - nothing usable to rank by
+  if (keys.every((key) => weights[key] === 0)) {
+    return null
+  }
+
+  return { weights, sampleCount: samples.length }
+}
+
+/**
+ * Fit logistic regression coefficients with batch gradient descent
+ * Factors that did not apply to a sample contribute nothing to it
+ */
+function fitLogisticRegression(
+  samples: LearningSample[],
+  keys: Array<keyof ScoringFactors>
+): Record<keyof ScoringFactors, number> {
+  const coefficients = Object.fromEntries(keys.map((k) => [k, 0])) as Record<keyof ScoringFactors, number>
+  let bias = 0
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradients = Object.fromEntries(keys.map((k) => [k, 0])) as Record<keyof ScoringFactors, number>
+    let biasGradient = 0
+
+    for (const sample of samples) {
+      let z = bias
+      for (const key of keys) {
+        z += coefficients[key] * (sample.values[key] ?? 0)
+      }
+      const error = sigmoid(z) - sample.label
+
+      biasGradient += error
+      for (const key of keys) {
+        gradients[key] += error * (sample.values[key] ?? 0)
+      }
+    }
+
+    bias -= (LEARNING_RATE * biasGradient) / samples.length
+    for (const key of keys) {
+      const gradient = gradients[key] / samples.length + L2_PENALTY * coefficients[key]
+      coefficients[key] -= LEARNING_RATE * gradient
+    }
+  }
+
+  return coefficients
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+/**
+ * Round to the step of the weight sliders in settings
+ */
+function roundWeight(weight: number): number {
+  const { step } = ScoringProfileValidation.weight
+  return Math.round(weight / step) * step
+}
@@ -5,3 +5,4 @@
 export { useTaskStore } from './taskStore'
 export { useSuggestionStore } from './suggestionStore'
 export { useSyncStore } from './syncStore'
+export { usePlaceStore } from './placeStore'
@@ -0,0 +1,223 @@
+/**
+ * Place Store - Pinia state management for named places
+ * Places live in IndexedDB; tasks reference them by placeId
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { db } from '@/db/database'
+import type { Place, CreatePlaceInput, UpdatePlaceInput, Coordinates } from '@/types/place'
+import { validatePlace } from '@/utils/validation'
+import { nowISO } from '@/utils/dateHelpers'
+import { generateUUID } from '@/utils/crypto'
+import { findNearestPlace } from '@/services/places'
+import { useSyncStore } from '@/stores/syncStore'
+import { useTaskStore } from '@/stores/taskStore'
+
+/**
+ * Place store for managing named places
+ */
+export const usePlaceStore = defineStore('place', () => {
+  // State
+  const places = ref<Place[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Getters - filter out soft-deleted places
+  const activePlaces = computed(() =>
+    places.value
+      .filter((p) => !p.deletedAt)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  )
+
+  const placeById = computed(() => (id: string) => places.value.find((p) => p.id === id))
+
+  // Actions
+
+  /**
+   * Load all places from IndexedDB
+   */
+  async function loadPlaces(): Promise<void> {
+    loading.value = true
+    error.value = null
+
+    try {
+      places.value = await db.places.toArray()
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load places'
+      console.error('Failed to load places:', e)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Schedule a backup after a place changed
+   * Places are uploaded with every sync, so no pending change is queued
+   */
+  function scheduleSync(): void {
+    const syncStore = useSyncStore()
+    if (syncStore.isBackupEnabled) {
+      syncStore.scheduleDebouncedSync()
+    }
+  }
+
+  /**
+   * Create a new place
+   *
+   * @param input - Place name and optional coordinates
+   * @returns Created place or undefined if validation fails
+   */
+  async function createPlace(input: CreatePlaceInput): Promise<Place | undefined> {
+    error.value = null
+
+    try {
+      const validation = validatePlace(input)
+      if (!validation.valid) {
+        error.value = validation.errors.join(', ')
+        return undefined
+      }
+
+      const now = nowISO()
+      const place: Place = {
+        id: generateUUID(),
+        name: input.name.trim(),
+        createdAt: now,
+        updatedAt: now
+      }
+      if (input.latitude !== undefined && input.longitude !== undefined) {
+        place.latitude = input.latitude
+        place.longitude = input.longitude
+      }
+      if (input.radiusMeters !== undefined) {
+        place.radiusMeters = input.radiusMeters
+      }
+
+      await db.places.add(place)
+      places.value.push(place)
+      scheduleSync()
+
+      return place
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to create place'
+      console.error('Failed to create place:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Update a place
+   *
+   * @param input - Place id and changed fields (null removes coordinates or radius)
+   * @returns Updated place or undefined if not found/validation fails
+   */
+  async function updatePlace(input: UpdatePlaceInput): Promise<Place | undefined> {
+    error.value = null
+
+    try {
+      const index = places.value.findIndex((p) => p.id === input.id)
+      if (index === -1) {
+        error.value = 'Place not found'
+        return undefined
+      }
+
+      const existing = places.value[index]!
+      const resolve = <T>(value: T | null | undefined, current: T | undefined) =>
+        value === undefined ? current : (value ?? undefined)
+
+      const updated: Place = {
+        ...existing,
+        name: input.name !== undefined ? input.name.trim() : existing.name,
+        latitude: resolve(input.latitude, existing.latitude),
+        longitude: resolve(input.longitude, existing.longitude),
+        radiusMeters: resolve(input.radiusMeters, existing.radiusMeters),
+        updatedAt: nowISO()
+      }
+
+      const validation = validatePlace(updated)
+      if (!validation.valid) {
+        error.value = validation.errors.join(', ')
+        return undefined
+      }
+
+      // put instead of update so removed coordinates are dropped from the record
+      const record = { ...updated }
+      if (record.latitude === undefined) delete record.latitude
+      if (record.longitude === undefined) delete record.longitude
+      if (record.radiusMeters === undefined) delete record.radiusMeters
+      await db.places.put(record)
+      places.value[index] = record
+      scheduleSync()
+
+      return record
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to update place'
+      console.error('Failed to update place:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Delete a place (soft delete) and unlink it from its tasks
+   *
+   * @param id - Place ID to delete
+   * @returns true if deleted, false otherwise
+   */
+  async function removePlace(id: string): Promise<boolean> {
+    error.value = null
+
+    try {
+      const index = places.value.findIndex((p) => p.id === id)
+      if (index === -1) {
+        error.value = 'Place not found'
+        return false
+      }
+
+      const now = nowISO()
+      await db.places.update(id, { deletedAt: now, updatedAt: now })
+      places.value[index] = { ...places.value[index]!, deletedAt: now, updatedAt: now }
+
+      // Tasks tied to the place become doable anywhere again
+      const taskStore = useTaskStore()
+      const linkedTasks = taskStore.tasks.filter((t) => t.placeId === id && !t.deletedAt)
+      for (const task of linkedTasks) {
+        await taskStore.update({ id: task.id, placeId: null })
+      }
+
+      scheduleSync()
+      return true
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to delete place'
+      console.error('Failed to delete place:', e)
+      return false
+    }
+  }
+
+  /**
+   * Find the place the device is at
+   *
+   * @param position - Current device position
+   * @returns Nearest place within its radius, or null
+   */
+  function detectPlace(position: Coordinates): Place | null {
+    return findNearestPlace(activePlaces.value, position)
+  }
+
+  return {
+    // State
+    places,
+    loading,
+    error,
+
+    // Getters
+    activePlaces,
+    placeById,
+
+    // Actions
+    loadPlaces,
+    createPlace,
+    updatePlace,
+    removePlace,
+    detectPlace
+  }
+})
@@ -10,17 +10,41 @@ import type {
   SuggestionContext,
   SuggestionResult,
   TaskScore,
-  SuggestionSession
+  SuggestionSession,
+  SuggestionAction,
+  ScoringProfile
 } from '@/types/suggestion'
 import { useTaskStore } from './taskStore'
 import { nowISO } from '@/utils/dateHelpers'
-import { scoreAndRankTasks } from '@/services/scoring'
+import { isAvailableAt } from '@/utils/availability'
+import { scoreAndRankTasks, DEFAULT_SCORING_PROFILE, DEFAULT_SCORING_WEIGHTS } from '@/services/scoring'
+import { learnScoringWeights } from '@/services/weightLearning'
+import { getEffectiveTimeEstimate } from '@/services/subtasks'
+import { isSnoozed } from '@/services/snooze'
+import { validateScoringProfile } from '@/utils/validation'
 
 /**
  * Maximum number of suggestions to return
  */
 const MAX_SUGGESTIONS = 5
 
+/**
+ * Default number of sessions loaded for the history view
+ */
+const DEFAULT_HISTORY_LIMIT = 50
+
+/**
+ * Create a plain copy of a scoring profile (safe to store in IndexedDB)
+ */
+function cloneProfile(profile: ScoringProfile): ScoringProfile {
+  const raw = toRaw(profile)
+  return {
+    ...raw,
+    weights: { ...toRaw(raw.weights) },
+    learnedWeights: raw.learnedWeights ? { ...toRaw(raw.learnedWeights) } : undefined
+  }
+}
+
 /**
  * Suggestion store for managing suggestion state and generation
  */
@@ -31,12 +55,27 @@ export const useSuggestionStore = defineStore('suggestion', () => {
   const loading = ref(false)
   const error = ref<string | null>(null)
   const message = ref<string | null>(null)
+  const sessionHistory = ref<SuggestionSession[]>([])
+  const historyLoading = ref(false)
+  const scoringProfile = ref<ScoringProfile>(cloneProfile(DEFAULT_SCORING_PROFILE))
+  const scoringProfileLoaded = ref(false)
+  /** Current suggestions whose last prerequisite was completed since the previous run */
+  const justUnblockedTaskIds = ref<string[]>([])
 
   // Getters
   const hasSuggestions = computed(() => currentSuggestions.value.length > 0)
 
   const suggestionCount = computed(() => currentSuggestions.value.length)
 
+  /** Profile actually used for ranking (learned weights when adaptive mode is on) */
+  const effectiveScoringProfile = computed<ScoringProfile>(() => {
+    const profile = scoringProfile.value
+    if (profile.adaptive && profile.learnedWeights) {
+      return { ...profile, weights: profile.learnedWeights }
+    }
+    return profile
+  })
+
   // Actions
 
   /**
@@ -54,11 +93,20 @@ export const useSuggestionStore = defineStore('suggestion', () => {
     try {
       const taskStore = useTaskStore()
 
+      // Ensure the user's scoring weights are applied
+      if (!scoringProfileLoaded.value) {
+        await loadScoringProfile()
+      }
+
       // Ensure tasks are loaded
       if (taskStore.tasks.length === 0) {
         await taskStore.loadTasks()
       }
 
+      // Tasks unblocked since the previous run are flagged once, in this run
+      const unblockedIds = taskStore.consumeJustUnblocked()
+      justUnblockedTaskIds.value = []
+
       const activeTasks = taskStore.activeTasks
       const totalActiveCount = activeTasks.length
 
@@ -75,13 +123,11 @@ export const useSuggestionStore = defineStore('suggestion', () => {
       }
 
       // Filter tasks that fit in available time
-      // For project tasks, use minimum session duration instead of total time estimate
-      let filteredTasks = activeTasks.filter((task) => {
-        const effectiveTime = task.type === 'project' && task.projectSession
-          ? task.projectSession.minSessionDurationMinutes
-          : task.timeEstimateMinutes
-        return effectiveTime <= context.availableTimeMinutes
-      })
+      // For project tasks, use the next checklist step or minimum session duration
+      let filteredTasks = activeTasks.filter(
+        (task) =>
+          getEffectiveTimeEstimate(task, context.availableTimeMinutes) <= context.availableTimeMinutes
+      )
 
       // Apply context filters if provided
       if (context.contextFilters) {
@@ -101,14 +147,26 @@ export const useSuggestionStore = defineStore('suggestion', () => {
               task.location === context.contextFilters!.location || task.location === 'anywhere'
           )
         }
+        if (context.contextFilters.placeId) {
+          // Tasks without a place can be done at any place
+          filteredTasks = filteredTasks.filter(
+            (task) => !task.placeId || task.placeId === context.contextFilters!.placeId
+          )
+        }
       }
 
-      // Exclude tasks with incomplete dependencies
+      // Exclude tasks until all of their prerequisites are completed
       filteredTasks = filteredTasks.filter((task) => {
-        if (!task.dependsOnId) return true
+        if (!task.dependsOnIds?.length) return true
         return !taskStore.hasIncompleteDependencies(task.id!)
       })
 
+      // Exclude tasks outside their availability window or still snoozed right now
+      const now = new Date()
+      filteredTasks = filteredTasks.filter(
+        (task) => isAvailableAt(task.availability, now) && !isSnoozed(task, now)
+      )
+
       const filteredCount = filteredTasks.length
 
       if (filteredCount === 0) {
@@ -124,7 +182,7 @@ export const useSuggestionStore = defineStore('suggestion', () => {
       }
 
       // Score and rank tasks using the scoring service
-      const scoredTasks = scoreAndRankTasks(filteredTasks, context)
+      const scoredTasks = scoreAndRankTasks(filteredTasks, context, effectiveScoringProfile.value)
 
       // Take top suggestions
       const suggestions = scoredTasks.slice(0, MAX_SUGGESTIONS)
@@ -133,6 +191,9 @@ export const useSuggestionStore = defineStore('suggestion', () => {
       await saveSession(context, suggestions)
 
       currentSuggestions.value = suggestions
+      justUnblockedTaskIds.value = suggestions
+        .map((s) => s.taskId)
+        .filter((id) => unblockedIds.includes(id))
 
       const result: SuggestionResult = {
         suggestions,
@@ -167,7 +228,8 @@ export const useSuggestionStore = defineStore('suggestion', () => {
         taskId: s.taskId,
         score: s.score,
         urgency: s.urgency,
-        reason: s.reason
+        reason: s.reason,
+        factors: { ...toRaw(s.factors) }
       }))
     }
 
@@ -185,13 +247,198 @@ export const useSuggestionStore = defineStore('suggestion', () => {
 
   /**
    * Record action taken on a suggestion
+   * Dismissals and postponements are persisted on the task so that
+   * chronically skipped tasks gain weight in future suggestions.
+   * The action is also stored on the most recent session if it suggested the task:
+   * it becomes the session's actionTaken and is added to its earlier actions.
    */
   async function recordAction(
-    _taskId: string,
-    _action: 'completed' | 'dismissed' | 'postponed'
+    taskId: string,
+    action: 'completed' | 'dismissed' | 'postponed'
   ): Promise<void> {
-    // This would update the most recent session with the action taken
-    // Implementation for tracking user behavior
+    if (action === 'dismissed' || action === 'postponed') {
+      const taskStore = useTaskStore()
+      await taskStore.recordPostponement(taskId)
+    }
+
+    try {
+      const session = await db.suggestionSessions.orderBy('timestamp').last()
+      if (!session?.id || !session.suggestions.some((s) => s.taskId === taskId)) {
+        return
+      }
+
+      const actionTaken: SuggestionAction = {
+        type: action,
+        taskId,
+        timestamp: nowISO()
+      }
+      const actions = [...(session.actions ?? []), actionTaken]
+
+      await db.suggestionSessions.update(session.id, { actionTaken, actions })
+
+      const cached = sessionHistory.value.find((s) => s.id === session.id)
+      if (cached) {
+        cached.actionTaken = actionTaken
+        cached.actions = actions
+      }
+    } catch (e) {
+      console.error('Failed to record suggestion action:', e)
+      return
+    }
+
+    // Each recorded outcome is a new training sample for adaptive scoring
+    if (scoringProfile.value.adaptive) {
+      await relearnScoringWeights()
+    }
+  }
+
+  /**
+   * Load past suggestion sessions, most recent first
+   *
+   * @param limit - Maximum number of sessions to load
+   */
+  async function loadSessionHistory(limit = DEFAULT_HISTORY_LIMIT): Promise<void> {
+    historyLoading.value = true
+    error.value = null
+
+    try {
+      sessionHistory.value = await db.suggestionSessions
+        .orderBy('timestamp')
+        .reverse()
+        .limit(limit)
+        .toArray()
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load suggestion history'
+      console.error('Failed to load suggestion history:', e)
+    } finally {
+      historyLoading.value = false
+    }
+  }
+
+  /**
+   * Load the scoring profile from IndexedDB
+   * Falls back to equal weighting when no profile has been saved yet
+   */
+  async function loadScoringProfile(): Promise<void> {
+    try {
+      const stored = await db.scoringProfile.get(1)
+      scoringProfile.value = stored
+        ? {
+            ...DEFAULT_SCORING_PROFILE,
+            ...stored,
+            // Fill in weights for factors added after the profile was saved
+            weights: { ...DEFAULT_SCORING_WEIGHTS, ...stored.weights }
+          }
+        : cloneProfile(DEFAULT_SCORING_PROFILE)
+    } catch (e) {
+      console.error('Failed to load scoring profile:', e)
+      scoringProfile.value = cloneProfile(DEFAULT_SCORING_PROFILE)
+    } finally {
+      scoringProfileLoaded.value = true
+    }
+  }
+
+  /**
+   * Save a scoring profile to IndexedDB
+   *
+   * @param profile - Profile with the new weights and horizons
+   * @returns true if saved, false if validation failed
+   */
+  async function saveScoringProfile(profile: Omit<ScoringProfile, 'id'>): Promise<boolean> {
+    error.value = null
+
+    const updated: ScoringProfile = { ...profile, id: 1 }
+
+    const validation = validateScoringProfile(updated)
+    if (!validation.valid) {
+      error.value = validation.errors.join(', ')
+      return false
+    }
+
+    await persistScoringProfile(updated)
+    return true
+  }
+
+  /**
+   * Reset the scoring profile to equal weighting
+   */
+  async function resetScoringProfile(): Promise<void> {
+    await db.scoringProfile.delete(1)
+    scoringProfile.value = cloneProfile(DEFAULT_SCORING_PROFILE)
+    scoringProfileLoaded.value = true
+  }
+
+  /**
+   * Persist the current scoring profile without re-validating manual weights
+   */
+  async function persistScoringProfile(profile: ScoringProfile): Promise<void> {
+    const updated = { ...cloneProfile(profile), updatedAt: nowISO() }
+    await db.scoringProfile.put(updated)
+    scoringProfile.value = updated
+    scoringProfileLoaded.value = true
+  }
+
+  /**
+   * Fit weights from recorded suggestion outcomes and store them on the profile
+   * Keeps the previous learned weights when there is not enough data yet
+   *
+   * @returns true if new weights were learned
+   */
+  async function relearnScoringWeights(): Promise<boolean> {
+    try {
+      if (!scoringProfileLoaded.value) {
+        await loadScoringProfile()
+      }
+
+      const sessions = await db.suggestionSessions.toArray()
+      const result = learnScoringWeights(sessions, scoringProfile.value)
+      if (!result) {
+        return false
+      }
+
+      await persistScoringProfile({
+        ...scoringProfile.value,
+        learnedWeights: result.weights,
+        learnedFromSamples: result.sampleCount,
+        learnedAt: nowISO()
+      })
+      return true
+    } catch (e) {
+      console.error('Failed to learn scoring weights:', e)
+      return false
+    }
+  }
+
+  /**
+   * Turn adaptive (learned) scoring on or off
+   * Enabling it immediately fits weights from existing sessions
+   */
+  async function setAdaptiveScoring(enabled: boolean): Promise<void> {
+    if (!scoringProfileLoaded.value) {
+      await loadScoringProfile()
+    }
+
+    await persistScoringProfile({ ...scoringProfile.value, adaptive: enabled })
+
+    if (enabled) {
+      await relearnScoringWeights()
+    }
+  }
+
+  /**
+   * Forget learned weights (manual weights are kept)
+   */
+  async function resetLearnedWeights(): Promise<void> {
+    if (!scoringProfileLoaded.value) {
+      await loadScoringProfile()
+    }
+
+    await persistScoringProfile({
+      ...scoringProfile.value,
+      learnedWeights: undefined,
+      learnedFromSamples: undefined,
+      learnedAt: undefined
+    })
   }
 
   return {
@@ -201,14 +448,26 @@ export const useSuggestionStore = defineStore('suggestion', () => {
     loading,
     error,
     message,
+    sessionHistory,
+    historyLoading,
+    justUnblockedTaskIds,
+    scoringProfile,
 
     // Getters
     hasSuggestions,
     suggestionCount,
+    effectiveScoringProfile,
 
     // Actions
     generateSuggestions,
     clearSuggestions,
-    recordAction
+    recordAction,
+    loadSessionHistory,
+    loadScoringProfile,
+    saveScoringProfile,
+    resetScoringProfile,
+    relearnScoringWeights,
+    setAdaptiveScoring,
+    resetLearnedWeights
   }
 })
@@ -6,12 +6,18 @@
 import { defineStore } from 'pinia'
 import { ref, computed, toRaw } from 'vue'
 import { db } from '@/db/database'
-import type { SyncState, PendingChange, SyncConflict, GoogleDriveBackup } from '@/types/sync'
-import type { Task } from '@/types/task'
+import type { SyncState, PendingChange, PendingChangeInput, SyncConflict, GoogleDriveBackup } from '@/types/sync'
+import type { Task, TaskField } from '@/types/task'
 import { nowISO } from '@/utils/dateHelpers'
+import { clockFromTimestamp, compareClocks, getTaskClock } from '@/utils/hlc'
 import { generateChecksum as cryptoGenerateChecksum } from '@/utils/crypto'
-import { CURRENT_SCHEMA_VERSION } from '@/db/schema'
+import { CURRENT_SCHEMA_VERSION, migrateDependsOnId } from '@/db/schema'
 import { getBackupLastModified, downloadBackup, uploadBackup, createBackupPayload } from '@/services/googleDrive'
+import { isPlaceCoordinateSyncEnabled, mergePlaces, preparePlacesForSync } from '@/services/places'
+import { getPurgedTaskIds, getTrashRetentionDays, isPastRetention } from '@/services/trash'
+import { filterExportedTasks } from '@/services/archive'
+import { getConflictVersion, isSameTask, mergeTaskFields } from '@/services/taskMerge'
+import { observeClocks, tickClock } from '@/services/hlc'
 import type { TokenClient } from '@/services/googleDrive'
 
 /**
@@ -23,9 +29,12 @@ export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline' | '
  * Merge result for a single task
  */
 interface TaskMergeResult {
-  action: 'keep-local' | 'keep-remote' | 'conflict' | 'no-change'
+  action: 'keep-local' | 'keep-remote' | 'merged' | 'conflict' | 'no-change'
   task: Task
   remoteTask?: Task
+  /** Field-level merge of a conflict (conflicting fields hold local values) */
+  mergedTask?: Task
+  conflictingFields?: TaskField[]
 }
 
 /**
@@ -244,21 +253,73 @@ export const useSyncStore = defineStore('sync', () => {
     operation: 'create' | 'update' | 'delete',
     data?: Task
   ): Promise<void> {
+    await addPendingChanges([{ taskId, operation, data }])
+  }
+
+  /**
+   * Add several pending changes to the queue with a single write
+   * Used by bulk actions so a change-set is stored once instead of per task
+   */
+  async function addPendingChanges(changes: PendingChangeInput[]): Promise<void> {
+    if (changes.length === 0) return
+    if (!syncState.value) {
+      await initializeSyncState()
+    }
+
+    await savePendingChanges([...toRaw(syncState.value!.pendingChanges), ...toPendingChanges(changes)])
+  }
+
+  /**
+   * Replace the queued changes of tasks whose last operation was undone or redone
+   * Earlier entries for the tasks are dropped; a task whose creation hasn't been
+   * synced yet stays a 'create', and one removed again before syncing leaves nothing behind
+   */
+  async function replacePendingChanges(changes: PendingChangeInput[]): Promise<void> {
+    if (changes.length === 0) return
     if (!syncState.value) {
       await initializeSyncState()
     }
 
-    // Deep clone the data to avoid Vue proxy issues with IndexedDB
-    const clonedData = data ? JSON.parse(JSON.stringify(toRaw(data))) as Task : undefined
+    const taskIds = new Set(changes.map((c) => c.taskId))
+    const queued = toRaw(syncState.value!.pendingChanges)
+    const replacements = changes.flatMap((change): PendingChangeInput[] => {
+      if (!hasPendingCreate(change.taskId)) return [change]
+      // Never synced: keep it a creation, or forget it once it's removed again
+      return change.operation === 'delete' ? [] : [{ ...change, operation: 'create' }]
+    })
+
+    await savePendingChanges([
+      ...queued.filter((c) => !taskIds.has(c.taskId)),
+      ...toPendingChanges(replacements)
+    ])
+  }
 
-    const change: PendingChange = {
+  /**
+   * Check whether a task was created since the last sync (it doesn't exist remotely yet)
+   */
+  function hasPendingCreate(taskId: string): boolean {
+    return !!syncState.value?.pendingChanges.some((c) => c.taskId === taskId && c.operation === 'create')
+  }
+
+  /**
+   * Timestamp and deep clone queued changes
+   */
+  function toPendingChanges(changes: PendingChangeInput[]): PendingChange[] {
+    const timestamp = nowISO()
+    return changes.map(({ taskId, operation, data }) => ({
       taskId,
       operation,
-      timestamp: nowISO(),
-      data: clonedData
-    }
+      timestamp,
+      hlc: data?.hlc ?? tickClock(),
+      // Deep clone the data to avoid Vue proxy issues with IndexedDB
+      data: data ? JSON.parse(JSON.stringify(toRaw(data))) as Task : undefined
+    }))
+  }
 
-    const pendingChanges = [...toRaw(syncState.value!.pendingChanges), change]
+  /**
+   * Store the pending change queue
+   */
+  async function savePendingChanges(pendingChanges: PendingChange[]): Promise<void> {
     syncState.value!.pendingChanges = pendingChanges
 
     // Use put with full state to avoid update cloning issues
@@ -293,6 +354,16 @@ export const useSyncStore = defineStore('sync', () => {
     })
   }
 
+  /**
+   * Remember the tasks as of this sync as the base of the next field-level merge
+   */
+  async function saveSyncBases(tasks: Task[]): Promise<void> {
+    await db.transaction('rw', db.syncBases, async () => {
+      await db.syncBases.clear()
+      await db.syncBases.bulkPut(tasks)
+    })
+  }
+
   /**
    * Detect if there's a conflict between local and remote task
    */
@@ -354,33 +425,44 @@ export const useSyncStore = defineStore('sync', () => {
 
   /**
    * Resolve a conflict by choosing local or remote version
+   * A task put together field by field (see composeConflictResolution) is kept as given
    */
   async function resolveConflict(
     taskId: string,
-    resolution: 'local' | 'remote'
+    resolution: 'local' | 'remote' | Task
   ): Promise<Task | null> {
     if (!syncState.value) return null
 
     const conflict = syncState.value.conflicts.find((c) => c.taskId === taskId)
     if (!conflict) return null
 
-    // Remove conflict from list
-    const remainingConflicts = syncState.value.conflicts.filter(
+    // Remove conflict from list (raw, so the others can be stored again)
+    const remainingConflicts = toRaw(syncState.value.conflicts).filter(
       (c) => c.taskId !== taskId
     )
 
-    const resolvedTask = resolution === 'local' ? toRaw(conflict.localData) : toRaw(conflict.remoteData)
+    // Only the conflicting fields are settled; changes merged automatically are kept
+    const resolvedTask =
+      typeof resolution === 'string'
+        ? getConflictVersion(toRaw(conflict), resolution)
+        : { ...toRaw(resolution), id: taskId }
 
-    // Update the resolved task with current timestamp to ensure it's "newer" than remote
+    // Stamp the resolved task with a new clock to ensure it's "newer" than remote
     const now = nowISO()
     // Deep clone to avoid DataCloneError with nested Vue proxies (e.g., unknown dependencies)
     const taskWithUpdatedTimestamp = JSON.parse(JSON.stringify({
       ...resolvedTask,
-      updatedAt: now
+      updatedAt: now,
+      hlc: tickClock()
     }))
 
-    // Always update local task with the resolved version and new timestamp
-    await db.tasks.put(taskWithUpdatedTimestamp)
+    // Always update local task with the resolved version and new timestamp.
+    // The remote copy it was resolved against becomes the base, so the next
+    // sync sees only the local side changed instead of the same conflict again
+    await db.transaction('rw', db.tasks, db.syncBases, async () => {
+      await db.tasks.put(taskWithUpdatedTimestamp)
+      await db.syncBases.put(JSON.parse(JSON.stringify(toRaw(conflict.remoteData))))
+    })
 
     syncState.value.conflicts = remainingConflicts
 
@@ -413,6 +495,20 @@ export const useSyncStore = defineStore('sync', () => {
     return taskWithUpdatedTimestamp
   }
 
+  /**
+   * Resolve every conflict with the same side
+   *
+   * @returns Number of conflicts resolved
+   */
+  async function resolveAllConflicts(resolution: 'local' | 'remote'): Promise<number> {
+    const taskIds = (syncState.value?.conflicts ?? []).map((c) => c.taskId)
+    let resolved = 0
+    for (const taskId of taskIds) {
+      if (await resolveConflict(taskId, resolution)) resolved++
+    }
+    return resolved
+  }
+
   /**
    * Generate SHA-256 checksum for data integrity
    */
@@ -421,10 +517,13 @@ export const useSyncStore = defineStore('sync', () => {
   }
 
   /**
-   * Export all tasks to backup format
+   * Export all tasks and places to backup format
+   *
+   * @param options.includeArchived - Keep archived tasks (default true, as backups need them)
    */
-  async function exportToBackup(): Promise<GoogleDriveBackup> {
-    const tasks = await db.tasks.toArray()
+  async function exportToBackup({ includeArchived = true } = {}): Promise<GoogleDriveBackup> {
+    const [allTasks, places] = await Promise.all([db.tasks.toArray(), db.places.toArray()])
+    const tasks = filterExportedTasks(allTasks, includeArchived)
 
     // Generate checksum
     const checksum = await generateChecksum(tasks)
@@ -433,6 +532,7 @@ export const useSyncStore = defineStore('sync', () => {
       version: CURRENT_SCHEMA_VERSION,
       exportTimestamp: nowISO(),
       tasks,
+      places: preparePlacesForSync(places, isPlaceCoordinateSyncEnabled()),
       checksum
     }
   }
@@ -448,10 +548,18 @@ export const useSyncStore = defineStore('sync', () => {
       throw new Error('Backup integrity check failed: invalid checksum')
     }
 
-    // Clear existing tasks and import
-    await db.transaction('rw', db.tasks, async () => {
+    // Backups from older versions may still use a single dependsOnId
+    backup.tasks.forEach(migrateDependsOnId)
+    observeClocks(backup.tasks.map(getTaskClock))
+
+    // Clear existing tasks and import (places keep local coordinates the backup lacks)
+    await db.transaction('rw', db.tasks, db.places, async () => {
       await db.tasks.clear()
       await db.tasks.bulkAdd(backup.tasks)
+      if (backup.places) {
+        const places = mergePlaces(await db.places.toArray(), backup.places)
+        await db.places.bulkPut(places)
+      }
     })
 
     // Update last sync time
@@ -523,13 +631,31 @@ export const useSyncStore = defineStore('sync', () => {
   }
 
   /**
-   * Merge a single task based on timestamps
+   * Check whether a copy of a task changed since the last sync
+   * With a base the clocks tell for sure; otherwise the clock is compared with
+   * the time of the last sync, which is only as good as the device clocks.
+   */
+  function isChangedSinceSync(task: Task, lastSyncedAt: string, baseTask?: Task): boolean {
+    if (baseTask) {
+      return getTaskClock(task) !== getTaskClock(baseTask)
+    }
+    return compareClocks(getTaskClock(task), clockFromTimestamp(lastSyncedAt)) > 0
+  }
+
+  /**
+   * Merge a single task based on hybrid logical clocks
    * Per sync-redesign-plan.md merge logic
+   * Copies are ordered by their clocks rather than updatedAt, so a device
+   * with a skewed clock can't win or lose edits by it. When both copies
+   * changed since the last sync, they are merged field by field against the
+   * base; only fields changed differently on both devices are a conflict.
+   * Without a base the whole task is a conflict.
    */
   function mergeTask(
     localTask: Task | undefined,
     remoteTask: Task | undefined,
-    lastSyncedAt: string | null
+    lastSyncedAt: string | null,
+    baseTask?: Task
   ): TaskMergeResult {
     // Local only - new local task to upload
     if (localTask && !remoteTask) {
@@ -541,30 +667,49 @@ export const useSyncStore = defineStore('sync', () => {
       return { action: 'keep-remote', task: remoteTask }
     }
 
-    // Both exist - compare timestamps
+    // Both exist - compare clocks
     if (localTask && remoteTask) {
-      const localUpdated = new Date(localTask.updatedAt)
-      const remoteUpdated = new Date(remoteTask.updatedAt)
-      const lastSync = lastSyncedAt ? new Date(lastSyncedAt) : null
+      const order = compareClocks(getTaskClock(localTask), getTaskClock(remoteTask))
 
-      // Same timestamp - no change needed
-      if (localTask.updatedAt === remoteTask.updatedAt) {
+      // Same clock - same change, no change needed
+      if (order === 0) {
         return { action: 'no-change', task: localTask }
       }
 
       // Check for conflict: both modified since last sync
-      if (lastSync) {
-        const localModifiedAfterSync = localUpdated > lastSync
-        const remoteModifiedAfterSync = remoteUpdated > lastSync
+      if (lastSyncedAt) {
+        const localModifiedAfterSync = isChangedSinceSync(localTask, lastSyncedAt, baseTask)
+        const remoteModifiedAfterSync = isChangedSinceSync(remoteTask, lastSyncedAt, baseTask)
 
         if (localModifiedAfterSync && remoteModifiedAfterSync) {
-          // Both were modified - conflict!
-          return { action: 'conflict', task: localTask, remoteTask }
+          if (!baseTask) {
+            return { action: 'conflict', task: localTask, remoteTask }
+          }
+
+          const { merged, conflictingFields } = mergeTaskFields(baseTask, localTask, remoteTask)
+          if (conflictingFields.length > 0) {
+            return { action: 'conflict', task: localTask, remoteTask, mergedTask: merged, conflictingFields }
+          }
+          if (isSameTask(merged, localTask)) {
+            return { action: 'keep-local', task: localTask }
+          }
+          if (isSameTask(merged, remoteTask)) {
+            return { action: 'keep-remote', task: remoteTask }
+          }
+          // Newer than both copies, so every device takes the merged task
+          return { action: 'merged', task: { ...merged, updatedAt: nowISO(), hlc: tickClock() } }
+        }
+
+        // Only one copy changed since the base: keep that change whatever the clocks say
+        if (baseTask && localModifiedAfterSync !== remoteModifiedAfterSync) {
+          return localModifiedAfterSync
+            ? { action: 'keep-local', task: localTask }
+            : { action: 'keep-remote', task: remoteTask }
         }
       }
 
-      // No conflict - use the newer version
-      if (localUpdated > remoteUpdated) {
+      // No conflict - use the later change
+      if (order > 0) {
         return { action: 'keep-local', task: localTask }
       } else {
         return { action: 'keep-remote', task: remoteTask }
@@ -600,12 +745,33 @@ export const useSyncStore = defineStore('sync', () => {
       // 2. Download remote backup
       const remoteBackup = await downloadBackup(token)
       const remoteTaskMap = new Map<string, Task>()
+      // Deleted copies of tasks removed for good here, kept in the backup only
+      const purgedTombstones: Task[] = []
       if (remoteBackup) {
+        const purgedIds = getPurgedTaskIds()
+        const retentionDays = getTrashRetentionDays()
         for (const task of remoteBackup.tasks) {
+          if (task.deletedAt && !localTaskMap.has(task.id)) {
+            // Past the retention period every device has removed it: drop it from the backup
+            if (isPastRetention(task, retentionDays)) continue
+            // Deleted forever here: don't download it, but keep telling other devices it's deleted
+            if (purgedIds.has(task.id)) {
+              purgedTombstones.push(task)
+              continue
+            }
+          }
+          // Devices on an older version may still upload a single dependsOnId
+          migrateDependsOnId(task)
           remoteTaskMap.set(task.id, task)
         }
       }
 
+      // Later changes made here must order after everything downloaded
+      observeClocks([...remoteTaskMap.values()].map(getTaskClock))
+
+      // Tasks as of the last sync, the base of field-level merges
+      const baseTaskMap = new Map((await db.syncBases.toArray()).map((t) => [t.id, t]))
+
       // 3. Collect all unique task IDs
       const allTaskIds = new Set<string>([...localTaskMap.keys(), ...remoteTaskMap.keys()])
 
@@ -619,7 +785,7 @@ export const useSyncStore = defineStore('sync', () => {
         const localTask = localTaskMap.get(taskId)
         const remoteTask = remoteTaskMap.get(taskId)
 
-        const result = mergeTask(localTask, remoteTask, lastSyncTime.value)
+        const result = mergeTask(localTask, remoteTask, lastSyncTime.value, baseTaskMap.get(taskId))
 
         switch (result.action) {
           case 'keep-local':
@@ -634,6 +800,12 @@ export const useSyncStore = defineStore('sync', () => {
             await db.tasks.put(result.task)
             break
 
+          case 'merged':
+            mergedTasks.push(result.task)
+            tasksDownloaded++
+            await db.tasks.put(result.task)
+            break
+
           case 'conflict':
             // Add to conflicts list for user resolution
             if (result.remoteTask) {
@@ -641,7 +813,9 @@ export const useSyncStore = defineStore('sync', () => {
                 taskId,
                 localData: result.task,
                 remoteData: result.remoteTask,
-                detectedAt: nowISO()
+                detectedAt: nowISO(),
+                mergedData: result.mergedTask,
+                conflictingFields: result.conflictingFields
               })
             }
             // Keep local version in merged for now
@@ -685,11 +859,17 @@ export const useSyncStore = defineStore('sync', () => {
         }
       }
 
-      // 6. Upload merged data to remote
-      const backupPayload = await createBackupPayload(mergedTasks)
+      // 6. Merge places (small list, newer updatedAt wins)
+      const localPlaces = await db.places.toArray()
+      const mergedPlaces = mergePlaces(localPlaces, remoteBackup?.places ?? [])
+      await db.places.bulkPut(mergedPlaces)
+
+      // 7. Upload merged data to remote
+      const backupPayload = await createBackupPayload([...mergedTasks, ...purgedTombstones], mergedPlaces)
       await uploadBackup(token, backupPayload)
 
-      // 7. Update sync state
+      // 8. Update sync state
+      await saveSyncBases(mergedTasks)
       await clearPendingChanges()
 
       console.log(`Sync complete: ${tasksUploaded} uploaded, ${tasksDownloaded} downloaded`)
@@ -850,10 +1030,16 @@ export const useSyncStore = defineStore('sync', () => {
           // Clear local and download remote
           const remoteBackup = await downloadBackup(token)
           if (remoteBackup) {
-            await db.transaction('rw', db.tasks, async () => {
+            observeClocks(remoteBackup.tasks.map(getTaskClock))
+            await db.transaction('rw', db.tasks, db.places, async () => {
               await db.tasks.clear()
               await db.tasks.bulkAdd(remoteBackup.tasks)
+              if (remoteBackup.places) {
+                const places = mergePlaces(await db.places.toArray(), remoteBackup.places)
+                await db.places.bulkPut(places)
+              }
             })
+            await saveSyncBases(remoteBackup.tasks)
           }
           await clearPendingChanges()
           return { success: true, tasksUploaded: 0, tasksDownloaded: remoteBackup?.tasks.length ?? 0, conflictsDetected: 0 }
@@ -862,8 +1048,10 @@ export const useSyncStore = defineStore('sync', () => {
         case 'use-local': {
           // Upload local to remote (overwrite)
           const localTasks = await db.tasks.toArray()
-          const backupPayload = await createBackupPayload(localTasks)
+          const localPlaces = await db.places.toArray()
+          const backupPayload = await createBackupPayload(localTasks, localPlaces)
           await uploadBackup(token, backupPayload)
+          await saveSyncBases(localTasks)
           await clearPendingChanges()
           return { success: true, tasksUploaded: localTasks.length, tasksDownloaded: 0, conflictsDetected: 0 }
         }
@@ -935,6 +1123,7 @@ export const useSyncStore = defineStore('sync', () => {
    */
   async function clearSyncState(): Promise<void> {
     await db.syncState.delete(1)
+    await db.syncBases.clear()
     syncState.value = null
     lastSyncTime.value = null
     remoteLastModified.value = null
@@ -971,10 +1160,14 @@ export const useSyncStore = defineStore('sync', () => {
     getAccessToken,
     clearAuth,
     addPendingChange,
+    addPendingChanges,
+    replacePendingChanges,
+    hasPendingCreate,
     clearPendingChanges,
     detectConflict,
     addConflict,
     resolveConflict,
+    resolveAllConflicts,
     generateChecksum,
     exportToBackup,
     importFromBackup,
@@ -4,25 +4,80 @@
  */
 
 import { defineStore } from 'pinia'
+import Dexie from 'dexie'
 import { ref, computed, toRaw } from 'vue'
 import { db } from '@/db/database'
-import type { Task, TaskStatus, TaskType, CreateTaskInput, UpdateTaskInput } from '@/types/task'
-import { validateTask, detectCircularDependency } from '@/utils/validation'
+import type {
+  Task,
+  TaskStatus,
+  TaskType,
+  CreateTaskInput,
+  UpdateTaskInput,
+  UnblockEvent,
+  Subtask,
+  CompletionRecord,
+  CompletionDetails,
+  BulkTaskChanges,
+  TaskSnapshot,
+  UndoEntry
+} from '@/types/task'
+import {
+  validateTask,
+  validateSubtasks,
+  validateCompletionDetails,
+  validateRecurrenceSchedule,
+  validateAvailability,
+  validateTags,
+  validateNotes,
+  detectCircularDependency,
+  TaskValidation
+} from '@/utils/validation'
 import { calculateNextDueDateFromPattern, nowISO } from '@/utils/dateHelpers'
+import { collectTags, normalizeTag, normalizeTags } from '@/utils/tags'
+import { generateUUID } from '@/utils/crypto'
+import { createSearchIndex, indexTask, removeFromIndex, searchIndex } from '@/services/search'
+import { addPurgedTaskIds, getTrashCutoff, getTrashRetentionDays } from '@/services/trash'
+import { getAutoArchiveDays, getTasksToAutoArchive, isTaskDone } from '@/services/archive'
+import { tickClock } from '@/services/hlc'
 import { useSyncStore } from '@/stores/syncStore'
 
 /**
- * Generate a UUID for new tasks
+ * Maximum number of postponement timestamps kept per task
  */
-function generateUUID(): string {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID()
-  }
-  // Fallback: generate UUID v4 using getRandomValues
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = crypto.getRandomValues(new Uint8Array(1))[0] % 16
-    const v = c === 'x' ? r : (r & 0x3) | 0x8
-    return v.toString(16)
+const MAX_POSTPONEMENT_HISTORY = 20
+
+/**
+ * Number of operations that can be undone
+ */
+const MAX_UNDO_HISTORY = 20
+
+/**
+ * Remove duplicates and blanks from a dependency list
+ * Returns undefined for an empty list so the task carries no dependencies
+ */
+function normalizeDependencyIds(ids: string[] | undefined): string[] | undefined {
+  if (!ids) return undefined
+  const unique = [...new Set(ids.filter((id) => !!id))]
+  return unique.length > 0 ? unique : undefined
+}
+
+/**
+ * Create plain copies of checklist steps, assigning IDs to new ones
+ * and keeping completedAt in line with the checked state
+ */
+function normalizeSubtasks(subtasks: Subtask[]): Subtask[] {
+  const now = nowISO()
+  return subtasks.map((subtask) => {
+    const { completedAt, ...raw } = toRaw(subtask)
+    const normalized: Subtask = {
+      ...raw,
+      id: raw.id || generateUUID(),
+      name: raw.name.trim()
+    }
+    if (normalized.completed) {
+      normalized.completedAt = completedAt ?? now
+    }
+    return normalized
   })
 }
 
@@ -34,6 +89,20 @@ export const useTaskStore = defineStore('task', () => {
   const tasks = ref<Task[]>([])
   const loading = ref(false)
   const error = ref<string | null>(null)
+  /** Most recent completion that made other tasks available */
+  const lastUnblockEvent = ref<UnblockEvent | null>(null)
+  /** Tasks unblocked since suggestions were last generated */
+  const justUnblockedIds = ref<string[]>([])
+  /** Full-text index over names, notes and tags (plain object, kept in step with mutations) */
+  let textIndex = createSearchIndex()
+  /** Undoable operations, oldest first */
+  const undoStack = ref<UndoEntry[]>([])
+  /** Undone operations that can be redone, oldest first */
+  const redoStack = ref<UndoEntry[]>([])
+  /** Most recently recorded operation (not changed by undo/redo) */
+  const lastRecordedEntry = ref<UndoEntry | null>(null)
+  /** Completion records added by the operation being recorded, or null when not recording */
+  let recordedCompletions: CompletionRecord[] | null = null
 
   // Getters - filter out soft-deleted tasks
   const activeTasks = computed(() =>
@@ -48,6 +117,13 @@ export const useTaskStore = defineStore('task', () => {
     tasks.value.filter((t) => t.status === 'archived' && !t.deletedAt)
   )
 
+  /** Soft-deleted tasks in the trash, most recently deleted first */
+  const deletedTasks = computed(() =>
+    tasks.value
+      .filter((t) => !!t.deletedAt)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!))
+  )
+
   const tasksByType = computed(
     () => (type: TaskType) => tasks.value.filter((t) => t.type === type && !t.deletedAt)
   )
@@ -58,6 +134,25 @@ export const useTaskStore = defineStore('task', () => {
 
   const activeTaskCount = computed(() => activeTasks.value.length)
 
+  /** Every tag in use on non-deleted tasks, sorted alphabetically */
+  const allTags = computed(() => collectTags(tasks.value.filter((t) => !t.deletedAt)))
+
+  /**
+   * Search non-deleted tasks by name, notes and tags (prefix and typo tolerant)
+   * Reads tasks so results recompute after every mutation
+   */
+  const searchTasks = computed(() => {
+    const byId = new Map(tasks.value.map((t) => [t.id, t]))
+    return (query: string): Task[] =>
+      searchIndex(textIndex, query)
+        .map((id) => byId.get(id))
+        .filter((t): t is Task => !!t && !t.deletedAt)
+  })
+
+  const canUndo = computed(() => undoStack.value.length > 0)
+
+  const canRedo = computed(() => redoStack.value.length > 0)
+
   // Actions
 
   /**
@@ -69,6 +164,7 @@ export const useTaskStore = defineStore('task', () => {
 
     try {
       tasks.value = await db.tasks.toArray()
+      textIndex = createSearchIndex(tasks.value)
     } catch (e) {
       error.value = e instanceof Error ? e.message : 'Failed to load tasks'
       console.error('Failed to load tasks:', e)
@@ -83,7 +179,7 @@ export const useTaskStore = defineStore('task', () => {
    * @param input - Task creation input
    * @returns Created task or undefined if validation fails
    */
-  async function create(input: CreateTaskInput): Promise<Task | undefined> {
+  async function createTask(input: CreateTaskInput): Promise<Task | undefined> {
     loading.value = true
     error.value = null
 
@@ -96,8 +192,9 @@ export const useTaskStore = defineStore('task', () => {
       }
 
       // Check for circular dependency
-      if (input.dependsOnId !== undefined) {
-        if (detectCircularDependency(undefined, input.dependsOnId, tasks.value)) {
+      const dependsOnIds = normalizeDependencyIds(input.dependsOnIds)
+      if (dependsOnIds !== undefined) {
+        if (detectCircularDependency(undefined, dependsOnIds, tasks.value)) {
           error.value = 'Circular dependency detected'
           return undefined
         }
@@ -118,9 +215,10 @@ export const useTaskStore = defineStore('task', () => {
         status: 'active',
         priority: input.priority,
         deadline: input.deadline?.toISOString(),
-        dependsOnId: input.dependsOnId,
+        dependsOnIds,
         createdAt: now,
-        updatedAt: now
+        updatedAt: now,
+        hlc: tickClock()
       }
 
       // Add recurring pattern with computed nextDueDate
@@ -136,11 +234,39 @@ export const useTaskStore = defineStore('task', () => {
         task.projectSession = input.projectSession
       }
 
+      // Add checklist steps if provided
+      if (input.subtasks && input.subtasks.length > 0) {
+        task.subtasks = normalizeSubtasks(input.subtasks)
+      }
+
+      // Add tags if provided
+      const tags = normalizeTags(input.tags ?? [])
+      if (tags.length > 0) {
+        task.tags = tags
+      }
+
+      // Add notes if provided
+      const notes = input.notes?.trim()
+      if (notes) {
+        task.notes = notes
+      }
+
+      // Add place if provided
+      if (input.placeId) {
+        task.placeId = input.placeId
+      }
+
+      // Add availability window if provided
+      if (input.availability) {
+        task.availability = toRaw(input.availability)
+      }
+
       // Save to IndexedDB
       await db.tasks.add(task)
 
       // Update local state
       tasks.value.push(task)
+      indexTask(textIndex, task)
 
       // Track pending change for sync
       const syncStore = useSyncStore()
@@ -165,7 +291,7 @@ export const useTaskStore = defineStore('task', () => {
    * @param input - Task update input (id required, other fields optional)
    * @returns Updated task or undefined if not found/validation fails
    */
-  async function update(input: UpdateTaskInput): Promise<Task | undefined> {
+  async function updateTask(input: UpdateTaskInput): Promise<Task | undefined> {
     loading.value = true
     error.value = null
 
@@ -176,17 +302,40 @@ export const useTaskStore = defineStore('task', () => {
         return undefined
       }
 
-      // Check for circular dependency if dependsOnId is being changed
-      if (input.dependsOnId !== undefined && input.dependsOnId !== existingTask.dependsOnId) {
-        if (detectCircularDependency(input.id, input.dependsOnId, tasks.value)) {
+      // Check for circular dependency if dependsOnIds is being changed
+      const dependsOnIds = normalizeDependencyIds(input.dependsOnIds)
+      const dependenciesChanged =
+        input.dependsOnIds !== undefined &&
+        (dependsOnIds ?? []).join() !== (existingTask.dependsOnIds ?? []).join()
+      if (dependenciesChanged && dependsOnIds !== undefined) {
+        if (detectCircularDependency(input.id, dependsOnIds, tasks.value)) {
           error.value = 'Circular dependency detected'
           return undefined
         }
       }
 
+      // Fixed calendar schedules must produce upcoming dates
+      if (input.recurringPattern?.schedule) {
+        const scheduleErrors = validateRecurrenceSchedule(input.recurringPattern.schedule)
+        if (scheduleErrors.length > 0) {
+          error.value = scheduleErrors.join(', ')
+          return undefined
+        }
+      }
+
+      // Availability windows must be well-formed
+      if (input.availability) {
+        const availabilityErrors = validateAvailability(input.availability)
+        if (availabilityErrors.length > 0) {
+          error.value = availabilityErrors.join(', ')
+          return undefined
+        }
+      }
+
       // Build update object
       const updates: Partial<Task> = {
-        updatedAt: nowISO()
+        updatedAt: nowISO(),
+        hlc: tickClock()
       }
 
       if (input.name !== undefined) updates.name = input.name
@@ -198,6 +347,8 @@ export const useTaskStore = defineStore('task', () => {
         }
         if (input.type !== 'project') {
           updates.projectSession = undefined
+          updates.subtasks = undefined
+          updates.sessionLogs = undefined
         }
       }
       if (input.timeEstimateMinutes !== undefined)
@@ -205,7 +356,7 @@ export const useTaskStore = defineStore('task', () => {
       if (input.effortLevel !== undefined) updates.effortLevel = input.effortLevel
       if (input.location !== undefined) updates.location = input.location
       if (input.priority !== undefined) updates.priority = input.priority
-      if (input.dependsOnId !== undefined) updates.dependsOnId = input.dependsOnId
+      if (dependenciesChanged) updates.dependsOnIds = dependsOnIds
 
       // Handle deadline - can be Date, string, or undefined
       if (input.deadline !== undefined) {
@@ -215,9 +366,16 @@ export const useTaskStore = defineStore('task', () => {
 
       // Handle recurring pattern update (use toRaw to avoid proxy issues)
       if (input.recurringPattern !== undefined) {
+        // A newer completion covers the occurrence that was due (fixed schedules)
+        const previous = existingTask.recurringPattern
+        const previousDueDate =
+          previous && input.recurringPattern.lastCompletedDate > previous.lastCompletedDate
+            ? previous.nextDueDate
+            : undefined
+
         updates.recurringPattern = {
           ...toRaw(input.recurringPattern),
-          nextDueDate: calculateNextDueDateFromPattern(input.recurringPattern)
+          nextDueDate: calculateNextDueDateFromPattern(input.recurringPattern, previousDueDate)
         }
       }
 
@@ -226,6 +384,47 @@ export const useTaskStore = defineStore('task', () => {
         updates.projectSession = toRaw(input.projectSession)
       }
 
+      // Handle checklist update (only kept for project tasks)
+      if (input.subtasks !== undefined && (input.type ?? existingTask.type) === 'project') {
+        const subtaskErrors = validateSubtasks(input.subtasks, 'project')
+        if (subtaskErrors.length > 0) {
+          error.value = subtaskErrors.join(', ')
+          return undefined
+        }
+        updates.subtasks = input.subtasks.length > 0 ? normalizeSubtasks(input.subtasks) : undefined
+      }
+
+      // Handle tags (an empty list removes them)
+      if (input.tags !== undefined) {
+        const tagErrors = validateTags(input.tags)
+        if (tagErrors.length > 0) {
+          error.value = tagErrors.join(', ')
+          return undefined
+        }
+        const tags = normalizeTags(input.tags)
+        updates.tags = tags.length > 0 ? tags : undefined
+      }
+
+      // Handle notes (empty notes are removed)
+      if (input.notes !== undefined) {
+        const notesErrors = validateNotes(input.notes)
+        if (notesErrors.length > 0) {
+          error.value = notesErrors.join(', ')
+          return undefined
+        }
+        updates.notes = input.notes.trim() || undefined
+      }
+
+      // Handle availability window (null removes it)
+      if (input.availability !== undefined) {
+        updates.availability = input.availability ? toRaw(input.availability) : undefined
+      }
+
+      // Handle place (null removes it)
+      if (input.placeId !== undefined) {
+        updates.placeId = input.placeId ?? undefined
+      }
+
       // Update in IndexedDB
       await db.tasks.update(input.id, updates)
 
@@ -233,6 +432,9 @@ export const useTaskStore = defineStore('task', () => {
       const index = tasks.value.findIndex((t) => t.id === input.id)
       if (index !== -1) {
         tasks.value[index] = { ...tasks.value[index], ...updates }
+        if (updates.name !== undefined || input.tags !== undefined || input.notes !== undefined) {
+          indexTask(textIndex, tasks.value[index])
+        }
         
         // Track pending change for sync
         const syncStore = useSyncStore()
@@ -260,20 +462,22 @@ export const useTaskStore = defineStore('task', () => {
    * @param id - Task ID to delete
    * @returns true if deleted, false otherwise
    */
-  async function remove(id: string): Promise<boolean> {
+  async function removeTask(id: string): Promise<boolean> {
     loading.value = true
     error.value = null
 
     try {
       const now = nowISO()
+      const hlc = tickClock()
       
       // Soft delete: set deletedAt timestamp
-      await db.tasks.update(id, { deletedAt: now, updatedAt: now })
+      await db.tasks.update(id, { deletedAt: now, updatedAt: now, hlc })
 
       // Update local state
       const index = tasks.value.findIndex((t) => t.id === id)
       if (index !== -1) {
-        tasks.value[index] = { ...tasks.value[index], deletedAt: now, updatedAt: now }
+        tasks.value[index] = { ...tasks.value[index], deletedAt: now, updatedAt: now, hlc }
+        removeFromIndex(textIndex, id)
 
         // Track pending change for sync
         const syncStore = useSyncStore()
@@ -295,14 +499,111 @@ export const useTaskStore = defineStore('task', () => {
     }
   }
 
+  /**
+   * Restore a task from the trash
+   * The new change clock (hlc) makes the restored task win over deleted copies on the next sync
+   *
+   * @param id - Deleted task ID
+   * @returns Restored task or undefined if not found
+   */
+  async function restoreTask(id: string): Promise<Task | undefined> {
+    loading.value = true
+    error.value = null
+
+    try {
+      const index = tasks.value.findIndex((t) => t.id === id && t.deletedAt)
+      if (index === -1) {
+        error.value = 'Task not found in trash'
+        return undefined
+      }
+
+      const now = nowISO()
+      const hlc = tickClock()
+      await db.tasks.update(id, { deletedAt: undefined, updatedAt: now, hlc })
+
+      const restored: Task = { ...tasks.value[index]!, updatedAt: now, hlc }
+      delete restored.deletedAt
+      tasks.value[index] = restored
+      indexTask(textIndex, restored)
+
+      // Track pending change for sync so other devices restore it too
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChange(id, 'update', toRaw(restored))
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return restored
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to restore task'
+      console.error('Failed to restore task:', e)
+      return undefined
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Delete tasks from the trash for good
+   * Their IDs are remembered so the deleted copy in the backup isn't downloaded again
+   *
+   * @param ids - Deleted task IDs (tasks not in the trash are ignored)
+   * @returns Number of tasks removed
+   */
+  async function purge(ids: string[]): Promise<number> {
+    error.value = null
+
+    try {
+      const purgeIds = tasks.value.filter((t) => t.deletedAt && ids.includes(t.id)).map((t) => t.id)
+      if (purgeIds.length === 0) return 0
+
+      await db.transaction('rw', db.tasks, db.completions, async () => {
+        await db.tasks.bulkDelete(purgeIds)
+        await db.completions.where('taskId').anyOf(purgeIds).delete()
+      })
+      addPurgedTaskIds(purgeIds)
+      forgetTasks(purgeIds)
+
+      // Tasks that never reached the backup leave nothing to sync
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.replacePendingChanges(purgeIds.map((id) => ({ taskId: id, operation: 'delete' })))
+      }
+
+      return purgeIds.length
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to delete tasks'
+      console.error('Failed to delete tasks:', e)
+      return 0
+    }
+  }
+
+  /**
+   * Drop tasks removed from IndexedDB from local state and the undo history
+   */
+  function forgetTasks(ids: string[]): void {
+    const forgotten = new Set(ids)
+    tasks.value = tasks.value.filter((t) => !forgotten.has(t.id))
+    for (const id of ids) {
+      removeFromIndex(textIndex, id)
+    }
+
+    // Undoing or redoing an operation on these tasks would bring them back
+    const touchesForgotten = (entry: UndoEntry) => entry.after.some((s) => forgotten.has(s.id))
+    undoStack.value = undoStack.value.filter((e) => !touchesForgotten(e))
+    redoStack.value = redoStack.value.filter((e) => !touchesForgotten(e))
+  }
+
   /**
    * Mark a task as complete
-   * For recurring tasks, this updates lastCompletedDate and calculates next due date
+   * For recurring tasks, this updates lastCompletedDate, calculates next due date
+   * and adds an entry to the completion history
    *
    * @param id - Task ID to complete
+   * @param details - Optional note and actual duration (kept in recurring task history)
    * @returns Updated task or undefined if not found
    */
-  async function complete(id: string): Promise<Task | undefined> {
+  async function completeTask(id: string, details: CompletionDetails = {}): Promise<Task | undefined> {
     const task = tasks.value.find((t) => t.id === id)
     if (!task) {
       error.value = 'Task not found'
@@ -312,6 +613,12 @@ export const useTaskStore = defineStore('task', () => {
     const now = nowISO()
 
     if (task.type === 'recurring' && task.recurringPattern) {
+      const detailErrors = validateCompletionDetails(details)
+      if (detailErrors.length > 0) {
+        error.value = detailErrors.join(', ')
+        return undefined
+      }
+
       // For recurring tasks: reset with new due date calculated from completion time
       const rawPattern = toRaw(task.recurringPattern)
       const updatedPattern = {
@@ -323,18 +630,329 @@ export const useTaskStore = defineStore('task', () => {
         })
       }
 
-      return update({
+      const result = await updateTask({
         id,
         recurringPattern: {
           intervalValue: updatedPattern.intervalValue,
           intervalUnit: updatedPattern.intervalUnit,
-          lastCompletedDate: updatedPattern.lastCompletedDate
+          lastCompletedDate: updatedPattern.lastCompletedDate,
+          schedule: rawPattern.schedule ? { ...toRaw(rawPattern.schedule) } : undefined
         }
       })
+
+      if (result) {
+        await recordCompletion(id, now, details)
+        // Doing a snoozed task anyway ends the snooze
+        if (result.snoozedUntil) {
+          return unsnooze(id)
+        }
+      }
+      return result
     } else {
       // For one-off and project tasks: mark as completed
-      return updateStatus(id, 'completed')
+      const wasCompleted = task.status === 'completed'
+      const result = await updateTaskStatus(id, 'completed')
+      if (result && !wasCompleted) {
+        recordUnblockedTasks(id)
+      }
+      return result
+    }
+  }
+
+  /**
+   * Store a completion in the history table
+   * History is a log - a failure here doesn't undo the completion itself
+   */
+  async function recordCompletion(
+    taskId: string,
+    completedAt: string,
+    details: CompletionDetails
+  ): Promise<void> {
+    const record: CompletionRecord = { taskId, completedAt }
+    const note = details.note?.trim()
+    if (note) {
+      record.note = note
+    }
+    if (details.actualDurationMinutes !== undefined) {
+      record.actualDurationMinutes = Math.round(details.actualDurationMinutes)
+    }
+
+    try {
+      const recordId = await db.completions.add(record)
+      recordedCompletions?.push({ ...record, id: recordId })
+    } catch (e) {
+      console.error('Failed to record completion:', e)
+    }
+  }
+
+  /**
+   * Get the completion history of a task, newest first
+   *
+   * @param taskId - Task ID
+   * @returns Completion records
+   */
+  async function getCompletionHistory(taskId: string): Promise<CompletionRecord[]> {
+    try {
+      const records = await db.completions
+        .where('[taskId+completedAt]')
+        .between([taskId, Dexie.minKey], [taskId, Dexie.maxKey])
+        .toArray()
+      return records.reverse()
+    } catch (e) {
+      console.error('Failed to load completion history:', e)
+      return []
+    }
+  }
+
+  /**
+   * Remove an entry from the completion history
+   *
+   * @param recordId - Completion record ID
+   * @returns true if removed
+   */
+  async function deleteCompletion(recordId: number): Promise<boolean> {
+    error.value = null
+
+    try {
+      await db.completions.delete(recordId)
+      return true
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to delete completion'
+      console.error('Failed to delete completion:', e)
+      return false
+    }
+  }
+
+  /**
+   * Find active tasks that depend on a task and have no incomplete prerequisites left
+   *
+   * @param completedTaskId - Prerequisite that was just completed
+   * @returns Newly available tasks
+   */
+  function findUnblockedTasks(completedTaskId: string): Task[] {
+    return tasks.value.filter(
+      (t) =>
+        t.status === 'active' &&
+        !t.deletedAt &&
+        t.dependsOnIds?.includes(completedTaskId) &&
+        !hasIncompleteDependencies(t.id)
+    )
+  }
+
+  /**
+   * Publish tasks unblocked by a completion for notifications and suggestions
+   */
+  function recordUnblockedTasks(completedTaskId: string): void {
+    const unblocked = findUnblockedTasks(completedTaskId)
+    if (unblocked.length === 0) return
+
+    const unblockedTaskIds = unblocked.map((t) => t.id)
+    lastUnblockEvent.value = { completedTaskId, unblockedTaskIds, timestamp: nowISO() }
+    justUnblockedIds.value = [...new Set([...justUnblockedIds.value, ...unblockedTaskIds])]
+  }
+
+  /**
+   * Take the tasks unblocked since the last call (used once per suggestion run)
+   *
+   * @returns IDs of tasks that were unblocked
+   */
+  function consumeJustUnblocked(): string[] {
+    const ids = justUnblockedIds.value
+    justUnblockedIds.value = []
+    return ids
+  }
+
+  /**
+   * Apply changes to several tasks in one IndexedDB transaction
+   * and queue them for sync as a single change-set
+   *
+   * @param ids - Tasks to change (unknown and deleted tasks are skipped)
+   * @param operation - Sync operation recorded for each changed task
+   * @param buildUpdates - Changes for a task, or null to leave it as it is
+   * @param completions - Completion history entries written in the same transaction
+   * @returns Changed tasks, or undefined if the transaction failed
+   */
+  async function applyBulk(
+    ids: string[],
+    operation: 'update' | 'delete',
+    buildUpdates: (task: Task) => Partial<Task> | null,
+    completions: (changed: Task[]) => CompletionRecord[] = () => []
+  ): Promise<Task[] | undefined> {
+    loading.value = true
+    error.value = null
+
+    try {
+      const hlc = tickClock()
+      const changes: { index: number; updates: Partial<Task> }[] = []
+      for (const id of new Set(ids)) {
+        const index = tasks.value.findIndex((t) => t.id === id && !t.deletedAt)
+        if (index === -1) continue
+        const updates = buildUpdates(tasks.value[index]!)
+        if (updates) changes.push({ index, updates: { ...updates, hlc } })
+      }
+      if (changes.length === 0) return []
+
+      const changed = changes.map(({ index, updates }) => ({ ...tasks.value[index]!, ...updates }))
+      const records = completions(changed)
+
+      await db.transaction('rw', db.tasks, db.completions, async () => {
+        for (const { index, updates } of changes) {
+          await db.tasks.update(tasks.value[index]!.id, updates)
+        }
+        if (records.length > 0) {
+          const recordIds = await db.completions.bulkAdd(records, { allKeys: true })
+          recordedCompletions?.push(...records.map((r, i) => ({ ...r, id: recordIds[i] })))
+        }
+      })
+
+      // Update local state only once everything is stored
+      changes.forEach(({ index }, i) => {
+        tasks.value[index] = changed[i]!
+        if (changed[i]!.deletedAt) removeFromIndex(textIndex, changed[i]!.id)
+      })
+
+      // Track the whole batch as one pending change-set
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChanges(
+          changed.map((task) => ({ taskId: task.id, operation, data: toRaw(task) }))
+        )
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return changed
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to update tasks'
+      console.error('Failed to update tasks:', e)
+      return undefined
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Complete several tasks at once, like completing each of them
+   * Recurring tasks move to their next due date and get a history entry;
+   * one-off tasks and projects are marked completed
+   *
+   * @param ids - Task IDs to complete
+   * @returns Number of tasks completed, or 0 if the transaction failed
+   */
+  async function bulkComplete(ids: string[]): Promise<number> {
+    const now = nowISO()
+    const newlyCompleted: string[] = []
+
+    const changed = await recordUndo((count) => `Completed ${countLabel(count)}`, true, () => applyBulk(
+      ids,
+      'update',
+      (task) => {
+        if (task.type === 'recurring' && task.recurringPattern) {
+          const rawPattern = toRaw(task.recurringPattern)
+          return {
+            recurringPattern: {
+              ...rawPattern,
+              lastCompletedDate: now,
+              nextDueDate: calculateNextDueDateFromPattern(
+                { ...rawPattern, lastCompletedDate: now },
+                rawPattern.nextDueDate
+              )
+            },
+            // Doing a snoozed task anyway ends the snooze
+            snoozedUntil: undefined,
+            updatedAt: now
+          }
+        }
+
+        if (task.status === 'completed') return null
+        newlyCompleted.push(task.id)
+        return { status: 'completed', completedAt: now, updatedAt: now }
+      },
+      (changedTasks) =>
+        changedTasks
+          .filter((t) => t.type === 'recurring' && t.recurringPattern)
+          .map((t) => ({ taskId: t.id, completedAt: now }))
+    ))
+
+    if (!changed) return 0
+    for (const id of newlyCompleted) {
+      recordUnblockedTasks(id)
+    }
+    return changed.length
+  }
+
+  /**
+   * Archive several tasks at once
+   *
+   * @param ids - Task IDs to archive
+   * @returns Number of tasks archived, or 0 if the transaction failed
+   */
+  async function bulkArchive(ids: string[]): Promise<number> {
+    const now = nowISO()
+    const changed = await recordUndo((count) => `Archived ${countLabel(count)}`, true, () =>
+      applyBulk(ids, 'update', (task) =>
+        task.status === 'archived' ? null : { status: 'archived', updatedAt: now }
+      )
+    )
+    return changed?.length ?? 0
+  }
+
+  /**
+   * Archive one-off tasks that have been completed for longer than the auto-archive period
+   * Runs on app start; not recorded for undo since nothing was done by hand
+   *
+   * @param days - Days a task stays completed before it is archived (0 = never)
+   * @returns Number of tasks archived
+   */
+  async function autoArchiveCompleted(days = getAutoArchiveDays()): Promise<number> {
+    if (days <= 0) return 0
+    if (tasks.value.length === 0) {
+      await loadTasks()
     }
+
+    const ids = getTasksToAutoArchive(tasks.value, days)
+    if (ids.length === 0) return 0
+
+    const now = nowISO()
+    const changed = await applyBulk(ids, 'update', () => ({ status: 'archived', updatedAt: now }))
+    return changed?.length ?? 0
+  }
+
+  /**
+   * Delete several tasks at once (soft delete)
+   *
+   * @param ids - Task IDs to delete
+   * @returns Number of tasks deleted, or 0 if the transaction failed
+   */
+  async function bulkRemove(ids: string[]): Promise<number> {
+    const now = nowISO()
+    const changed = await recordUndo((count) => `Deleted ${countLabel(count)}`, true, () =>
+      applyBulk(ids, 'delete', () => ({ deletedAt: now, updatedAt: now }))
+    )
+    return changed?.length ?? 0
+  }
+
+  /**
+   * Set priority, effort or location on several tasks at once
+   *
+   * @param ids - Task IDs to change
+   * @param changes - New values (unset fields are left as they are)
+   * @returns Number of tasks changed, or 0 if the transaction failed
+   */
+  async function bulkUpdate(ids: string[], changes: BulkTaskChanges): Promise<number> {
+    const fields = (Object.keys(changes) as (keyof BulkTaskChanges)[]).filter(
+      (key) => changes[key] !== undefined
+    )
+    if (fields.length === 0) return 0
+
+    const now = nowISO()
+    const changed = await recordUndo((count) => `Edited ${countLabel(count)}`, false, () =>
+      applyBulk(ids, 'update', (task) =>
+        fields.every((key) => task[key] === changes[key])
+          ? null
+          : { ...Object.fromEntries(fields.map((key) => [key, changes[key]])), updatedAt: now }
+      )
+    )
+    return changed?.length ?? 0
   }
 
   /**
@@ -344,18 +962,24 @@ export const useTaskStore = defineStore('task', () => {
    * @param status - New status
    * @returns Updated task or undefined if not found
    */
-  async function updateStatus(id: string, status: TaskStatus): Promise<Task | undefined> {
+  async function updateTaskStatus(id: string, status: TaskStatus): Promise<Task | undefined> {
     loading.value = true
     error.value = null
 
     try {
       const now = nowISO()
 
-      await db.tasks.update(id, { status, updatedAt: now })
+      // Completion time is kept while archived and cleared on reopening
+      const previous = tasks.value.find((t) => t.id === id)
+      const completedAt =
+        status === 'completed' ? now : status === 'archived' ? previous?.completedAt : undefined
+
+      const hlc = tickClock()
+      await db.tasks.update(id, { status, completedAt, updatedAt: now, hlc })
 
       const index = tasks.value.findIndex((t) => t.id === id)
       if (index !== -1) {
-        tasks.value[index] = { ...tasks.value[index], status, updatedAt: now }
+        tasks.value[index] = { ...tasks.value[index], status, completedAt, updatedAt: now, hlc }
         
         // Track pending change for sync
         const syncStore = useSyncStore()
@@ -377,6 +1001,228 @@ export const useTaskStore = defineStore('task', () => {
     }
   }
 
+  /**
+   * Record that a task was dismissed or postponed from suggestions
+   * Increments the postponement count and keeps a bounded list of timestamps
+   *
+   * @param id - Task ID that was skipped
+   * @returns Updated task or undefined if not found
+   */
+  async function recordPostponement(id: string): Promise<Task | undefined> {
+    error.value = null
+
+    try {
+      const index = tasks.value.findIndex((t) => t.id === id)
+      if (index === -1) {
+        error.value = 'Task not found'
+        return undefined
+      }
+
+      const now = nowISO()
+      const previous = toRaw(tasks.value[index].postponements)
+      const postponements = {
+        count: (previous?.count ?? 0) + 1,
+        timestamps: [...(previous?.timestamps ?? []), now].slice(-MAX_POSTPONEMENT_HISTORY)
+      }
+
+      const hlc = tickClock()
+      await db.tasks.update(id, { postponements, updatedAt: now, hlc })
+
+      tasks.value[index] = { ...tasks.value[index], postponements, updatedAt: now, hlc }
+
+      // Track pending change for sync
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChange(id, 'update', toRaw(tasks.value[index]))
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return tasks.value[index]
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to record postponement'
+      console.error('Failed to record postponement:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Snooze a task until a given moment
+   * The task is hidden from suggestions and the task list until then
+   *
+   * @param id - Task ID
+   * @param until - When the task comes back (must be in the future)
+   * @returns Updated task or undefined if not found or invalid
+   */
+  async function snooze(id: string, until: Date | string): Promise<Task | undefined> {
+    const untilDate = until instanceof Date ? until : new Date(until)
+    if (Number.isNaN(untilDate.getTime()) || untilDate <= new Date()) {
+      error.value = 'Snooze date must be in the future'
+      return undefined
+    }
+
+    return setSnoozedUntil(id, untilDate.toISOString())
+  }
+
+  /**
+   * End a snooze early
+   *
+   * @param id - Task ID
+   * @returns Updated task or undefined if not found
+   */
+  async function unsnooze(id: string): Promise<Task | undefined> {
+    return setSnoozedUntil(id, undefined)
+  }
+
+  async function setSnoozedUntil(
+    id: string,
+    snoozedUntil: string | undefined
+  ): Promise<Task | undefined> {
+    error.value = null
+
+    try {
+      const index = tasks.value.findIndex((t) => t.id === id)
+      if (index === -1) {
+        error.value = 'Task not found'
+        return undefined
+      }
+
+      const now = nowISO()
+      const hlc = tickClock()
+      await db.tasks.update(id, { snoozedUntil, updatedAt: now, hlc })
+
+      tasks.value[index] = { ...tasks.value[index], snoozedUntil, updatedAt: now, hlc }
+
+      // Track pending change for sync so the snooze applies on other devices
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChange(id, 'update', toRaw(tasks.value[index]))
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return tasks.value[index]
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to snooze task'
+      console.error('Failed to snooze task:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Log a work session on a project task
+   * Projects stay active; the session counts toward time spent
+   *
+   * @param id - Project task ID
+   * @param durationMinutes - Time worked in minutes
+   * @returns Updated task or undefined if not found or invalid
+   */
+  async function logSession(id: string, durationMinutes: number): Promise<Task | undefined> {
+    error.value = null
+
+    try {
+      const index = tasks.value.findIndex((t) => t.id === id)
+      if (index === -1) {
+        error.value = 'Task not found'
+        return undefined
+      }
+
+      if (tasks.value[index].type !== 'project') {
+        error.value = 'Only project tasks can log sessions'
+        return undefined
+      }
+
+      const limits = TaskValidation.sessionLog.durationMinutes
+      if (
+        !Number.isFinite(durationMinutes) ||
+        durationMinutes < limits.min ||
+        durationMinutes > limits.max
+      ) {
+        error.value = 'Session duration must be between 1 and 480 minutes'
+        return undefined
+      }
+
+      const now = nowISO()
+      const sessionLogs = [
+        ...(toRaw(tasks.value[index].sessionLogs) ?? []).map((log) => ({ ...toRaw(log) })),
+        { loggedAt: now, durationMinutes: Math.round(durationMinutes) }
+      ]
+
+      const hlc = tickClock()
+      await db.tasks.update(id, { sessionLogs, updatedAt: now, hlc })
+
+      tasks.value[index] = { ...tasks.value[index], sessionLogs, updatedAt: now, hlc }
+
+      // Track pending change for sync
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChange(id, 'update', toRaw(tasks.value[index]))
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return tasks.value[index]
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to log session'
+      console.error('Failed to log session:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Check or uncheck a step of a project checklist
+   *
+   * @param taskId - Project task ID
+   * @param subtaskId - Checklist step ID
+   * @param completed - New state (default: toggle)
+   * @returns Updated task or undefined if not found
+   */
+  async function toggleSubtask(
+    taskId: string,
+    subtaskId: string,
+    completed?: boolean
+  ): Promise<Task | undefined> {
+    error.value = null
+
+    try {
+      const index = tasks.value.findIndex((t) => t.id === taskId)
+      const task = tasks.value[index]
+      if (!task?.subtasks?.some((s) => s.id === subtaskId)) {
+        error.value = 'Subtask not found'
+        return undefined
+      }
+
+      const now = nowISO()
+      const subtasks = task.subtasks.map((subtask) => {
+        const raw = { ...toRaw(subtask) }
+        if (raw.id !== subtaskId) return raw
+
+        raw.completed = completed ?? !raw.completed
+        if (raw.completed) {
+          raw.completedAt = now
+        } else {
+          delete raw.completedAt
+        }
+        return raw
+      })
+
+      const hlc = tickClock()
+      await db.tasks.update(taskId, { subtasks, updatedAt: now, hlc })
+
+      tasks.value[index] = { ...task, subtasks, updatedAt: now, hlc }
+
+      // Track pending change for sync
+      const syncStore = useSyncStore()
+      if (syncStore.isBackupEnabled) {
+        await syncStore.addPendingChange(taskId, 'update', toRaw(tasks.value[index]))
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return tasks.value[index]
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to update subtask'
+      console.error('Failed to update subtask:', e)
+      return undefined
+    }
+  }
+
   /**
    * Get task by ID (async version that checks IndexedDB)
    *
@@ -405,70 +1251,344 @@ export const useTaskStore = defineStore('task', () => {
    */
   function hasIncompleteDependencies(taskId: string): boolean {
     const task = tasks.value.find((t) => t.id === taskId)
-    if (!task || !task.dependsOnId) return false
+    if (!task || !task.dependsOnIds?.length) return false
 
-    const dependency = tasks.value.find((t) => t.id === task.dependsOnId)
-    if (!dependency) return false
+    // Every prerequisite must be done; missing tasks don't block
+    return task.dependsOnIds.some((dependencyId) => {
+      const dependency = tasks.value.find((t) => t.id === dependencyId)
+      return dependency !== undefined && !isTaskDone(dependency)
+    })
+  }
 
-    return dependency.status !== 'completed'
+  /**
+   * Get tasks that list a task as a prerequisite
+   * Uses the multi-entry dependsOnIds index
+   *
+   * @param taskId - Prerequisite task ID
+   * @returns Tasks depending on it
+   */
+  async function getDependentTasks(taskId: string): Promise<Task[]> {
+    try {
+      return await db.tasks.where('dependsOnIds').equals(taskId).toArray()
+    } catch (e) {
+      console.error('Failed to get dependent tasks:', e)
+      return []
+    }
+  }
+
+  /**
+   * Get tasks carrying a tag
+   * Uses the multi-entry tags index
+   *
+   * @param tag - Tag to look up (normalized before querying)
+   * @returns Non-deleted tasks with the tag
+   */
+  async function getTasksByTag(tag: string): Promise<Task[]> {
+    try {
+      const tasksWithTag = await db.tasks.where('tags').equals(normalizeTag(tag)).toArray()
+      return tasksWithTag.filter((t) => !t.deletedAt)
+    } catch (e) {
+      console.error('Failed to get tasks by tag:', e)
+      return []
+    }
   }
 
   /**
    * Permanently delete soft-deleted tasks older than the retention period
-   * Default retention is 30 days
+   * The retention period is chosen per device (30 days unless changed)
    *
-   * @param retentionDays - Number of days to retain soft-deleted tasks (default: 30)
+   * @param retentionDays - Number of days to retain soft-deleted tasks
    * @returns Number of tasks permanently deleted
    */
-  async function cleanupDeletedTasks(retentionDays = 30): Promise<number> {
-    const cutoffDate = new Date()
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays)
-    const cutoffISO = cutoffDate.toISOString()
+  async function cleanupDeletedTasks(retentionDays = getTrashRetentionDays()): Promise<number> {
+    const cutoffISO = getTrashCutoff(retentionDays)
 
-    // Find all soft-deleted tasks older than cutoff
-    const tasksToDelete = tasks.value.filter(
-      (t) => t.deletedAt && t.deletedAt < cutoffISO
-    )
+    // Find all soft-deleted tasks older than cutoff (whether loaded or not)
+    const idsToDelete = await db.tasks.where('deletedAt').below(cutoffISO).primaryKeys()
 
-    if (tasksToDelete.length === 0) {
+    if (idsToDelete.length === 0) {
       return 0
     }
 
     // Permanently delete from IndexedDB
-    const idsToDelete = tasksToDelete.map((t) => t.id)
     await db.tasks.bulkDelete(idsToDelete)
+    await db.completions.where('taskId').anyOf(idsToDelete).delete()
 
     // Remove from local state
-    tasks.value = tasks.value.filter((t) => !idsToDelete.includes(t.id))
+    forgetTasks(idsToDelete)
 
     console.log(`Cleaned up ${idsToDelete.length} soft-deleted tasks older than ${retentionDays} days`)
     return idsToDelete.length
   }
 
+  /**
+   * Name of a task for undo labels
+   */
+  function taskLabel(id: string): string {
+    return `"${tasks.value.find((t) => t.id === id)?.name ?? 'task'}"`
+  }
+
+  /**
+   * Number of tasks for undo labels
+   */
+  function countLabel(count: number): string {
+    return count === 1 ? '1 task' : `${count} tasks`
+  }
+
+  /**
+   * Deep copy a task for the undo history
+   */
+  function cloneTask(task: Task | undefined): Task | null {
+    return task ? (JSON.parse(JSON.stringify(toRaw(task))) as Task) : null
+  }
+
+  /**
+   * Run a mutation and put what it changed on the undo stack
+   * Changed tasks are found by identity: every mutation replaces the task object.
+   * Nested calls (e.g. complete -> update) are recorded as one operation.
+   *
+   * @param label - What the operation does, shown in the UI (bulk actions name the number of tasks changed)
+   * @param destructive - Whether to offer an Undo toast
+   * @param run - The mutation
+   */
+  async function recordUndo<T>(
+    label: string | ((changedCount: number) => string),
+    destructive: boolean,
+    run: () => Promise<T>
+  ): Promise<T> {
+    if (recordedCompletions) return run()
+
+    const before = new Map(tasks.value.map((t) => [t.id, toRaw(t)]))
+    recordedCompletions = []
+
+    try {
+      const result = await run()
+
+      const changed = tasks.value.filter((t) => before.get(t.id) !== toRaw(t))
+      if (changed.length > 0) {
+        const entry: UndoEntry = {
+          label: typeof label === 'function' ? label(changed.length) : label,
+          destructive,
+          before: changed.map((t) => ({ id: t.id, task: cloneTask(before.get(t.id)) })),
+          after: changed.map((t) => ({ id: t.id, task: cloneTask(t) })),
+          completions: recordedCompletions,
+          timestamp: nowISO()
+        }
+        undoStack.value = [...undoStack.value, entry].slice(-MAX_UNDO_HISTORY)
+        redoStack.value = []
+        lastRecordedEntry.value = entry
+      }
+
+      return result
+    } finally {
+      recordedCompletions = null
+    }
+  }
+
+  /**
+   * Write task snapshots back (used by undo and redo)
+   * Restored tasks get a new change clock (hlc) so the restored state wins the next sync.
+   * A task that should not exist is removed for good if it never left this device,
+   * and soft-deleted otherwise so the removal reaches other devices.
+   *
+   * @param snapshots - Task states to restore
+   * @param completions - Completion records to add back or remove
+   * @returns true if restored
+   */
+  async function restoreSnapshots(
+    snapshots: TaskSnapshot[],
+    completions: { add?: CompletionRecord[]; remove?: CompletionRecord[] }
+  ): Promise<boolean> {
+    loading.value = true
+    error.value = null
+
+    try {
+      const syncStore = useSyncStore()
+      const now = nowISO()
+      const hlc = tickClock()
+
+      const restored = snapshots.map(({ id, task }): TaskSnapshot => {
+        if (task) return { id, task: { ...cloneTask(task)!, updatedAt: now, hlc } }
+        if (!syncStore.isBackupEnabled || syncStore.hasPendingCreate(id)) return { id, task: null }
+        const current = cloneTask(tasks.value.find((t) => t.id === id))
+        return { id, task: current && { ...current, deletedAt: now, updatedAt: now, hlc } }
+      })
+      const existed = new Set(tasks.value.map((t) => t.id))
+
+      await db.transaction('rw', db.tasks, db.completions, async () => {
+        for (const { id, task } of restored) {
+          if (task) {
+            await db.tasks.put(task)
+          } else {
+            await db.tasks.delete(id)
+          }
+        }
+        if (completions.remove?.length) {
+          await db.completions.bulkDelete(completions.remove.map((r) => r.id!))
+        }
+        if (completions.add?.length) {
+          await db.completions.bulkPut(completions.add.map((r) => ({ ...toRaw(r) })))
+        }
+      })
+
+      // Update local state and the search index
+      for (const { id, task } of restored) {
+        const index = tasks.value.findIndex((t) => t.id === id)
+        if (task) {
+          if (index === -1) {
+            tasks.value.push(task)
+          } else {
+            tasks.value[index] = task
+          }
+          indexTask(textIndex, task)
+        } else {
+          if (index !== -1) tasks.value.splice(index, 1)
+          removeFromIndex(textIndex, id)
+        }
+      }
+
+      // Replace the queued changes of the restored tasks
+      if (syncStore.isBackupEnabled) {
+        await syncStore.replacePendingChanges(
+          restored.map(({ id, task }) => ({
+            taskId: id,
+            operation: !task || task.deletedAt ? 'delete' : existed.has(id) ? 'update' : 'create',
+            data: task ?? undefined
+          }))
+        )
+        syncStore.scheduleDebouncedSync()
+      }
+
+      return true
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to restore tasks'
+      console.error('Failed to restore tasks:', e)
+      return false
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Undo the most recent operation
+   *
+   * @returns true if an operation was undone
+   */
+  async function undo(): Promise<boolean> {
+    const entry = undoStack.value[undoStack.value.length - 1]
+    if (!entry || !(await restoreSnapshots(entry.before, { remove: entry.completions }))) {
+      return false
+    }
+
+    undoStack.value = undoStack.value.slice(0, -1)
+    redoStack.value = [...redoStack.value, entry]
+    return true
+  }
+
+  /**
+   * Redo the most recently undone operation
+   *
+   * @returns true if an operation was redone
+   */
+  async function redo(): Promise<boolean> {
+    const entry = redoStack.value[redoStack.value.length - 1]
+    if (!entry || !(await restoreSnapshots(entry.after, { add: entry.completions }))) {
+      return false
+    }
+
+    redoStack.value = redoStack.value.slice(0, -1)
+    undoStack.value = [...undoStack.value, entry]
+    return true
+  }
+
+  // Public mutations - recorded for undo, the work happens in the functions above
+
+  async function create(input: CreateTaskInput): Promise<Task | undefined> {
+    return recordUndo(`Added "${input.name.trim()}"`, false, () => createTask(input))
+  }
+
+  async function update(input: UpdateTaskInput): Promise<Task | undefined> {
+    return recordUndo(`Edited ${taskLabel(input.id)}`, false, () => updateTask(input))
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    return recordUndo(`Deleted ${taskLabel(id)}`, true, () => removeTask(id))
+  }
+
+  async function complete(id: string, details: CompletionDetails = {}): Promise<Task | undefined> {
+    return recordUndo(`Completed ${taskLabel(id)}`, true, () => completeTask(id, details))
+  }
+
+  async function restore(id: string): Promise<Task | undefined> {
+    return recordUndo(`Restored ${taskLabel(id)}`, false, () => restoreTask(id))
+  }
+
+  async function updateStatus(id: string, status: TaskStatus): Promise<Task | undefined> {
+    const label = status === 'archived' ? 'Archived' : status === 'completed' ? 'Completed' : 'Reopened'
+    return recordUndo(`${label} ${taskLabel(id)}`, status !== 'active', () => updateTaskStatus(id, status))
+  }
+
+  async function unarchive(id: string): Promise<Task | undefined> {
+    // Tasks archived after completion go back to completed
+    const status = tasks.value.find((t) => t.id === id)?.completedAt ? 'completed' : 'active'
+    return recordUndo(`Unarchived ${taskLabel(id)}`, false, () => updateTaskStatus(id, status))
+  }
+
   return {
     // State
     tasks,
     loading,
     error,
+    lastUnblockEvent,
+    justUnblockedIds,
+    undoStack,
+    redoStack,
+    lastRecordedEntry,
 
     // Getters
     activeTasks,
     completedTasks,
     archivedTasks,
+    deletedTasks,
     tasksByType,
     taskById,
     taskCount,
     activeTaskCount,
+    allTags,
+    searchTasks,
+    canUndo,
+    canRedo,
 
     // Actions
     loadTasks,
     create,
     update,
     remove,
+    restore,
+    purge,
     complete,
     updateStatus,
+    unarchive,
+    autoArchiveCompleted,
+    bulkComplete,
+    bulkArchive,
+    bulkRemove,
+    bulkUpdate,
+    recordPostponement,
+    snooze,
+    unsnooze,
+    logSession,
+    toggleSubtask,
+    getCompletionHistory,
+    deleteCompletion,
     getById,
     hasIncompleteDependencies,
-    cleanupDeletedTasks
+    getDependentTasks,
+    getTasksByTag,
+    findUnblockedTasks,
+    consumeJustUnblocked,
+    cleanupDeletedTasks,
+    undo,
+    redo
   }
 })
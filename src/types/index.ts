@@ -5,3 +5,4 @@
 export * from './task'
 export * from './suggestion'
 export * from './sync'
+export * from './place'
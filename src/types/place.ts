@@ -0,0 +1,57 @@
+/**
+ * Place Types - User-defined named locations (Home, Office, Parents' house)
+ */
+
+/**
+ * A named place, optionally pinned to coordinates for automatic detection
+ */
+export interface Place {
+  /** UUID primary key (generated with crypto.randomUUID()) */
+  id: string
+  /** Place name (1-50 characters) */
+  name: string
+  /** Latitude in degrees (-90 to 90) */
+  latitude?: number
+  /** Longitude in degrees (-180 to 180) */
+  longitude?: number
+  /** Distance from the coordinates that still counts as being there, in meters */
+  radiusMeters?: number
+  /** Creation timestamp (ISO date string) */
+  createdAt: string
+  /** Last update timestamp (ISO date string) */
+  updatedAt: string
+  /** Soft delete timestamp (ISO date string) */
+  deletedAt?: string
+}
+
+/**
+ * Input for creating a place
+ */
+export interface CreatePlaceInput {
+  name: string
+  latitude?: number
+  longitude?: number
+  radiusMeters?: number
+}
+
+/**
+ * Input for updating a place
+ * Coordinates set to null are removed
+ */
+export interface UpdatePlaceInput {
+  id: string
+  name?: string
+  latitude?: number | null
+  longitude?: number | null
+  radiusMeters?: number | null
+}
+
+/**
+ * A position reported by the device
+ */
+export interface Coordinates {
+  latitude: number
+  longitude: number
+  /** Accuracy radius in meters */
+  accuracy?: number
+}
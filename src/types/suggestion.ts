@@ -3,7 +3,7 @@
  * Per data-model.md specification
  */
 
-import type { EffortLevel, Location, Task } from './task'
+import type { EffortLevel, Location, Subtask, Task } from './task'
 
 /**
  * Context filters for narrowing suggestions
@@ -13,6 +13,10 @@ export interface ContextFilters {
   effortLevel?: EffortLevel
   /** Filter by location */
   location?: Location
+  /** Named place the user is at (tasks tied to other places are hidden) */
+  placeId?: string
+  /** Tags the user has at hand (e.g. computer, car) - scored, not filtered */
+  tags?: string[]
 }
 
 /**
@@ -43,6 +47,40 @@ export interface ScoringFactors {
   effortMatch: number | null
   /** Match with user's location filter (0-1, null if no filter) */
   locationMatch: number | null
+  /** Days since a project was last worked on (normalized, null for non-projects or older sessions) */
+  stalled?: number | null
+  /** Share of the task's tags the user has at hand (0-1, null if no tags selected or task untagged) */
+  tagMatch?: number | null
+}
+
+/**
+ * Relative weight for each scoring factor (0 disables a factor)
+ */
+export type ScoringWeights = Record<keyof ScoringFactors, number>
+
+/**
+ * Persisted scoring profile
+ * Only one record exists (singleton pattern with id=1)
+ */
+export interface ScoringProfile {
+  /** Always 1 - only one scoring profile record */
+  id: number
+  /** Weight applied to each factor when averaging */
+  weights: ScoringWeights
+  /** Days ahead at which a deadline starts contributing to the score */
+  maxDeadlineDays: number
+  /** Days overdue at which normalized urgency reaches its maximum */
+  maxOverdueDays: number
+  /** Use weights learned from past suggestion outcomes instead of manual weights */
+  adaptive?: boolean
+  /** Weights learned on-device from suggestion sessions (if any) */
+  learnedWeights?: ScoringWeights
+  /** Number of session outcomes the learned weights were fitted on */
+  learnedFromSamples?: number
+  /** When the learned weights were last fitted (ISO date string) */
+  learnedAt?: string
+  /** Last update timestamp (ISO date string) */
+  updatedAt?: string
 }
 
 /**
@@ -61,6 +99,8 @@ export interface TaskScore {
   reason: string
   /** Individual scoring factors */
   factors: ScoringFactors
+  /** Checklist step proposed for a project task (instead of the whole project) */
+  subtask?: Subtask
 }
 
 /**
@@ -107,7 +147,11 @@ export interface SuggestionSession {
     score: number
     urgency: number
     reason: string
+    /** Scoring factors at suggestion time (used for weight learning) */
+    factors?: ScoringFactors
   }>
-  /** Action taken on suggestion (if any) */
+  /** Latest action taken on a suggestion (if any) */
   actionTaken?: SuggestionAction
+  /** Every action taken on the suggestions, oldest first (the last one is actionTaken) */
+  actions?: SuggestionAction[]
 }
@@ -3,7 +3,8 @@
  * Per data-model.md specification
  */
 
-import type { Task } from './task'
+import type { Task, TaskField } from './task'
+import type { Place } from './place'
 
 /**
  * Pending change queued for sync
@@ -15,10 +16,17 @@ export interface PendingChange {
   operation: 'create' | 'update' | 'delete'
   /** Timestamp of change (ISO date string) */
   timestamp: string
+  /** Hybrid logical clock of the change (missing for changes queued before clocks existed) */
+  hlc?: string
   /** Task data (for create/update operations) */
   data?: Task
 }
 
+/**
+ * A change to queue for sync (timestamped when it is queued)
+ */
+export type PendingChangeInput = Omit<PendingChange, 'timestamp'>
+
 /**
  * Conflict between local and remote versions
  */
@@ -31,6 +39,10 @@ export interface SyncConflict {
   remoteData: Task
   /** Timestamp when conflict was detected */
   detectedAt: string
+  /** Both versions merged field by field, with local values in conflicting fields */
+  mergedData?: Task
+  /** Fields changed differently on both devices (whole task if not set) */
+  conflictingFields?: TaskField[]
 }
 
 /**
@@ -60,6 +72,8 @@ export interface GoogleDriveBackup {
   exportTimestamp: string
   /** All tasks */
   tasks: Task[]
+  /** Named places (coordinates only if the uploading device opted in) */
+  places?: Place[]
   /** SHA-256 checksum for integrity verification */
   checksum: string
 }
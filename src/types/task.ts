@@ -15,6 +15,42 @@ export type Priority = 'optional' | 'important' | 'critical'
 
 export type IntervalUnit = 'hours' | 'days' | 'weeks' | 'months' | 'years'
 
+/**
+ * Day of the week (0 = Sunday, 6 = Saturday), as returned by Date.getDay()
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+/**
+ * Kind of fixed calendar schedule
+ * - weekdays: every N weeks on the given days (e.g. bins every Tuesday)
+ * - day-of-month: every N months on a day (e.g. rent on the 1st)
+ * - nth-weekday: every N months on the nth weekday (e.g. 2nd Saturday)
+ * - rrule: RFC 5545 RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH)
+ */
+export type RecurrenceScheduleKind = 'weekdays' | 'day-of-month' | 'nth-weekday' | 'rrule'
+
+/**
+ * Fixed calendar schedule for a recurring task
+ * Due dates follow the calendar regardless of when the task was last completed
+ */
+export interface RecurrenceSchedule {
+  kind: RecurrenceScheduleKind
+  /** Repeat every N weeks (weekdays) or months (day-of-month, nth-weekday), default 1 */
+  interval?: number
+  /** Days of the week (weekdays) */
+  weekdays?: Weekday[]
+  /** Day of the month 1-31, or -1 for the last day (day-of-month) */
+  dayOfMonth?: number
+  /** Week of the month 1-4, or -1 for the last one (nth-weekday) */
+  ordinal?: number
+  /** Day of the week (nth-weekday) */
+  weekday?: Weekday
+  /** RRULE value without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=TU (rrule) */
+  rrule?: string
+  /** First day of the schedule, anchors intervals above 1 (ISO date string) */
+  startDate: string
+}
+
 /**
  * Recurring pattern for recurring tasks
  */
@@ -27,6 +63,23 @@ export interface RecurringPattern {
   lastCompletedDate: string
   /** ISO date string of next due date (computed) */
   nextDueDate: string
+  /** Fixed calendar schedule (if unset, the next due date is relative to the last completion) */
+  schedule?: RecurrenceSchedule
+}
+
+/**
+ * When a task can be done (e.g. mow the lawn April-October, call the bank 9-17 on weekdays)
+ * Every constraint that is set must hold; unset constraints allow any time
+ */
+export interface AvailabilityWindow {
+  /** Months of the year, 1 = January (any month if unset) */
+  months?: number[]
+  /** Days of the week (any day if unset) */
+  weekdays?: Weekday[]
+  /** Start of the daily time range, HH:mm local time (inclusive) */
+  startTime?: string
+  /** End of the daily time range, HH:mm local time (exclusive, may be before startTime to span midnight) */
+  endTime?: string
 }
 
 /**
@@ -37,6 +90,43 @@ export interface ProjectSession {
   minSessionDurationMinutes: number
 }
 
+/**
+ * A logged work session on a project task
+ */
+export interface ProjectSessionLog {
+  /** When the session was logged (ISO date string) */
+  loggedAt: string
+  /** Time worked in minutes (1-480) */
+  durationMinutes: number
+}
+
+/**
+ * A checklist step inside a project task
+ */
+export interface Subtask {
+  /** Unique identifier (UUID) within the project */
+  id: string
+  /** Step name (1-200 characters) */
+  name: string
+  /** Time estimate in minutes (1-480) */
+  timeEstimateMinutes: number
+  /** Whether the step is checked off */
+  completed: boolean
+  /** Completion timestamp (ISO date string) */
+  completedAt?: string
+}
+
+/**
+ * Postponement history for a task
+ * Recorded whenever a suggestion for the task is dismissed or postponed
+ */
+export interface PostponementHistory {
+  /** Total number of times the task was skipped */
+  count: number
+  /** ISO date strings of the most recent postponements (oldest first) */
+  timestamps: string[]
+}
+
 /**
  * Full Task entity as stored in IndexedDB
  */
@@ -55,22 +145,42 @@ export interface Task {
   location: Location
   /** Task status: active, completed, or archived */
   status: TaskStatus
+  /** When a one-off task was completed (ISO date string, kept while archived) */
+  completedAt?: string
   /** Priority: optional, important, or critical */
   priority: Priority
   /** Optional deadline (ISO date string) */
   deadline?: string
-  /** Optional dependency on another task */
-  dependsOnId?: string
+  /** Optional prerequisite tasks (all must be completed first) */
+  dependsOnIds?: string[]
+  /** User-defined tags, lowercase (e.g. computer, car, phone) */
+  tags?: string[]
+  /** Free-form details in Markdown (max 5000 characters) */
+  notes?: string
+  /** Named place the task has to be done at (see Place) */
+  placeId?: string
   /** Creation timestamp (ISO date string) */
   createdAt: string
   /** Last update timestamp (ISO date string) */
   updatedAt: string
+  /** Hybrid logical clock of the last change, orders changes across devices (see utils/hlc) */
+  hlc?: string
   /** Soft delete timestamp (ISO date string, null if not deleted) */
   deletedAt?: string
   /** Recurring pattern (only for recurring tasks) */
   recurringPattern?: RecurringPattern
   /** Project session config (only for project tasks) */
   projectSession?: ProjectSession
+  /** Ordered checklist of steps (only for project tasks) */
+  subtasks?: Subtask[]
+  /** Logged work sessions, oldest first (only for project tasks) */
+  sessionLogs?: ProjectSessionLog[]
+  /** Optional window outside of which the task is not suggested */
+  availability?: AvailabilityWindow
+  /** Hidden from suggestions and the task list until this moment (ISO date string) */
+  snoozedUntil?: string
+  /** Postponement history (only once the task has been skipped) */
+  postponements?: PostponementHistory
 }
 
 /**
@@ -85,16 +195,99 @@ export interface CreateTaskInput {
   location: Location
   priority: Priority
   deadline?: Date
-  dependsOnId?: string
+  dependsOnIds?: string[]
+  tags?: string[]
+  notes?: string
+  placeId?: string
   recurringPattern?: Omit<RecurringPattern, 'nextDueDate'>
   projectSession?: ProjectSession
+  subtasks?: Subtask[]
+  availability?: AvailabilityWindow
 }
 
 /**
  * Input for updating an existing task
  * All fields except id are optional
  */
-export interface UpdateTaskInput extends Partial<Omit<CreateTaskInput, 'deadline'>> {
+export interface UpdateTaskInput extends Partial<Omit<CreateTaskInput, 'deadline' | 'availability' | 'placeId'>> {
   id: string
   deadline?: Date | string
+  /** New availability window, or null to remove it */
+  availability?: AvailabilityWindow | null
+  /** New place, or null to remove it */
+  placeId?: string | null
+}
+
+/**
+ * Fields that can be changed on several selected tasks at once
+ */
+export type BulkTaskChanges = Partial<Pick<Task, 'priority' | 'effortLevel' | 'location'>>
+
+/**
+ * Task fields merged one by one during sync (the ID is fixed, updatedAt and hlc are set by the merge)
+ */
+export type TaskField = Exclude<keyof Task, 'id' | 'updatedAt' | 'hlc'>
+
+/**
+ * State of a task on one side of an undoable operation
+ */
+export interface TaskSnapshot {
+  id: string
+  /** Full task, or null if the task didn't exist */
+  task: Task | null
+}
+
+/**
+ * An undoable task operation
+ */
+export interface UndoEntry {
+  /** What was done, e.g. 'Deleted "Mow lawn"' */
+  label: string
+  /** Deleting, completing and archiving offer an Undo toast */
+  destructive: boolean
+  /** Changed tasks before the operation */
+  before: TaskSnapshot[]
+  /** Changed tasks after the operation */
+  after: TaskSnapshot[]
+  /** Completion history entries the operation added */
+  completions: CompletionRecord[]
+  /** When the operation ran (ISO date string) */
+  timestamp: string
+}
+
+/**
+ * Tasks that became available because a prerequisite was completed
+ */
+export interface UnblockEvent {
+  /** Prerequisite that was just completed */
+  completedTaskId: string
+  /** Active tasks with no incomplete prerequisites left */
+  unblockedTaskIds: string[]
+  /** When the prerequisite was completed (ISO date string) */
+  timestamp: string
+}
+
+/**
+ * A single completion of a recurring task
+ * Stored in its own table so history survives the pattern being reset
+ */
+export interface CompletionRecord {
+  /** Auto-incremented primary key */
+  id?: number
+  /** Completed task */
+  taskId: string
+  /** When the task was completed (ISO date string) */
+  completedAt: string
+  /** Optional note (max 500 characters) */
+  note?: string
+  /** Time actually spent in minutes */
+  actualDurationMinutes?: number
+}
+
+/**
+ * Optional details captured when completing a task
+ */
+export interface CompletionDetails {
+  note?: string
+  actualDurationMinutes?: number
 }
@@ -0,0 +1,135 @@
+/**
+ * Availability Windows - Seasonal and time-of-day limits on when a task can be done
+ *
+ * A window combines optional months, weekdays and a daily time range in local
+ * time. A time range whose end is before its start spans midnight (e.g. 22:00-02:00),
+ * in which case the months and weekdays apply to the calendar day of each moment.
+ */
+
+import { addDays, setHours, setMinutes, startOfDay } from 'date-fns'
+
+import type { AvailabilityWindow, Weekday } from '@/types/task'
+
+/**
+ * How far ahead to look for the next available moment (a full year covers any window)
+ */
+const MAX_SEARCH_DAYS = 367
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Parse a HH:mm time of day
+ *
+ * @param value - e.g. "09:30"
+ * @returns Minutes since midnight, or null if invalid
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Check whether a window restricts anything at all
+ */
+export function hasAvailabilityConstraints(window: AvailabilityWindow | undefined): boolean {
+  if (!window) return false
+  return !!(window.months?.length || window.weekdays?.length || (window.startTime && window.endTime))
+}
+
+/**
+ * Check whether a moment falls inside an availability window
+ *
+ * @param window - Availability window (undefined means always available)
+ * @param at - Moment to check
+ * @returns true if the task can be done at that moment
+ */
+export function isAvailableAt(window: AvailabilityWindow | undefined, at: Date): boolean {
+  if (!window) return true
+
+  if (window.months?.length && !window.months.includes(at.getMonth() + 1)) return false
+  if (window.weekdays?.length && !window.weekdays.includes(at.getDay() as Weekday)) return false
+
+  const start = window.startTime ? parseTimeOfDay(window.startTime) : null
+  const end = window.endTime ? parseTimeOfDay(window.endTime) : null
+  if (start === null || end === null || start === end) return true
+
+  const minutes = at.getHours() * 60 + at.getMinutes()
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+/**
+ * Find the next moment a task becomes available
+ *
+ * @param window - Availability window
+ * @param from - Moment to search from
+ * @returns `from` if already available, the start of the next available period,
+ *   or null if the window never opens (e.g. no matching days within a year)
+ */
+export function getNextAvailableAt(window: AvailabilityWindow | undefined, from: Date): Date | null {
+  if (isAvailableAt(window, from)) return from
+
+  const start = window?.startTime ? parseTimeOfDay(window.startTime) : null
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const day = addDays(startOfDay(from), i)
+    // A period opens either at midnight or at the daily start time
+    const candidates = [day]
+    if (start !== null) {
+      candidates.push(setMinutes(setHours(day, Math.floor(start / 60)), start % 60))
+    }
+
+    for (const candidate of candidates) {
+      if (candidate > from && isAvailableAt(window, candidate)) {
+        return candidate
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Format a list of 1-based month numbers, collapsing consecutive runs (e.g. "Apr-Oct")
+ */
+function formatMonths(months: number[]): string {
+  const sorted = [...new Set(months)].sort((a, b) => a - b)
+  const ranges: string[] = []
+
+  let runStart = sorted[0]!
+  for (let i = 1; i <= sorted.length; i++) {
+    const previous = sorted[i - 1]!
+    if (sorted[i] !== previous + 1) {
+      const first = MONTH_NAMES[runStart - 1]
+      const last = MONTH_NAMES[previous - 1]
+      ranges.push(runStart === previous ? `${first}` : `${first}-${last}`)
+      runStart = sorted[i]!
+    }
+  }
+
+  return ranges.join(', ')
+}
+
+/**
+ * Describe a window for display (e.g. "Apr-Oct", "Mon-Fri · 09:00-17:00")
+ */
+export function describeAvailability(window: AvailabilityWindow): string {
+  const parts: string[] = []
+
+  if (window.months?.length) {
+    parts.push(formatMonths(window.months))
+  }
+
+  if (window.weekdays?.length) {
+    const days = [...window.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    const isWorkWeek = days.length === 5 && days.every((d) => d >= 1 && d <= 5)
+    parts.push(isWorkWeek ? 'Mon-Fri' : days.map((d) => WEEKDAY_NAMES[d]).join(', '))
+  }
+
+  if (window.startTime && window.endTime) {
+    parts.push(`${window.startTime}-${window.endTime}`)
+  }
+
+  return parts.join(' · ')
+}
@@ -8,6 +8,7 @@
  * Used for:
  * - Google Drive backup integrity verification
  * - Detecting data tampering or corruption during sync
+ * - Generating UUIDs for new records and the device ID
  *
  * @see https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto
  */
@@ -53,3 +54,20 @@ export async function generateChecksum(data: unknown): Promise<string> {
   // padStart(2, '0') ensures bytes like 0x0F become "0f" not "f"
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
 }
+
+/**
+ * Generate a UUID v4
+ * Falls back to getRandomValues where crypto.randomUUID is unavailable
+ * (older browsers, pages not served over https)
+ */
+export function generateUUID(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  // Fallback: generate UUID v4 using getRandomValues
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = crypto.getRandomValues(new Uint8Array(1))[0] % 16
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
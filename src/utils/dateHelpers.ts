@@ -21,6 +21,7 @@ import {
 } from 'date-fns'
 
 import type { IntervalUnit, RecurringPattern } from '@/types/task'
+import { getNextOccurrence } from './recurrence'
 
 /**
  * Format a date for display using user's locale preferences
@@ -129,11 +130,30 @@ export function calculateNextDueDate(
 
 /**
  * Calculate next due date from a RecurringPattern
+ * - Fixed schedule: the next calendar occurrence after the last completion
+ *   (or after the previous due date, when completed ahead of it)
+ * - Otherwise: lastCompletedDate + interval
  *
  * @param pattern - Recurring pattern object
+ * @param previousDueDate - Due date being completed, so an early completion covers it
  * @returns ISO date string of next due date
  */
-export function calculateNextDueDateFromPattern(pattern: Omit<RecurringPattern, 'nextDueDate'>): string {
+export function calculateNextDueDateFromPattern(
+  pattern: Omit<RecurringPattern, 'nextDueDate'>,
+  previousDueDate?: string
+): string {
+  if (pattern.schedule) {
+    const after =
+      previousDueDate && previousDueDate > pattern.lastCompletedDate
+        ? previousDueDate
+        : pattern.lastCompletedDate
+    const occurrence = getNextOccurrence(pattern.schedule, after)
+    if (occurrence) {
+      return formatISO(occurrence)
+    }
+    // Schedule with no upcoming occurrence - fall back to the interval
+  }
+
   const nextDue = calculateNextDueDate(
     pattern.lastCompletedDate,
     pattern.intervalValue,
@@ -0,0 +1,65 @@
+/**
+ * Hybrid logical clock strings - formatting, parsing and ordering
+ *
+ * A clock is the wall-clock time, a counter and the ID of the device that
+ * made the change, as a fixed-width string that sorts in clock order.
+ * Issuing clocks on this device is up to services/hlc.
+ */
+
+import type { Task } from '@/types/task'
+
+/**
+ * Device ID of clocks derived from updatedAt (tasks saved before clocks existed)
+ */
+export const LEGACY_DEVICE_ID = '0'
+
+/**
+ * Parts of a hybrid logical clock
+ */
+export interface HybridClock {
+  /** Wall-clock time in milliseconds */
+  wallTime: number
+  /** Changes within the same millisecond (or while the wall clock lags behind) */
+  counter: number
+  /** Device that made the change */
+  deviceId: string
+}
+
+/**
+ * Format a clock as a string that sorts in clock order
+ */
+export function formatClock({ wallTime, counter, deviceId }: HybridClock): string {
+  return `${String(wallTime).padStart(13, '0')}-${String(counter).padStart(4, '0')}-${deviceId}`
+}
+
+/**
+ * Parse a clock string
+ * @returns The clock parts, or null if the string is not a clock
+ */
+export function parseClock(clock: string): HybridClock | null {
+  const match = /^(\d{13})-(\d{4})-(.+)$/.exec(clock)
+  if (!match) return null
+  return { wallTime: Number(match[1]), counter: Number(match[2]), deviceId: match[3]! }
+}
+
+/**
+ * Compare two clocks (negative if a is earlier, positive if later, 0 if equal)
+ */
+export function compareClocks(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Clock standing in for a change known only by its timestamp
+ * Every device derives the same clock, so unchanged legacy tasks compare equal.
+ */
+export function clockFromTimestamp(timestamp: string): string {
+  return formatClock({ wallTime: new Date(timestamp).getTime() || 0, counter: 0, deviceId: LEGACY_DEVICE_ID })
+}
+
+/**
+ * Clock of the last change to a task (derived from updatedAt for legacy tasks)
+ */
+export function getTaskClock(task: Pick<Task, 'hlc' | 'updatedAt'>): string {
+  return task.hlc ?? clockFromTimestamp(task.updatedAt)
+}
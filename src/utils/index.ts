@@ -3,5 +3,10 @@
  */
 
 export * from './dateHelpers'
+export * from './recurrence'
+export * from './availability'
+export * from './tags'
+export * from './markdown'
 export * from './validation'
 export * from './crypto'
+export * from './hlc'
@@ -0,0 +1,215 @@
+/**
+ * Markdown - Small, safe Markdown subset for task notes
+ *
+ * Notes are parsed into plain block and inline nodes that components render
+ * with normal text bindings, so no HTML from a note ever reaches the DOM.
+ * Supported: headings (#-###), paragraphs, lists, quotes, fenced code,
+ * **bold**, *italic*, `code`, [links](https://...) and bare URLs.
+ * Images are shown as links so nothing remote is loaded automatically.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; inlines: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; inlines: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; inlines: MarkdownInline[] }
+  | { type: 'code'; text: string }
+
+/**
+ * Link protocols that may be opened from a note
+ */
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:']
+
+/**
+ * Inline syntax, tried left to right: code, bold, italic, links/images, bare URLs
+ */
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|\b_([^_\s][^_]*)_\b|!?\[([^\]]*)\]\(([^)\s]+)\)|((?:https?:\/\/|www\.)[^\s<]+)/g
+
+/**
+ * Punctuation that usually ends a sentence rather than a bare URL
+ */
+const URL_TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/
+
+/**
+ * Turn a link target into a safe URL
+ *
+ * @param href - Link target as written in the note
+ * @returns URL with an allowed protocol, or null if it can't be opened safely
+ */
+export function sanitizeUrl(href: string): string | null {
+  const trimmed = href.trim()
+  const candidate = /^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed
+
+  try {
+    const url = new URL(candidate)
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Append text, merging with a preceding text node
+ */
+function pushText(inlines: MarkdownInline[], text: string): void {
+  if (!text) return
+  const last = inlines[inlines.length - 1]
+  if (last?.type === 'text') {
+    last.text += text
+  } else {
+    inlines.push({ type: 'text', text })
+  }
+}
+
+/**
+ * Parse inline formatting of a single line
+ */
+function parseLine(line: string, inlines: MarkdownInline[]): void {
+  let last = 0
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const start = match.index!
+    pushText(inlines, line.slice(last, start))
+    last = start + match[0].length
+
+    const [, code, bold, boldAlt, em, emAlt, linkText, linkHref, bareUrl] = match
+
+    if (code !== undefined) {
+      inlines.push({ type: 'code', text: code })
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      inlines.push({ type: 'strong', text: (bold ?? boldAlt)! })
+    } else if (em !== undefined || emAlt !== undefined) {
+      inlines.push({ type: 'em', text: (em ?? emAlt)! })
+    } else if (linkHref !== undefined) {
+      const href = sanitizeUrl(linkHref)
+      const text = linkText || linkHref
+      if (href) {
+        inlines.push({ type: 'link', text, href })
+      } else {
+        pushText(inlines, text)
+      }
+    } else if (bareUrl !== undefined) {
+      // Leave sentence punctuation after a URL outside the link
+      const trailing = URL_TRAILING_PUNCTUATION.exec(bareUrl)?.[0] ?? ''
+      const urlText = bareUrl.slice(0, bareUrl.length - trailing.length)
+      const href = sanitizeUrl(urlText)
+      if (href) {
+        inlines.push({ type: 'link', text: urlText, href })
+      } else {
+        pushText(inlines, urlText)
+      }
+      pushText(inlines, trailing)
+    }
+  }
+
+  pushText(inlines, line.slice(last))
+}
+
+/**
+ * Parse inline formatting, keeping line breaks
+ *
+ * @param text - One or more lines of text
+ * @returns Inline nodes
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const inlines: MarkdownInline[] = []
+  text.split('\n').forEach((line, i) => {
+    if (i > 0) inlines.push({ type: 'break' })
+    parseLine(line, inlines)
+  })
+  return inlines
+}
+
+/**
+ * Parse Markdown into blocks
+ *
+ * @param source - Note text
+ * @returns Block nodes in document order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+
+  let paragraph: string[] = []
+  let quote: string[] = []
+  let list: { ordered: boolean; items: string[] } | null = null
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', inlines: parseInline(paragraph.join('\n')) })
+      paragraph = []
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: 'quote', inlines: parseInline(quote.join('\n')) })
+      quote = []
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) })
+      list = null
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+
+    // Fenced code block (an unclosed fence runs to the end)
+    if (/^\s*```/.test(line)) {
+      flush()
+      const code: string[] = []
+      while (++i < lines.length && !/^\s*```/.test(lines[i]!)) {
+        code.push(lines[i]!)
+      }
+      blocks.push({ type: 'code', text: code.join('\n') })
+      continue
+    }
+
+    if (line.trim() === '') {
+      flush()
+      continue
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line)
+    if (heading) {
+      flush()
+      const level = heading[1]!.length as 1 | 2 | 3
+      blocks.push({ type: 'heading', level, inlines: parseInline(heading[2]!.trim()) })
+      continue
+    }
+
+    const unordered = /^\s*[-*+]\s+(.*)$/.exec(line)
+    const ordered = /^\s*\d+[.)]\s+(.*)$/.exec(line)
+    const item = unordered ?? ordered
+    if (item) {
+      const isOrdered = !unordered
+      if (!list || list.ordered !== isOrdered) {
+        flush()
+        list = { ordered: isOrdered, items: [] }
+      }
+      list.items.push(item[1]!)
+      continue
+    }
+
+    const quoted = /^>\s?(.*)$/.exec(line)
+    if (quoted) {
+      if (quote.length === 0) flush()
+      quote.push(quoted[1]!)
+      continue
+    }
+
+    // Plain text ends a list or quote and continues a paragraph
+    if (list || quote.length > 0) flush()
+    paragraph.push(line)
+  }
+
+  flush()
+  return blocks
+}
@@ -0,0 +1,350 @@
+/**
+ * Recurrence Rules - Fixed calendar schedules for recurring tasks
+ *
+ * Every schedule kind is converted to one internal rule modelled on RFC 5545,
+ * so weekday, day-of-month, nth-weekday and RRULE schedules share a single
+ * next-occurrence search. Supported RRULE parts: FREQ, INTERVAL, BYDAY,
+ * BYMONTHDAY, BYMONTH (WKST is accepted and ignored).
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  getDaysInMonth,
+  parseISO,
+  startOfDay
+} from 'date-fns'
+
+import type { IntervalUnit, RecurrenceSchedule, Weekday } from '@/types/task'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+/**
+ * A BYDAY entry - weekday with optional ordinal within the month (e.g. 2TU, -1FR)
+ */
+export interface RecurrenceByDay {
+  weekday: Weekday
+  ordinal?: number
+}
+
+/**
+ * Normalized recurrence rule
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay: RecurrenceByDay[]
+  byMonthDay: number[]
+  byMonth: number[]
+}
+
+/**
+ * Largest supported INTERVAL
+ */
+export const MAX_RECURRENCE_INTERVAL = 99
+
+/**
+ * How far ahead to look for the next occurrence (covers the largest interval)
+ */
+const MAX_SEARCH_DAYS = 366 * 10
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ *
+ * @param value - e.g. FREQ=MONTHLY;BYDAY=2SA
+ * @returns Parsed rule, or null if invalid or using unsupported parts
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const body = value.trim().replace(/^RRULE:/i, '')
+  if (!body) return null
+
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], byMonth: [] }
+  let hasFreq = false
+
+  for (const part of body.split(';')) {
+    if (!part) continue
+    const [rawKey, rawValue] = part.split('=')
+    const key = rawKey?.trim().toUpperCase()
+    const val = rawValue?.trim().toUpperCase()
+    if (!key || !val) return null
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RecurrenceFrequency)) return null
+        rule.freq = val as RecurrenceFrequency
+        hasFreq = true
+        break
+      case 'INTERVAL': {
+        const interval = parseIntStrict(val)
+        if (interval === null || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) return null
+        rule.interval = interval
+        break
+      }
+      case 'BYDAY':
+        for (const item of val.split(',')) {
+          const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item)
+          if (!match) return null
+          const byDay: RecurrenceByDay = {
+            weekday: WEEKDAY_CODES.indexOf(match[2] as (typeof WEEKDAY_CODES)[number]) as Weekday
+          }
+          if (match[1]) {
+            const ordinal = Number(match[1])
+            if (ordinal === 0 || Math.abs(ordinal) > 5) return null
+            byDay.ordinal = ordinal
+          }
+          rule.byDay.push(byDay)
+        }
+        break
+      case 'BYMONTHDAY':
+        for (const item of val.split(',')) {
+          const day = parseIntStrict(item)
+          if (day === null || day === 0 || Math.abs(day) > 31) return null
+          rule.byMonthDay.push(day)
+        }
+        break
+      case 'BYMONTH':
+        for (const item of val.split(',')) {
+          const month = parseIntStrict(item)
+          if (month === null || month < 1 || month > 12) return null
+          rule.byMonth.push(month)
+        }
+        break
+      case 'WKST':
+        break
+      default:
+        // COUNT, UNTIL, BYSETPOS, etc. are not supported
+        return null
+    }
+  }
+
+  // Ordinals only make sense within a month or year
+  if (
+    (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') &&
+    rule.byDay.some((d) => d.ordinal !== undefined)
+  ) {
+    return null
+  }
+
+  return hasFreq ? rule : null
+}
+
+function parseIntStrict(value: string): number | null {
+  return /^[+-]?\d+$/.test(value) ? Number(value) : null
+}
+
+/**
+ * Convert a schedule to a recurrence rule
+ *
+ * @param schedule - Fixed calendar schedule
+ * @returns Rule, or null if the schedule is incomplete or invalid
+ */
+export function scheduleToRule(schedule: RecurrenceSchedule): RecurrenceRule | null {
+  const interval = schedule.interval ?? 1
+
+  switch (schedule.kind) {
+    case 'weekdays':
+      if (!schedule.weekdays?.length) return null
+      return {
+        freq: 'WEEKLY',
+        interval,
+        byDay: schedule.weekdays.map((weekday) => ({ weekday })),
+        byMonthDay: [],
+        byMonth: []
+      }
+    case 'day-of-month':
+      if (schedule.dayOfMonth === undefined) return null
+      return { freq: 'MONTHLY', interval, byDay: [], byMonthDay: [schedule.dayOfMonth], byMonth: [] }
+    case 'nth-weekday':
+      if (schedule.ordinal === undefined || schedule.weekday === undefined) return null
+      return {
+        freq: 'MONTHLY',
+        interval,
+        byDay: [{ weekday: schedule.weekday, ordinal: schedule.ordinal }],
+        byMonthDay: [],
+        byMonth: []
+      }
+    case 'rrule':
+      return schedule.rrule ? parseRRule(schedule.rrule) : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Check whether a day matches a rule anchored at a start day
+ */
+function matchesRule(rule: RecurrenceRule, day: Date, start: Date): boolean {
+  switch (rule.freq) {
+    case 'DAILY':
+      return (
+        differenceInCalendarDays(day, start) % rule.interval === 0 &&
+        matchesMonth(rule, day) &&
+        matchesDayOfMonth(rule, day, start, false)
+      )
+    case 'WEEKLY': {
+      if (differenceInCalendarWeeks(day, start) % rule.interval !== 0) return false
+      if (!matchesMonth(rule, day)) return false
+      return rule.byDay.length > 0
+        ? rule.byDay.some((d) => d.weekday === day.getDay())
+        : day.getDay() === start.getDay()
+    }
+    case 'MONTHLY':
+      return (
+        differenceInCalendarMonths(day, start) % rule.interval === 0 &&
+        matchesMonth(rule, day) &&
+        matchesDayOfMonth(rule, day, start, true)
+      )
+    case 'YEARLY': {
+      if (differenceInCalendarYears(day, start) % rule.interval !== 0) return false
+      const monthMatches =
+        rule.byMonth.length > 0
+          ? rule.byMonth.includes(day.getMonth() + 1)
+          : day.getMonth() === start.getMonth()
+      return monthMatches && matchesDayOfMonth(rule, day, start, true)
+    }
+  }
+}
+
+function matchesMonth(rule: RecurrenceRule, day: Date): boolean {
+  return rule.byMonth.length === 0 || rule.byMonth.includes(day.getMonth() + 1)
+}
+
+/**
+ * Check BYMONTHDAY / BYDAY constraints, falling back to the start day of the month
+ */
+function matchesDayOfMonth(
+  rule: RecurrenceRule,
+  day: Date,
+  start: Date,
+  defaultToStartDate: boolean
+): boolean {
+  const date = day.getDate()
+  const daysInMonth = getDaysInMonth(day)
+
+  if (rule.byMonthDay.length > 0) {
+    const monthDayMatches = rule.byMonthDay.some((d) =>
+      d > 0 ? d === date : daysInMonth + d + 1 === date
+    )
+    if (!monthDayMatches) return false
+  }
+
+  if (rule.byDay.length > 0) {
+    return rule.byDay.some((d) => {
+      if (d.weekday !== day.getDay()) return false
+      if (d.ordinal === undefined) return true
+      return d.ordinal > 0
+        ? Math.ceil(date / 7) === d.ordinal
+        : Math.ceil((daysInMonth - date + 1) / 7) === -d.ordinal
+    })
+  }
+
+  return rule.byMonthDay.length > 0 || !defaultToStartDate || date === start.getDate()
+}
+
+/**
+ * Find the first day of a schedule strictly after a given date
+ *
+ * @param schedule - Fixed calendar schedule
+ * @param after - Occurrences on or before this day are skipped
+ * @returns Start of the next matching day, or null if none within ten years
+ */
+export function getNextOccurrence(schedule: RecurrenceSchedule, after: string | Date): Date | null {
+  const rule = scheduleToRule(schedule)
+  if (!rule) return null
+
+  const start = startOfDay(parseISO(schedule.startDate))
+  if (Number.isNaN(start.getTime())) return null
+
+  const afterDay = startOfDay(typeof after === 'string' ? parseISO(after) : after)
+  let day = afterDay < start ? start : addDays(afterDay, 1)
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (matchesRule(rule, day, start)) {
+      return day
+    }
+    day = addDays(day, 1)
+  }
+
+  return null
+}
+
+/**
+ * Approximate repeat interval of a schedule, used where a single interval is
+ * needed (e.g. comparing actual vs. planned completion frequency)
+ */
+export function getScheduleInterval(
+  schedule: RecurrenceSchedule
+): { intervalValue: number; intervalUnit: IntervalUnit } | null {
+  const rule = scheduleToRule(schedule)
+  if (!rule) return null
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return { intervalValue: rule.interval, intervalUnit: 'days' }
+    case 'WEEKLY':
+      // Several weekdays per week repeat more often than weekly
+      return rule.byDay.length > 1
+        ? { intervalValue: Math.max(1, Math.round((7 * rule.interval) / rule.byDay.length)), intervalUnit: 'days' }
+        : { intervalValue: rule.interval, intervalUnit: 'weeks' }
+    case 'MONTHLY':
+      return { intervalValue: rule.interval, intervalUnit: 'months' }
+    case 'YEARLY':
+      return { intervalValue: rule.interval, intervalUnit: 'years' }
+  }
+}
+
+/**
+ * Format an ordinal week of the month (1st, 2nd, ..., last)
+ */
+function formatOrdinal(ordinal: number): string {
+  if (ordinal === -1) return 'last'
+  if (ordinal < 0) return `${-ordinal}${ordinalSuffix(-ordinal)} to last`
+  return `${ordinal}${ordinalSuffix(ordinal)}`
+}
+
+function ordinalSuffix(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return 'th'
+  switch (n % 10) {
+    case 1:
+      return 'st'
+    case 2:
+      return 'nd'
+    case 3:
+      return 'rd'
+    default:
+      return 'th'
+  }
+}
+
+/**
+ * Describe a schedule for display (e.g. "Every Tue", "Day 1 of every month")
+ */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  const interval = schedule.interval ?? 1
+
+  switch (schedule.kind) {
+    case 'weekdays': {
+      const days = [...(schedule.weekdays ?? [])].sort((a, b) => a - b).map((d) => WEEKDAY_NAMES[d]).join(', ')
+      return interval === 1 ? `Every ${days}` : `Every ${interval} weeks on ${days}`
+    }
+    case 'day-of-month': {
+      const day = schedule.dayOfMonth === -1 ? 'Last day' : `Day ${schedule.dayOfMonth}`
+      return interval === 1 ? `${day} of every month` : `${day} of every ${interval} months`
+    }
+    case 'nth-weekday': {
+      const which = `${formatOrdinal(schedule.ordinal ?? 1)} ${WEEKDAY_NAMES[schedule.weekday ?? 0]}`
+      return interval === 1 ? `${which} of every month` : `${which} of every ${interval} months`
+    }
+    case 'rrule':
+      return schedule.rrule ?? ''
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Tags - Free-form labels for tasks (e.g. computer, car, shop, phone)
+ * Tags are stored lowercase with collapsed whitespace so "Car" and " car " match.
+ */
+
+import type { Task } from '@/types/task'
+
+/**
+ * Normalize a single tag
+ *
+ * @param tag - Raw tag text
+ * @returns Lowercase, trimmed tag (may be empty)
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Normalize a list of tags, dropping empties and duplicates (order kept)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))]
+}
+
+/**
+ * Collect every tag used by a set of tasks, sorted alphabetically
+ */
+export function collectTags(tasks: Task[]): string[] {
+  const tags = new Set<string>()
+  for (const task of tasks) {
+    for (const tag of task.tags ?? []) {
+      tags.add(tag)
+    }
+  }
+  return [...tags].sort((a, b) => a.localeCompare(b))
+}
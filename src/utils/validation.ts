@@ -3,7 +3,24 @@
  * Task validation and dependency checking per data-model.md
  */
 
-import type { CreateTaskInput, Task, EffortLevel, Location, TaskType, Priority } from '@/types/task'
+import type {
+  CreateTaskInput,
+  Task,
+  EffortLevel,
+  Location,
+  TaskType,
+  Priority,
+  Subtask,
+  CompletionDetails,
+  RecurrenceSchedule,
+  RecurrenceScheduleKind,
+  AvailabilityWindow
+} from '@/types/task'
+import type { ScoringProfile } from '@/types/suggestion'
+import type { CreatePlaceInput } from '@/types/place'
+import { getNextOccurrence, parseRRule, MAX_RECURRENCE_INTERVAL } from './recurrence'
+import { hasAvailabilityConstraints, parseTimeOfDay } from './availability'
+import { normalizeTag } from './tags'
 
 /**
  * Validation result
@@ -28,6 +45,11 @@ export const TaskValidation = {
     max: 480, // 8 hours
     required: true
   },
+  projectTimeEstimateMinutes: {
+    min: 1,
+    max: 6000, // 100 hours of total project effort
+    required: true
+  },
   effortLevel: {
     values: ['low', 'medium', 'high'] as EffortLevel[],
     required: true
@@ -52,6 +74,14 @@ export const TaskValidation = {
     },
     intervalUnit: {
       values: ['hours', 'days', 'weeks', 'months', 'years']
+    },
+    schedule: {
+      kinds: ['weekdays', 'day-of-month', 'nth-weekday', 'rrule'] as RecurrenceScheduleKind[],
+      interval: {
+        min: 1,
+        max: MAX_RECURRENCE_INTERVAL
+      },
+      ordinals: [1, 2, 3, 4, -1] as number[]
     }
   },
   projectSession: {
@@ -59,6 +89,45 @@ export const TaskValidation = {
       min: 1,
       max: 480
     }
+  },
+  sessionLog: {
+    durationMinutes: {
+      min: 1,
+      max: 480
+    }
+  },
+  completion: {
+    note: {
+      maxLength: 500
+    },
+    actualDurationMinutes: {
+      min: 1,
+      max: 480
+    }
+  },
+  tags: {
+    maxCount: 20,
+    maxLength: 30
+  },
+  notes: {
+    maxLength: 5000
+  },
+  availability: {
+    month: {
+      min: 1,
+      max: 12
+    }
+  },
+  subtasks: {
+    maxCount: 50,
+    name: {
+      minLength: 1,
+      maxLength: 200
+    },
+    timeEstimateMinutes: {
+      min: 1,
+      max: 480
+    }
   }
 } as const
 
@@ -72,13 +141,7 @@ export function validateTask(input: CreateTaskInput): ValidationResult {
   const errors: string[] = []
 
   // Name validation
-  if (!input.name || typeof input.name !== 'string') {
-    errors.push('Task name is required')
-  } else if (input.name.length < TaskValidation.name.minLength) {
-    errors.push('Task name must be at least 1 character')
-  } else if (input.name.length > TaskValidation.name.maxLength) {
-    errors.push('Task name must be 200 characters or less')
-  }
+  errors.push(...validateTaskName(input.name))
 
   // Type validation
   if (!input.type) {
@@ -90,6 +153,14 @@ export function validateTask(input: CreateTaskInput): ValidationResult {
   // Time estimate validation
   if (input.timeEstimateMinutes === undefined || input.timeEstimateMinutes === null) {
     errors.push('Time estimate is required')
+  } else if (input.type === 'project') {
+    // Projects estimate their total effort across all sessions
+    if (
+      input.timeEstimateMinutes < TaskValidation.projectTimeEstimateMinutes.min ||
+      input.timeEstimateMinutes > TaskValidation.projectTimeEstimateMinutes.max
+    ) {
+      errors.push('Project time estimate must be between 1 and 6000 minutes')
+    }
   } else if (
     input.timeEstimateMinutes < TaskValidation.timeEstimateMinutes.min ||
     input.timeEstimateMinutes > TaskValidation.timeEstimateMinutes.max
@@ -137,6 +208,10 @@ export function validateTask(input: CreateTaskInput): ValidationResult {
     if (input.type === 'recurring' && !input.recurringPattern.lastCompletedDate) {
       errors.push('Recurring tasks require a last completed date')
     }
+
+    if (input.recurringPattern.schedule) {
+      errors.push(...validateRecurrenceSchedule(input.recurringPattern.schedule))
+    }
   } else if (input.type === 'recurring') {
     errors.push('Recurring tasks require a recurring pattern')
   }
@@ -153,6 +228,26 @@ export function validateTask(input: CreateTaskInput): ValidationResult {
     }
   }
 
+  // Subtask validation (if provided)
+  if (input.subtasks) {
+    errors.push(...validateSubtasks(input.subtasks, input.type))
+  }
+
+  // Tag validation (if provided)
+  if (input.tags) {
+    errors.push(...validateTags(input.tags))
+  }
+
+  // Availability window validation (if provided)
+  if (input.availability) {
+    errors.push(...validateAvailability(input.availability))
+  }
+
+  // Notes validation (if provided)
+  if (input.notes !== undefined) {
+    errors.push(...validateNotes(input.notes))
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -161,17 +256,381 @@ export function validateTask(input: CreateTaskInput): ValidationResult {
 }
 
 /**
- * Check for circular dependencies in task chain
- * Returns true if adding dependsOnId would create a circular dependency
+ * Validate a task's name
+ *
+ * @param name - Task name
+ * @returns Error messages (empty if valid)
+ */
+export function validateTaskName(name: string): string[] {
+  if (!name || typeof name !== 'string') {
+    return ['Task name is required']
+  } else if (name.length < TaskValidation.name.minLength) {
+    return ['Task name must be at least 1 character']
+  } else if (name.length > TaskValidation.name.maxLength) {
+    return ['Task name must be 200 characters or less']
+  }
+  return []
+}
+
+/**
+ * Validate a task's notes
+ *
+ * @param notes - Markdown notes text
+ * @returns Error messages (empty if valid)
+ */
+export function validateNotes(notes: string): string[] {
+  if (typeof notes !== 'string' || notes.length > TaskValidation.notes.maxLength) {
+    return ['Notes must be at most 5000 characters']
+  }
+  return []
+}
+
+/**
+ * Validate a task's tags
+ *
+ * @param tags - Tags to validate (normalized or raw)
+ * @returns Error messages (empty if valid)
+ */
+export function validateTags(tags: string[]): string[] {
+  const errors: string[] = []
+  const rules = TaskValidation.tags
+
+  if (tags.length > rules.maxCount) {
+    errors.push('A task can have at most 20 tags')
+  }
+
+  const invalid = tags.some((tag) => {
+    const normalized = typeof tag === 'string' ? normalizeTag(tag) : ''
+    return normalized.length === 0 || normalized.length > rules.maxLength
+  })
+  if (invalid) {
+    errors.push('Tags must be between 1 and 30 characters')
+  }
+
+  return errors
+}
+
+/**
+ * Validate an availability window
+ *
+ * @param window - Seasonal / time-of-day window of a task
+ * @returns Error messages (empty if valid)
+ */
+export function validateAvailability(window: AvailabilityWindow): string[] {
+  const errors: string[] = []
+  const { min, max } = TaskValidation.availability.month
+
+  if (
+    window.months &&
+    !window.months.every((m) => Number.isInteger(m) && m >= min && m <= max)
+  ) {
+    errors.push('Available months must be between 1 and 12')
+  }
+
+  if (window.weekdays && !window.weekdays.every(isWeekday)) {
+    errors.push('Available weekdays must be between 0 (Sunday) and 6 (Saturday)')
+  }
+
+  const hasStart = !!window.startTime
+  const hasEnd = !!window.endTime
+  if (hasStart !== hasEnd) {
+    errors.push('Set both a start and an end time, or neither')
+  } else if (hasStart) {
+    const start = parseTimeOfDay(window.startTime!)
+    const end = parseTimeOfDay(window.endTime!)
+    if (start === null || end === null) {
+      errors.push('Available times must use HH:mm')
+    } else if (start === end) {
+      errors.push('Available start and end time must differ')
+    }
+  }
+
+  if (errors.length === 0 && !hasAvailabilityConstraints(window)) {
+    errors.push('Availability window needs months, weekdays, or a time range')
+  }
+
+  return errors
+}
+
+/**
+ * Check for a day of the week (0 = Sunday, 6 = Saturday)
+ */
+function isWeekday(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6
+}
+
+/**
+ * Validate a fixed calendar schedule
+ *
+ * @param schedule - Schedule attached to a recurring pattern
+ * @returns Error messages (empty if valid)
+ */
+export function validateRecurrenceSchedule(schedule: RecurrenceSchedule): string[] {
+  const errors: string[] = []
+  const rules = TaskValidation.recurringPattern.schedule
+
+  if (!rules.kinds.includes(schedule.kind)) {
+    return ['Schedule must be weekdays, day-of-month, nth-weekday, or rrule']
+  }
+
+  if (
+    schedule.interval !== undefined &&
+    (!Number.isInteger(schedule.interval) ||
+      schedule.interval < rules.interval.min ||
+      schedule.interval > rules.interval.max)
+  ) {
+    errors.push('Schedule interval must be between 1 and 99')
+  }
+
+  if (!schedule.startDate || Number.isNaN(new Date(schedule.startDate).getTime())) {
+    errors.push('Schedule start date is invalid')
+  }
+
+  switch (schedule.kind) {
+    case 'weekdays':
+      if (!schedule.weekdays?.length || !schedule.weekdays.every(isWeekday)) {
+        errors.push('Pick at least one weekday')
+      }
+      break
+    case 'day-of-month':
+      if (
+        !Number.isInteger(schedule.dayOfMonth) ||
+        (schedule.dayOfMonth !== -1 && (schedule.dayOfMonth! < 1 || schedule.dayOfMonth! > 31))
+      ) {
+        errors.push('Day of month must be between 1 and 31, or last')
+      }
+      break
+    case 'nth-weekday':
+      if (!rules.ordinals.includes(schedule.ordinal ?? 0) || !isWeekday(schedule.weekday)) {
+        errors.push('Pick a week of the month (1st-4th or last) and a weekday')
+      }
+      break
+    case 'rrule':
+      if (!schedule.rrule || !parseRRule(schedule.rrule)) {
+        errors.push('RRULE must have FREQ and may only use INTERVAL, BYDAY, BYMONTHDAY, and BYMONTH')
+      }
+      break
+  }
+
+  // e.g. the 31st of February never happens
+  if (errors.length === 0 && !getNextOccurrence(schedule, schedule.startDate)) {
+    errors.push('Schedule has no upcoming dates')
+  }
+
+  return errors
+}
+
+/**
+ * Validate details recorded with a completion
+ *
+ * @param details - Optional note and actual duration
+ * @returns Error messages (empty if valid)
+ */
+export function validateCompletionDetails(details: CompletionDetails): string[] {
+  const errors: string[] = []
+  const rules = TaskValidation.completion
+
+  if (details.note && details.note.length > rules.note.maxLength) {
+    errors.push('Completion note must be 500 characters or less')
+  }
+
+  if (
+    details.actualDurationMinutes !== undefined &&
+    (!Number.isFinite(details.actualDurationMinutes) ||
+      details.actualDurationMinutes < rules.actualDurationMinutes.min ||
+      details.actualDurationMinutes > rules.actualDurationMinutes.max)
+  ) {
+    errors.push('Actual duration must be between 1 and 480 minutes')
+  }
+
+  return errors
+}
+
+/**
+ * Validate a project checklist
+ *
+ * @param subtasks - Ordered checklist steps
+ * @param type - Type of the owning task
+ * @returns Error messages (empty if valid)
+ */
+export function validateSubtasks(subtasks: Subtask[], type: TaskType): string[] {
+  const errors: string[] = []
+  const rules = TaskValidation.subtasks
+
+  if (subtasks.length === 0) {
+    return errors
+  }
+
+  if (type !== 'project') {
+    errors.push('Only project tasks can have subtasks')
+  }
+
+  if (subtasks.length > rules.maxCount) {
+    errors.push('Projects can have at most 50 subtasks')
+  }
+
+  if (
+    subtasks.some(
+      (s) =>
+        !s.name?.trim() ||
+        s.name.length < rules.name.minLength ||
+        s.name.length > rules.name.maxLength
+    )
+  ) {
+    errors.push('Subtask names must be between 1 and 200 characters')
+  }
+
+  if (
+    subtasks.some(
+      (s) =>
+        !Number.isFinite(s.timeEstimateMinutes) ||
+        s.timeEstimateMinutes < rules.timeEstimateMinutes.min ||
+        s.timeEstimateMinutes > rules.timeEstimateMinutes.max
+    )
+  ) {
+    errors.push('Subtask time estimates must be between 1 and 480 minutes')
+  }
+
+  return errors
+}
+
+/**
+ * Validation rules for the scoring profile
+ */
+export const ScoringProfileValidation = {
+  weight: {
+    min: 0,
+    max: 5,
+    step: 0.5
+  },
+  maxDeadlineDays: {
+    min: 1,
+    max: 365
+  },
+  maxOverdueDays: {
+    min: 1,
+    max: 365
+  }
+} as const
+
+/**
+ * Validate a scoring profile
+ *
+ * @param profile - ScoringProfile to validate
+ * @returns ValidationResult with errors if invalid
+ */
+export function validateScoringProfile(profile: ScoringProfile): ValidationResult {
+  const errors: string[] = []
+
+  const weights = Object.values(profile.weights)
+  if (weights.some((w) => typeof w !== 'number' || Number.isNaN(w) ||
+    w < ScoringProfileValidation.weight.min || w > ScoringProfileValidation.weight.max)) {
+    errors.push('Factor weights must be between 0 and 5')
+  } else if (weights.every((w) => w === 0)) {
+    errors.push('At least one factor must have a weight above 0')
+  }
+
+  if (
+    !Number.isInteger(profile.maxDeadlineDays) ||
+    profile.maxDeadlineDays < ScoringProfileValidation.maxDeadlineDays.min ||
+    profile.maxDeadlineDays > ScoringProfileValidation.maxDeadlineDays.max
+  ) {
+    errors.push('Deadline horizon must be between 1 and 365 days')
+  }
+
+  if (
+    !Number.isInteger(profile.maxOverdueDays) ||
+    profile.maxOverdueDays < ScoringProfileValidation.maxOverdueDays.min ||
+    profile.maxOverdueDays > ScoringProfileValidation.maxOverdueDays.max
+  ) {
+    errors.push('Overdue horizon must be between 1 and 365 days')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+/**
+ * Validation rules for named places
+ */
+export const PlaceValidation = {
+  name: {
+    minLength: 1,
+    maxLength: 50
+  },
+  latitude: {
+    min: -90,
+    max: 90
+  },
+  longitude: {
+    min: -180,
+    max: 180
+  },
+  radiusMeters: {
+    min: 10,
+    max: 10000
+  }
+} as const
+
+/**
+ * Validate a named place
+ *
+ * @param input - Place fields to validate
+ * @returns ValidationResult with errors if invalid
+ */
+export function validatePlace(input: CreatePlaceInput): ValidationResult {
+  const errors: string[] = []
+  const rules = PlaceValidation
+
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (name.length < rules.name.minLength || name.length > rules.name.maxLength) {
+    errors.push('Place name must be between 1 and 50 characters')
+  }
+
+  const hasLatitude = input.latitude !== undefined
+  const hasLongitude = input.longitude !== undefined
+  if (hasLatitude !== hasLongitude) {
+    errors.push('Set both latitude and longitude, or neither')
+  } else if (hasLatitude && hasLongitude) {
+    const latitude = input.latitude!
+    const longitude = input.longitude!
+    if (!Number.isFinite(latitude) || latitude < rules.latitude.min || latitude > rules.latitude.max) {
+      errors.push('Latitude must be between -90 and 90')
+    }
+    if (!Number.isFinite(longitude) || longitude < rules.longitude.min || longitude > rules.longitude.max) {
+      errors.push('Longitude must be between -180 and 180')
+    }
+  }
+
+  if (
+    input.radiusMeters !== undefined &&
+    (!Number.isFinite(input.radiusMeters) ||
+      input.radiusMeters < rules.radiusMeters.min ||
+      input.radiusMeters > rules.radiusMeters.max)
+  ) {
+    errors.push('Radius must be between 10 and 10000 meters')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+/**
+ * Check for circular dependencies in the task graph
+ * Returns true if adding dependsOnIds would create a circular dependency
  *
  * @param taskId - ID of task being checked (or undefined for new task)
- * @param dependsOnId - ID of task this task would depend on
+ * @param dependsOnIds - IDs of tasks this task would depend on
  * @param allTasks - All tasks in the system
  * @returns true if circular dependency would be created
  */
 export function detectCircularDependency(
   taskId: string | undefined,
-  dependsOnId: string,
+  dependsOnIds: string[],
   allTasks: Task[]
 ): boolean {
   // If no taskId (new task), can't have circular dependency pointing to itself
@@ -180,7 +639,7 @@ export function detectCircularDependency(
   }
 
   // Can't depend on yourself
-  if (taskId === dependsOnId) {
+  if (dependsOnIds.includes(taskId)) {
     return true
   }
 
@@ -192,29 +651,34 @@ export function detectCircularDependency(
     }
   }
 
-  // Follow the dependency chain from dependsOnId
-  // If we find taskId, there's a cycle
-  const visited = new Set<string>()
-  let currentId: string | undefined = dependsOnId
+  // Depth-first search over every prerequisite reachable from dependsOnIds.
+  // Reaching taskId, or a task already on the current path, means a cycle.
+  // Fully explored tasks are skipped so shared prerequisites are not flagged.
+  const onPath = new Set<string>()
+  const explored = new Set<string>()
 
-  while (currentId !== undefined) {
-    // If we've seen this task, there's a cycle (not involving our task, but still a problem)
-    if (visited.has(currentId)) {
+  function hasCycleFrom(currentId: string): boolean {
+    if (currentId === taskId || onPath.has(currentId)) {
       return true
     }
-
-    // If we found our task in the chain, adding this dependency would create a cycle
-    if (currentId === taskId) {
-      return true
+    if (explored.has(currentId)) {
+      return false
     }
 
-    visited.add(currentId)
+    onPath.add(currentId)
+    const prerequisites = taskMap.get(currentId)?.dependsOnIds ?? []
+    for (const prerequisiteId of prerequisites) {
+      if (hasCycleFrom(prerequisiteId)) {
+        return true
+      }
+    }
+    onPath.delete(currentId)
+    explored.add(currentId)
 
-    const currentTask = taskMap.get(currentId)
-    currentId = currentTask?.dependsOnId
+    return false
   }
 
-  return false
+  return dependsOnIds.some((id) => hasCycleFrom(id))
 }
 
 /**
@@ -0,0 +1,111 @@
+/**
+ * Integration tests for placeStore with IndexedDB
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { usePlaceStore } from '@/stores/placeStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { db } from '@/db/database'
+
+describe('placeStore integration with IndexedDB', () => {
+  beforeEach(async () => {
+    setActivePinia(createPinia())
+    await db.places.clear()
+    await db.tasks.clear()
+  })
+
+  afterEach(async () => {
+    await db.places.clear()
+    await db.tasks.clear()
+  })
+
+  describe('createPlace', () => {
+    it('persists a place to IndexedDB', async () => {
+      const placeStore = usePlaceStore()
+
+      const place = await placeStore.createPlace({ name: '  Office ', latitude: 52.5, longitude: 13.45 })
+
+      expect(place).toBeDefined()
+      expect(place!.name).toBe('Office')
+      const stored = await db.places.get(place!.id)
+      expect(stored).toMatchObject({ name: 'Office', latitude: 52.5, longitude: 13.45 })
+    })
+
+    it('rejects an invalid place', async () => {
+      const placeStore = usePlaceStore()
+
+      const place = await placeStore.createPlace({ name: '' })
+
+      expect(place).toBeUndefined()
+      expect(placeStore.error).toContain('Place name must be between 1 and 50 characters')
+      expect(await db.places.count()).toBe(0)
+    })
+
+    it('lists active places by name', async () => {
+      const placeStore = usePlaceStore()
+      await placeStore.createPlace({ name: 'Office' })
+      await placeStore.createPlace({ name: 'Home' })
+
+      expect(placeStore.activePlaces.map((p) => p.name)).toEqual(['Home', 'Office'])
+    })
+  })
+
+  describe('updatePlace', () => {
+    it('renames and pins a place', async () => {
+      const placeStore = usePlaceStore()
+      const place = await placeStore.createPlace({ name: 'Home' })
+
+      await placeStore.updatePlace({ id: place!.id, name: 'Flat', latitude: 52.52, longitude: 13.405 })
+
+      const stored = await db.places.get(place!.id)
+      expect(stored).toMatchObject({ name: 'Flat', latitude: 52.52, longitude: 13.405 })
+    })
+
+    it('removes coordinates set to null', async () => {
+      const placeStore = usePlaceStore()
+      const place = await placeStore.createPlace({ name: 'Home', latitude: 52.52, longitude: 13.405 })
+
+      await placeStore.updatePlace({ id: place!.id, latitude: null, longitude: null })
+
+      const stored = await db.places.get(place!.id)
+      expect(stored).not.toHaveProperty('latitude')
+      expect(stored).not.toHaveProperty('longitude')
+    })
+  })
+
+  describe('removePlace', () => {
+    it('soft deletes the place and unlinks its tasks', async () => {
+      const placeStore = usePlaceStore()
+      const taskStore = useTaskStore()
+      const place = await placeStore.createPlace({ name: 'Office' })
+      const task = await taskStore.create({
+        name: 'Print forms',
+        type: 'one-off',
+        timeEstimateMinutes: 10,
+        effortLevel: 'low',
+        location: 'outside',
+        priority: 'important',
+        placeId: place!.id
+      })
+
+      const removed = await placeStore.removePlace(place!.id)
+
+      expect(removed).toBe(true)
+      expect(placeStore.activePlaces).toHaveLength(0)
+      expect((await db.places.get(place!.id))?.deletedAt).toBeDefined()
+      expect((await db.tasks.get(task!.id))?.placeId).toBeUndefined()
+    })
+  })
+
+  describe('detectPlace', () => {
+    it('finds the pinned place the device is at', async () => {
+      const placeStore = usePlaceStore()
+      await placeStore.createPlace({ name: 'Home', latitude: 52.52, longitude: 13.405 })
+      await placeStore.createPlace({ name: 'Office', latitude: 52.5, longitude: 13.45 })
+
+      expect(placeStore.detectPlace({ latitude: 52.5001, longitude: 13.4501 })?.name).toBe('Office')
+      expect(placeStore.detectPlace({ latitude: 48.85, longitude: 2.35 })).toBeNull()
+    })
+  })
+})
@@ -9,7 +9,7 @@ import { useSuggestionStore } from '@/stores/suggestionStore'
 import { useTaskStore } from '@/stores/taskStore'
 import { db } from '@/db/database'
 import type { CreateTaskInput } from '@/types/task'
-import type { SuggestionContext } from '@/types/suggestion'
+import type { SuggestionContext, SuggestionSession } from '@/types/suggestion'
 
 describe('suggestionStore integration with IndexedDB', () => {
   beforeEach(async () => {
@@ -98,6 +98,47 @@ describe('suggestionStore integration with IndexedDB', () => {
     })
   })
 
+  describe('Project checklists', () => {
+    const createProjectInput = () =>
+      createValidInput({
+        name: 'Paint the shed',
+        type: 'project',
+        projectSession: { minSessionDurationMinutes: 60 },
+        subtasks: [
+          { id: '', name: 'Sand', timeEstimateMinutes: 40, completed: true },
+          { id: '', name: 'Prime', timeEstimateMinutes: 50, completed: false },
+          { id: '', name: 'Buy brushes', timeEstimateMinutes: 15, completed: false }
+        ]
+      })
+
+    it('should suggest the next unchecked step that fits the available time', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createProjectInput())
+
+      const result = await suggestionStore.generateSuggestions(
+        createContext({ availableTimeMinutes: 20 })
+      )
+
+      expect(result.suggestions).toHaveLength(1)
+      expect(result.suggestions[0].subtask?.name).toBe('Buy brushes')
+    })
+
+    it('should exclude the project when no unchecked step fits', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createProjectInput())
+
+      const result = await suggestionStore.generateSuggestions(
+        createContext({ availableTimeMinutes: 10 })
+      )
+
+      expect(result.suggestions).toHaveLength(0)
+    })
+  })
+
   describe('T049f: suggestionStore excludes tasks with incomplete dependencies', () => {
     it('should exclude task depending on incomplete task', async () => {
       const taskStore = useTaskStore()
@@ -113,7 +154,7 @@ describe('suggestionStore integration with IndexedDB', () => {
         createValidInput({
           name: 'Child Task',
           timeEstimateMinutes: 30,
-          dependsOnId: parentTask!.id
+          dependsOnIds: [parentTask!.id]
         })
       )
 
@@ -141,7 +182,7 @@ describe('suggestionStore integration with IndexedDB', () => {
         createValidInput({
           name: 'Child Task',
           timeEstimateMinutes: 30,
-          dependsOnId: parentTask!.id
+          dependsOnIds: [parentTask!.id]
         })
       )
 
@@ -168,6 +209,118 @@ describe('suggestionStore integration with IndexedDB', () => {
       expect(result.suggestions).toHaveLength(1)
       expect(result.suggestions[0].task.name).toBe('Independent Task')
     })
+
+    it('should exclude task until all of its dependencies are completed', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const buyPaint = await taskStore.create(
+        createValidInput({ name: 'Buy paint', timeEstimateMinutes: 30 })
+      )
+      const sandWall = await taskStore.create(
+        createValidInput({ name: 'Sand wall', timeEstimateMinutes: 30 })
+      )
+      await taskStore.create(
+        createValidInput({
+          name: 'Paint wall',
+          timeEstimateMinutes: 30,
+          dependsOnIds: [buyPaint!.id, sandWall!.id]
+        })
+      )
+
+      await taskStore.complete(buyPaint!.id)
+      let result = await suggestionStore.generateSuggestions(createContext())
+      expect(result.suggestions.some((s) => s.task.name === 'Paint wall')).toBe(false)
+
+      await taskStore.complete(sandWall!.id)
+      result = await suggestionStore.generateSuggestions(createContext())
+      expect(result.suggestions.some((s) => s.task.name === 'Paint wall')).toBe(true)
+    })
+  })
+
+  describe('Availability windows', () => {
+    const currentMonth = new Date().getMonth() + 1
+    const otherMonths = Array.from({ length: 12 }, (_, i) => i + 1).filter((m) => m !== currentMonth)
+
+    it('should exclude tasks outside their availability window', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'Out of season', availability: { months: otherMonths } }))
+      await taskStore.create(createValidInput({ name: 'In season', availability: { months: [currentMonth] } }))
+      await taskStore.create(createValidInput({ name: 'Any time' }))
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+
+      const names = result.suggestions.map((s) => s.task.name)
+      expect(names).toContain('In season')
+      expect(names).toContain('Any time')
+      expect(names).not.toContain('Out of season')
+    })
+
+    it('should suggest the task again once its window is removed', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const task = await taskStore.create(
+        createValidInput({ name: 'Out of season', availability: { months: otherMonths } })
+      )
+      await taskStore.update({ id: task!.id, availability: null })
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+      expect(result.suggestions.some((s) => s.task.name === 'Out of season')).toBe(true)
+    })
+  })
+
+  describe('Snoozed tasks', () => {
+    it('should exclude snoozed tasks until the snooze ends', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const snoozed = await taskStore.create(createValidInput({ name: 'Snoozed' }))
+      const expired = await taskStore.create(createValidInput({ name: 'Snooze over' }))
+      await taskStore.snooze(snoozed!.id, new Date(Date.now() + 60 * 60 * 1000))
+      // A snooze that has already ended (e.g. synced from another device)
+      await db.tasks.update(expired!.id, { snoozedUntil: new Date(Date.now() - 1000).toISOString() })
+      await taskStore.loadTasks()
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+
+      const names = result.suggestions.map((s) => s.task.name)
+      expect(names).not.toContain('Snoozed')
+      expect(names).toContain('Snooze over')
+    })
+  })
+
+  describe('Places', () => {
+    it('should hide tasks tied to another place', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'At the office', placeId: 'office' }))
+      await taskStore.create(createValidInput({ name: 'At home', placeId: 'home' }))
+      await taskStore.create(createValidInput({ name: 'Anywhere' }))
+
+      const result = await suggestionStore.generateSuggestions(
+        createContext({ contextFilters: { placeId: 'office' } })
+      )
+
+      const names = result.suggestions.map((s) => s.task.name)
+      expect(names).toEqual(expect.arrayContaining(['At the office', 'Anywhere']))
+      expect(names).not.toContain('At home')
+    })
+
+    it('should show tasks for every place when no place is chosen', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'At the office', placeId: 'office' }))
+      await taskStore.create(createValidInput({ name: 'At home', placeId: 'home' }))
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+
+      expect(result.suggestions).toHaveLength(2)
+    })
   })
 
   describe('T049g: suggestionStore returns max 5 suggestions sorted by score', () => {
@@ -250,7 +403,7 @@ describe('suggestionStore integration with IndexedDB', () => {
         createValidInput({
           name: 'Task B',
           timeEstimateMinutes: 30,
-          dependsOnId: taskA!.id
+          dependsOnIds: [taskA!.id]
         })
       )
 
@@ -281,14 +434,14 @@ describe('suggestionStore integration with IndexedDB', () => {
         createValidInput({
           name: 'Task B',
           timeEstimateMinutes: 30,
-          dependsOnId: taskA!.id
+          dependsOnIds: [taskA!.id]
         })
       )
       await taskStore.create(
         createValidInput({
           name: 'Task C',
           timeEstimateMinutes: 30,
-          dependsOnId: taskB!.id
+          dependsOnIds: [taskB!.id]
         })
       )
 
@@ -311,6 +464,26 @@ describe('suggestionStore integration with IndexedDB', () => {
     })
   })
 
+  describe('Just unblocked tasks', () => {
+    it('should flag unblocked tasks in the next suggestion run only', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const prerequisite = await taskStore.create(createValidInput({ name: 'Buy paint' }))
+      const dependent = await taskStore.create(
+        createValidInput({ name: 'Paint wall', dependsOnIds: [prerequisite!.id] })
+      )
+
+      await taskStore.complete(prerequisite!.id)
+
+      await suggestionStore.generateSuggestions(createContext())
+      expect(suggestionStore.justUnblockedTaskIds).toEqual([dependent!.id])
+
+      await suggestionStore.generateSuggestions(createContext())
+      expect(suggestionStore.justUnblockedTaskIds).toEqual([])
+    })
+  })
+
   describe('Suggestion Session Storage', () => {
     it('should save suggestion session to IndexedDB', async () => {
       const taskStore = useTaskStore()
@@ -339,6 +512,287 @@ describe('suggestionStore integration with IndexedDB', () => {
       const sessions = await db.suggestionSessions.toArray()
       expect(sessions[0].contextFilters).toEqual({ effortLevel: 'low' })
     })
+
+    it('should record the action taken on the most recent session', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const task = await taskStore.create(createValidInput({ name: 'Test Task' }))
+      await suggestionStore.generateSuggestions(createContext())
+      await suggestionStore.recordAction(task!.id, 'completed')
+
+      const sessions = await db.suggestionSessions.toArray()
+      expect(sessions[0].actionTaken?.type).toBe('completed')
+      expect(sessions[0].actionTaken?.taskId).toBe(task!.id)
+      expect(sessions[0].actionTaken?.timestamp).toBeDefined()
+      expect(sessions[0].actions).toEqual([sessions[0].actionTaken])
+    })
+
+    it('should keep every action taken on a session', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const skipped = await taskStore.create(createValidInput({ name: 'Skipped Task' }))
+      const done = await taskStore.create(createValidInput({ name: 'Done Task' }))
+      await suggestionStore.generateSuggestions(createContext())
+      await suggestionStore.recordAction(skipped!.id, 'dismissed')
+      await suggestionStore.recordAction(done!.id, 'completed')
+
+      const sessions = await db.suggestionSessions.toArray()
+      expect(sessions[0].actions!.map((a) => [a.type, a.taskId])).toEqual([
+        ['dismissed', skipped!.id],
+        ['completed', done!.id]
+      ])
+      expect(sessions[0].actionTaken?.taskId).toBe(done!.id)
+    })
+
+    it('should not record an action for a task that was not suggested', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'Suggested Task' }))
+      await suggestionStore.generateSuggestions(createContext())
+      const later = await taskStore.create(createValidInput({ name: 'Later Task' }))
+
+      await suggestionStore.recordAction(later!.id, 'dismissed')
+
+      const sessions = await db.suggestionSessions.toArray()
+      expect(sessions[0].actionTaken).toBeUndefined()
+      expect(sessions[0].actions).toBeUndefined()
+    })
+
+    it('should load session history most recent first', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'Test Task', timeEstimateMinutes: 15 }))
+      await db.suggestionSessions.add({
+        timestamp: '2025-01-01T10:00:00Z',
+        availableTimeMinutes: 15,
+        suggestions: []
+      })
+      await db.suggestionSessions.add({
+        timestamp: '2025-01-02T10:00:00Z',
+        availableTimeMinutes: 30,
+        suggestions: []
+      })
+
+      await suggestionStore.loadSessionHistory()
+
+      expect(suggestionStore.sessionHistory.map((s) => s.availableTimeMinutes)).toEqual([30, 15])
+    })
+  })
+
+  describe('Scoring profile', () => {
+    beforeEach(async () => {
+      await db.scoringProfile.clear()
+    })
+
+    it('should default to equal weights when no profile is saved', async () => {
+      const suggestionStore = useSuggestionStore()
+      await suggestionStore.loadScoringProfile()
+
+      expect(Object.values(suggestionStore.scoringProfile.weights).every((w) => w === 1)).toBe(true)
+    })
+
+    it('should persist a saved profile to IndexedDB', async () => {
+      const suggestionStore = useSuggestionStore()
+      await suggestionStore.loadScoringProfile()
+
+      const saved = await suggestionStore.saveScoringProfile({
+        ...suggestionStore.scoringProfile,
+        weights: { ...suggestionStore.scoringProfile.weights, priority: 3 },
+        maxDeadlineDays: 14
+      })
+
+      expect(saved).toBe(true)
+      const stored = await db.scoringProfile.get(1)
+      expect(stored?.weights.priority).toBe(3)
+      expect(stored?.maxDeadlineDays).toBe(14)
+    })
+
+    it('should reject an invalid profile', async () => {
+      const suggestionStore = useSuggestionStore()
+      await suggestionStore.loadScoringProfile()
+
+      const saved = await suggestionStore.saveScoringProfile({
+        ...suggestionStore.scoringProfile,
+        maxOverdueDays: 0
+      })
+
+      expect(saved).toBe(false)
+      expect(suggestionStore.error).toBeTruthy()
+      expect(await db.scoringProfile.get(1)).toBeUndefined()
+    })
+
+    it('should rank suggestions with the saved weights', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(
+        createValidInput({ name: 'Critical', priority: 'critical', timeEstimateMinutes: 10 })
+      )
+      await taskStore.create(
+        createValidInput({ name: 'Filler', priority: 'optional', timeEstimateMinutes: 60 })
+      )
+
+      await suggestionStore.loadScoringProfile()
+      await suggestionStore.saveScoringProfile({
+        ...suggestionStore.scoringProfile,
+        weights: { ...suggestionStore.scoringProfile.weights, priority: 5 }
+      })
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+      expect(result.suggestions[0].task.name).toBe('Critical')
+    })
+
+    it('should restore equal weights on reset', async () => {
+      const suggestionStore = useSuggestionStore()
+      await suggestionStore.loadScoringProfile()
+      await suggestionStore.saveScoringProfile({
+        ...suggestionStore.scoringProfile,
+        weights: { ...suggestionStore.scoringProfile.weights, priority: 3 }
+      })
+
+      await suggestionStore.resetScoringProfile()
+
+      expect(suggestionStore.scoringProfile.weights.priority).toBe(1)
+      expect(await db.scoringProfile.get(1)).toBeUndefined()
+    })
+
+    it('should store scoring factors with each saved suggestion', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      await taskStore.create(createValidInput({ name: 'Factor Task' }))
+      await suggestionStore.generateSuggestions(createContext())
+
+      const session = await db.suggestionSessions.orderBy('timestamp').last()
+      expect(session?.suggestions[0].factors?.priority).toBeDefined()
+    })
+
+    describe('adaptive weights', () => {
+      /**
+       * Seed sessions where critical tasks were completed and optional ones dismissed
+       */
+      async function seedPriorityDrivenSessions(count: number): Promise<void> {
+        const sessions: SuggestionSession[] = []
+        for (let i = 0; i < count; i++) {
+          const completed = i % 2 === 0
+          sessions.push({
+            timestamp: new Date(Date.now() - (count - i) * 60000).toISOString(),
+            availableTimeMinutes: 30,
+            suggestions: [{
+              taskId: `task-${i}`,
+              score: 0.5,
+              urgency: 0,
+              reason: 'Test',
+              factors: {
+                urgency: 0,
+                deadlineProximity: null,
+                priority: completed ? 1 : 0,
+                postponements: 0,
+                timeMatch: 0.5,
+                effortMatch: null,
+                locationMatch: null
+              }
+            }],
+            actionTaken: {
+              type: completed ? 'completed' : 'dismissed',
+              taskId: `task-${i}`,
+              timestamp: new Date().toISOString()
+            }
+          })
+        }
+        await db.suggestionSessions.bulkAdd(sessions)
+      }
+
+      it('should learn weights when adaptive mode is enabled', async () => {
+        const suggestionStore = useSuggestionStore()
+        await seedPriorityDrivenSessions(20)
+
+        await suggestionStore.setAdaptiveScoring(true)
+
+        const stored = await db.scoringProfile.get(1)
+        expect(stored?.adaptive).toBe(true)
+        expect(stored?.learnedWeights?.priority).toBeGreaterThan(1)
+        expect(stored?.learnedFromSamples).toBe(20)
+        expect(suggestionStore.effectiveScoringProfile.weights).toEqual(stored?.learnedWeights)
+      })
+
+      it('should not learn weights without enough history', async () => {
+        const suggestionStore = useSuggestionStore()
+        await seedPriorityDrivenSessions(4)
+
+        await suggestionStore.setAdaptiveScoring(true)
+
+        expect(suggestionStore.scoringProfile.adaptive).toBe(true)
+        expect(suggestionStore.scoringProfile.learnedWeights).toBeUndefined()
+        expect(suggestionStore.effectiveScoringProfile.weights.priority).toBe(1)
+      })
+
+      it('should keep manual weights in effect when adaptive mode is off', async () => {
+        const suggestionStore = useSuggestionStore()
+        await seedPriorityDrivenSessions(20)
+
+        await suggestionStore.setAdaptiveScoring(true)
+        await suggestionStore.setAdaptiveScoring(false)
+
+        expect(suggestionStore.scoringProfile.learnedWeights).toBeDefined()
+        expect(suggestionStore.effectiveScoringProfile.weights.priority).toBe(1)
+      })
+
+      it('should forget learned weights on reset', async () => {
+        const suggestionStore = useSuggestionStore()
+        await seedPriorityDrivenSessions(20)
+        await suggestionStore.setAdaptiveScoring(true)
+
+        await suggestionStore.resetLearnedWeights()
+
+        const stored = await db.scoringProfile.get(1)
+        expect(stored?.learnedWeights).toBeUndefined()
+        expect(stored?.learnedFromSamples).toBeUndefined()
+        expect(stored?.adaptive).toBe(true)
+      })
+    })
+  })
+
+  describe('Postponement tracking', () => {
+    it('should persist a postponement when a suggestion is dismissed', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const task = await taskStore.create(createValidInput({ name: 'Avoided Task' }))
+      await suggestionStore.recordAction(task!.id, 'dismissed')
+      await suggestionStore.recordAction(task!.id, 'postponed')
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.postponements?.count).toBe(2)
+      expect(stored?.postponements?.timestamps).toHaveLength(2)
+      expect(taskStore.taskById(task!.id)?.postponements?.count).toBe(2)
+    })
+
+    it('should not record a postponement when a suggestion is completed', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const task = await taskStore.create(createValidInput({ name: 'Done Task' }))
+      await suggestionStore.recordAction(task!.id, 'completed')
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.postponements).toBeUndefined()
+    })
+
+    it('should expose postponements in the scoring factors of later suggestions', async () => {
+      const taskStore = useTaskStore()
+      const suggestionStore = useSuggestionStore()
+
+      const task = await taskStore.create(createValidInput({ name: 'Skipped Task' }))
+      await suggestionStore.recordAction(task!.id, 'dismissed')
+
+      const result = await suggestionStore.generateSuggestions(createContext())
+      expect(result.suggestions[0].factors.postponements).toBeGreaterThan(0)
+    })
   })
 })
 
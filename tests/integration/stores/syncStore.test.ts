@@ -14,6 +14,9 @@ import {
   getBackupLastModified,
   createBackupPayload
 } from '@/services/googleDrive'
+import { addPurgedTaskIds } from '@/services/trash'
+import { tickClock } from '@/services/hlc'
+import { compareClocks, formatClock } from '@/utils/hlc'
 
 // Mock Google Drive service functions
 vi.mock('@/services/googleDrive', async (importOriginal) => {
@@ -49,12 +52,14 @@ describe('SyncStore Integration Tests', () => {
     // Clear database before each test
     await db.tasks.clear()
     await db.syncState.clear()
+    await db.syncBases.clear()
   })
 
   afterEach(async () => {
     vi.clearAllMocks()
     await db.tasks.clear()
     await db.syncState.clear()
+    await db.syncBases.clear()
   })
 
   describe('Access token storage', () => {
@@ -186,6 +191,74 @@ describe('SyncStore Integration Tests', () => {
     })
   })
 
+  describe('addPendingChanges records a change-set', () => {
+    it('should queue all changes with a single write', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+      const putSpy = vi.spyOn(db.syncState, 'put')
+
+      await syncStore.addPendingChanges([
+        { taskId: 'uuid-1', operation: 'update', data: createTestTask({ id: 'uuid-1' }) },
+        { taskId: 'uuid-2', operation: 'delete' }
+      ])
+
+      expect(putSpy).toHaveBeenCalledTimes(1)
+      const syncState = await db.syncState.get(1)
+      expect(syncState?.pendingChanges?.map((c) => c.taskId)).toEqual(['uuid-1', 'uuid-2'])
+      expect(syncState?.pendingChanges?.[0].data?.id).toBe('uuid-1')
+      putSpy.mockRestore()
+    })
+
+    it('should not write an empty change-set', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+      const putSpy = vi.spyOn(db.syncState, 'put')
+
+      await syncStore.addPendingChanges([])
+
+      expect(putSpy).not.toHaveBeenCalled()
+      putSpy.mockRestore()
+    })
+  })
+
+  describe('replacePendingChanges after undo or redo', () => {
+    it('should replace earlier changes of the same task', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+      await syncStore.addPendingChange('uuid-1', 'update')
+      await syncStore.addPendingChange('uuid-2', 'update')
+
+      await syncStore.replacePendingChanges([{ taskId: 'uuid-1', operation: 'delete' }])
+
+      expect(syncStore.syncState?.pendingChanges.map((c) => [c.taskId, c.operation])).toEqual([
+        ['uuid-2', 'update'],
+        ['uuid-1', 'delete']
+      ])
+    })
+
+    it('should keep an unsynced task a creation', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+      await syncStore.addPendingChange('uuid-1', 'create')
+
+      await syncStore.replacePendingChanges([{ taskId: 'uuid-1', operation: 'update' }])
+
+      expect(syncStore.syncState?.pendingChanges.map((c) => c.operation)).toEqual(['create'])
+    })
+
+    it('should drop an unsynced task that is removed again', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+      await syncStore.addPendingChange('uuid-1', 'create')
+      await syncStore.addPendingChange('uuid-1', 'update')
+
+      await syncStore.replacePendingChanges([{ taskId: 'uuid-1', operation: 'delete' }])
+
+      expect(syncStore.syncState?.pendingChanges).toHaveLength(0)
+      expect((await db.syncState.get(1))?.pendingChanges).toHaveLength(0)
+    })
+  })
+
   describe('T082f: clearPendingChanges after successful sync', () => {
     it('should clear all pending changes', async () => {
       const syncStore = useSyncStore()
@@ -341,6 +414,42 @@ describe('SyncStore Integration Tests', () => {
       expect(syncState?.conflicts).toHaveLength(0)
     })
 
+    it('should resolve conflict with a task put together field by field', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+
+      const localTask = createTestTask({ id: 'uuid-1', name: 'Local', priority: 'critical' })
+      const remoteTask = createTestTask({ id: 'uuid-1', name: 'Remote', priority: 'optional' })
+      await syncStore.addConflict(localTask, remoteTask)
+
+      const resolved = await syncStore.resolveConflict('uuid-1', { ...localTask, priority: 'optional' })
+
+      expect(resolved?.name).toBe('Local')
+      expect(resolved?.priority).toBe('optional')
+      expect((await db.tasks.get('uuid-1'))?.priority).toBe('optional')
+      expect(syncStore.conflicts).toHaveLength(0)
+    })
+
+    it('should resolve all conflicts with the same side', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+
+      await syncStore.addConflict(
+        createTestTask({ id: 'uuid-1', name: 'Local 1' }),
+        createTestTask({ id: 'uuid-1', name: 'Remote 1' })
+      )
+      await syncStore.addConflict(
+        createTestTask({ id: 'uuid-2', name: 'Local 2' }),
+        createTestTask({ id: 'uuid-2', name: 'Remote 2' })
+      )
+
+      expect(await syncStore.resolveAllConflicts('remote')).toBe(2)
+
+      expect((await db.tasks.get('uuid-1'))?.name).toBe('Remote 1')
+      expect((await db.tasks.get('uuid-2'))?.name).toBe('Remote 2')
+      expect(syncStore.hasConflicts).toBe(false)
+    })
+
     it('should set syncStatus to conflict when conflicts exist', async () => {
       const syncStore = useSyncStore()
       await syncStore.loadSyncState()
@@ -373,6 +482,22 @@ describe('SyncStore Integration Tests', () => {
       expect(backup.tasks).toHaveLength(2)
     })
 
+    it('should leave archived tasks out of an export only when asked to', async () => {
+      const syncStore = useSyncStore()
+      await syncStore.loadSyncState()
+
+      await db.tasks.bulkAdd([
+        createTestTask({ id: 'uuid-1', name: 'Task 1' }),
+        createTestTask({ id: 'uuid-2', name: 'Task 2', status: 'archived' })
+      ])
+
+      const backup = await syncStore.exportToBackup()
+      const exported = await syncStore.exportToBackup({ includeArchived: false })
+
+      expect(backup.tasks).toHaveLength(2)
+      expect(exported.tasks.map((t) => t.id)).toEqual(['uuid-1'])
+    })
+
     it('should import tasks from backup', async () => {
       const syncStore = useSyncStore()
       await syncStore.loadSyncState()
@@ -572,6 +697,227 @@ describe('SyncStore Integration Tests', () => {
         expect(syncStore.syncStatus).toBe('conflict')
       })
 
+      describe('field-level merge', () => {
+        const base = () =>
+          createTestTask({
+            id: 'merge-uuid',
+            name: 'Original',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z'
+          })
+
+        async function setUp(localChanges: Partial<Task>, remoteChanges: Partial<Task>) {
+          const syncStore = useSyncStore()
+          await syncStore.loadSyncState()
+          await syncStore.storeAccessToken('mock-token')
+          await syncStore.clearPendingChanges() // This sets lastSyncedAt
+          await db.syncBases.put(base())
+
+          await db.tasks.add({ ...base(), ...localChanges, updatedAt: new Date(Date.now() + 1000).toISOString() })
+          vi.mocked(downloadBackup).mockResolvedValueOnce({
+            version: 1,
+            exportTimestamp: new Date().toISOString(),
+            checksum: 'test',
+            tasks: [{ ...base(), ...remoteChanges, updatedAt: new Date(Date.now() + 2000).toISOString() }]
+          })
+          vi.mocked(uploadBackup).mockResolvedValueOnce('file-id')
+          return syncStore
+        }
+
+        it('should merge edits to different fields without a conflict', async () => {
+          const syncStore = await setUp({ name: 'Renamed here' }, { priority: 'critical' })
+
+          const result = await syncStore.performSync()
+
+          expect(result.conflictsDetected).toBe(0)
+          const merged = await db.tasks.get('merge-uuid')
+          expect(merged?.name).toBe('Renamed here')
+          expect(merged?.priority).toBe('critical')
+          const uploaded = vi.mocked(uploadBackup).mock.calls[0]![1]
+          expect(uploaded.tasks[0]!.name).toBe('Renamed here')
+          expect(uploaded.tasks[0]!.priority).toBe('critical')
+          // The merged task is the base of the next merge
+          expect((await db.syncBases.get('merge-uuid'))?.priority).toBe('critical')
+        })
+
+        it('should only report fields changed differently on both devices', async () => {
+          const syncStore = await setUp({ name: 'Name here', location: 'outside' }, { name: 'Name there' })
+
+          const result = await syncStore.performSync()
+
+          expect(result.conflictsDetected).toBe(1)
+          const conflict = syncStore.conflicts[0]!
+          expect(conflict.conflictingFields).toEqual(['name'])
+          expect(conflict.mergedData?.location).toBe('outside')
+        })
+
+        it('should keep merged fields when a conflict is resolved', async () => {
+          const syncStore = await setUp({ name: 'Name here' }, { name: 'Name there', effortLevel: 'high' })
+          await syncStore.performSync()
+
+          const resolved = await syncStore.resolveConflict('merge-uuid', 'local')
+
+          expect(resolved?.name).toBe('Name here')
+          expect(resolved?.effortLevel).toBe('high')
+        })
+
+        it('should not bring a resolved conflict back on the next sync', async () => {
+          const syncStore = await setUp({ name: 'Name here' }, { name: 'Name there' })
+          const remoteBackup = vi.mocked(downloadBackup).mock.results
+          await syncStore.performSync()
+          const remote = (await remoteBackup[0]!.value)!
+          await syncStore.resolveConflict('merge-uuid', 'local')
+
+          vi.mocked(downloadBackup).mockResolvedValueOnce(remote)
+          vi.mocked(uploadBackup).mockResolvedValueOnce('file-id')
+          const result = await syncStore.performSync()
+
+          expect(result.conflictsDetected).toBe(0)
+          expect(syncStore.conflicts).toHaveLength(0)
+          expect((await db.tasks.get('merge-uuid'))?.name).toBe('Name here')
+        })
+
+        it('should treat the whole task as a conflict without a base', async () => {
+          const syncStore = await setUp({ name: 'Renamed here' }, { priority: 'critical' })
+          await db.syncBases.clear()
+
+          const result = await syncStore.performSync()
+
+          expect(result.conflictsDetected).toBe(1)
+          expect(syncStore.conflicts[0]!.conflictingFields).toBeUndefined()
+        })
+      })
+
+      describe('hybrid logical clocks', () => {
+        const clock = (wallTime: string, deviceId: string) =>
+          formatClock({ wallTime: new Date(wallTime).getTime(), counter: 0, deviceId })
+
+        afterEach(() => {
+          localStorage.clear()
+        })
+
+        async function syncWith(localTask: Task, remoteTask: Task) {
+          const syncStore = useSyncStore()
+          await syncStore.loadSyncState()
+          await syncStore.storeAccessToken('mock-token')
+          await db.tasks.add(localTask)
+          vi.mocked(downloadBackup).mockResolvedValueOnce({
+            version: 1,
+            exportTimestamp: new Date().toISOString(),
+            checksum: 'test',
+            tasks: [remoteTask]
+          })
+          vi.mocked(uploadBackup).mockResolvedValueOnce('file-id')
+          await syncStore.performSync()
+          return (await db.tasks.get(localTask.id))!
+        }
+
+        it('should keep the later change even when its device clock runs behind', async () => {
+          // Edited here after the remote change, on a device whose clock is an hour slow
+          const local = createTestTask({
+            id: 'skew-uuid',
+            name: 'Edited later',
+            updatedAt: '2025-12-25T11:00:00.000Z',
+            hlc: clock('2025-12-25T12:00:00.000Z', 'phone')
+          })
+          const remote = createTestTask({
+            id: 'skew-uuid',
+            name: 'Edited earlier',
+            updatedAt: '2025-12-25T11:30:00.000Z',
+            hlc: clock('2025-12-25T11:59:00.000Z', 'laptop')
+          })
+
+          expect((await syncWith(local, remote)).name).toBe('Edited later')
+        })
+
+        it('should order tasks without a clock by updatedAt', async () => {
+          const local = createTestTask({ id: 'legacy-uuid', name: 'Older', updatedAt: '2025-12-25T10:00:00.000Z' })
+          const remote = createTestTask({ id: 'legacy-uuid', name: 'Newer', updatedAt: '2025-12-25T12:00:00.000Z' })
+
+          expect((await syncWith(local, remote)).name).toBe('Newer')
+        })
+
+        it('should take the only copy changed since the base whatever the clocks say', async () => {
+          const syncStore = useSyncStore()
+          await syncStore.loadSyncState()
+          await syncStore.clearPendingChanges() // This sets lastSyncedAt
+          const base = createTestTask({
+            id: 'base-uuid',
+            name: 'Original',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-12-25T12:00:00.000Z',
+            hlc: clock('2025-12-25T12:00:00.000Z', 'laptop')
+          })
+          await db.syncBases.put(base)
+          // Changed on a device that hasn't got clocks yet, with its clock behind
+          const remote = { ...base, name: 'Changed there', updatedAt: '2025-12-25T11:00:00.000Z', hlc: undefined }
+
+          expect((await syncWith(base, remote)).name).toBe('Changed there')
+        })
+
+        it('should order later changes here after the downloaded ones', async () => {
+          const ahead = clock(new Date(Date.now() + 3_600_000).toISOString(), 'laptop')
+          const remote = createTestTask({ id: 'ahead-uuid', hlc: ahead })
+
+          await syncWith(createTestTask({ id: 'other-uuid' }), remote)
+
+          expect(compareClocks(tickClock(), ahead)).toBeGreaterThan(0)
+        })
+      })
+
+      it('should keep a restored task over its deleted remote copy', async () => {
+        const syncStore = useSyncStore()
+        await syncStore.loadSyncState()
+        await syncStore.storeAccessToken('mock-token')
+
+        // Restored locally after the remote copy was deleted
+        await db.tasks.add(createTestTask({ id: 'restored-uuid', updatedAt: '2025-12-25T12:00:00.000Z' }))
+        vi.mocked(downloadBackup).mockResolvedValueOnce({
+          version: 1,
+          exportTimestamp: new Date().toISOString(),
+          checksum: 'test',
+          tasks: [createTestTask({
+            id: 'restored-uuid',
+            deletedAt: '2025-12-25T10:00:00.000Z',
+            updatedAt: '2025-12-25T10:00:00.000Z'
+          })]
+        })
+        vi.mocked(uploadBackup).mockResolvedValueOnce('file-id')
+
+        await syncStore.performSync()
+
+        expect((await db.tasks.get('restored-uuid'))?.deletedAt).toBeUndefined()
+        const uploaded = vi.mocked(uploadBackup).mock.calls[0]![1]
+        expect(uploaded.tasks[0]!.deletedAt).toBeUndefined()
+      })
+
+      it('should not bring back tasks deleted forever on this device', async () => {
+        const syncStore = useSyncStore()
+        await syncStore.loadSyncState()
+        await syncStore.storeAccessToken('mock-token')
+        addPurgedTaskIds(['purged-uuid'])
+
+        const recentlyDeleted = new Date().toISOString()
+        vi.mocked(downloadBackup).mockResolvedValueOnce({
+          version: 1,
+          exportTimestamp: new Date().toISOString(),
+          checksum: 'test',
+          tasks: [
+            createTestTask({ id: 'purged-uuid', deletedAt: recentlyDeleted }),
+            createTestTask({ id: 'expired-uuid', deletedAt: '2020-01-01T00:00:00.000Z' })
+          ]
+        })
+        vi.mocked(uploadBackup).mockResolvedValueOnce('file-id')
+
+        await syncStore.performSync()
+
+        expect(await db.tasks.count()).toBe(0)
+        // The recent deletion still reaches other devices; the expired one is dropped
+        const uploaded = vi.mocked(uploadBackup).mock.calls[0]![1]
+        expect(uploaded.tasks.map((t) => t.id)).toEqual(['purged-uuid'])
+        localStorage.clear()
+      })
+
       it('should fail sync when not authenticated', async () => {
         const syncStore = useSyncStore()
         await syncStore.loadSyncState()
@@ -132,7 +132,7 @@ describe('TaskStore Edge Cases', () => {
         location: 'home',
         status: 'active',
         priority: 'important',
-        dependsOnId: 'dep-1',
+        dependsOnIds: ['dep-1'],
         createdAt: nowISO(),
         updatedAt: nowISO()
       }
@@ -168,7 +168,7 @@ describe('TaskStore Edge Cases', () => {
         location: 'home',
         status: 'active',
         priority: 'important',
-        dependsOnId: 'dep-1',
+        dependsOnIds: ['dep-1'],
         createdAt: nowISO(),
         updatedAt: nowISO()
       }
@@ -213,7 +213,7 @@ describe('TaskStore Edge Cases', () => {
         location: 'home',
         status: 'active',
         priority: 'important',
-        dependsOnId: 'missing-dep',
+        dependsOnIds: ['missing-dep'],
         createdAt: nowISO(),
         updatedAt: nowISO()
       }
@@ -225,6 +225,148 @@ describe('TaskStore Edge Cases', () => {
     })
   })
 
+  describe('multiple dependencies', () => {
+    function createTask(id: string, overrides: Partial<Task> = {}): Task {
+      return {
+        id,
+        name: `Task ${id}`,
+        type: 'one-off',
+        timeEstimateMinutes: 30,
+        effortLevel: 'medium',
+        location: 'home',
+        status: 'active',
+        priority: 'important',
+        createdAt: nowISO(),
+        updatedAt: nowISO(),
+        ...overrides
+      }
+    }
+
+    it('should report incomplete dependencies while any prerequisite is open', async () => {
+      const store = useTaskStore()
+
+      await db.tasks.bulkAdd([
+        createTask('dep-1', { status: 'completed' }),
+        createTask('dep-2'),
+        createTask('task-1', { dependsOnIds: ['dep-1', 'dep-2'] })
+      ])
+      await store.loadTasks()
+
+      expect(store.hasIncompleteDependencies('task-1')).toBe(true)
+
+      await store.complete('dep-2')
+      expect(store.hasIncompleteDependencies('task-1')).toBe(false)
+    })
+
+    it('should find dependent tasks through the multi-entry index', async () => {
+      const store = useTaskStore()
+
+      await db.tasks.bulkAdd([
+        createTask('dep-1'),
+        createTask('dep-2'),
+        createTask('task-1', { dependsOnIds: ['dep-1', 'dep-2'] }),
+        createTask('task-2', { dependsOnIds: ['dep-2'] })
+      ])
+
+      const dependents = await store.getDependentTasks('dep-2')
+
+      expect(dependents.map((t) => t.id).sort()).toEqual(['task-1', 'task-2'])
+    })
+
+    it('should drop duplicate dependency ids on create', async () => {
+      const store = useTaskStore()
+      await db.tasks.add(createTask('dep-1'))
+      await store.loadTasks()
+
+      const task = await store.create({
+        name: 'Dependent',
+        type: 'one-off',
+        timeEstimateMinutes: 30,
+        effortLevel: 'medium',
+        location: 'home',
+        priority: 'important',
+        dependsOnIds: ['dep-1', 'dep-1', '']
+      })
+
+      expect(task?.dependsOnIds).toEqual(['dep-1'])
+    })
+
+    it('should clear dependencies when updated with an empty list', async () => {
+      const store = useTaskStore()
+      await db.tasks.bulkAdd([
+        createTask('dep-1'),
+        createTask('task-1', { dependsOnIds: ['dep-1'] })
+      ])
+      await store.loadTasks()
+
+      await store.update({ id: 'task-1', dependsOnIds: [] })
+
+      expect(store.taskById('task-1')?.dependsOnIds).toBeUndefined()
+      expect((await db.tasks.get('task-1'))?.dependsOnIds).toBeUndefined()
+    })
+  })
+
+  describe('unblocked tasks', () => {
+    function createTask(id: string, overrides: Partial<Task> = {}): Task {
+      return {
+        id,
+        name: `Task ${id}`,
+        type: 'one-off',
+        timeEstimateMinutes: 30,
+        effortLevel: 'medium',
+        location: 'home',
+        status: 'active',
+        priority: 'important',
+        createdAt: nowISO(),
+        updatedAt: nowISO(),
+        ...overrides
+      }
+    }
+
+    it('should record tasks unblocked by completing their last prerequisite', async () => {
+      const store = useTaskStore()
+      await db.tasks.bulkAdd([
+        createTask('dep-1'),
+        createTask('task-1', { dependsOnIds: ['dep-1'] }),
+        createTask('task-2', { dependsOnIds: ['dep-1'] })
+      ])
+      await store.loadTasks()
+
+      await store.complete('dep-1')
+
+      expect(store.lastUnblockEvent?.completedTaskId).toBe('dep-1')
+      expect(store.lastUnblockEvent?.unblockedTaskIds.sort()).toEqual(['task-1', 'task-2'])
+      expect(store.justUnblockedIds.sort()).toEqual(['task-1', 'task-2'])
+    })
+
+    it('should not report tasks that still wait on another prerequisite', async () => {
+      const store = useTaskStore()
+      await db.tasks.bulkAdd([
+        createTask('dep-1'),
+        createTask('dep-2'),
+        createTask('task-1', { dependsOnIds: ['dep-1', 'dep-2'] })
+      ])
+      await store.loadTasks()
+
+      await store.complete('dep-1')
+      expect(store.lastUnblockEvent).toBeNull()
+
+      await store.complete('dep-2')
+      expect(store.lastUnblockEvent?.unblockedTaskIds).toEqual(['task-1'])
+    })
+
+    it('should hand out just-unblocked tasks only once', async () => {
+      const store = useTaskStore()
+      await db.tasks.bulkAdd([createTask('dep-1'), createTask('task-1', { dependsOnIds: ['dep-1'] })])
+      await store.loadTasks()
+
+      await store.complete('dep-1')
+
+      expect(store.consumeJustUnblocked()).toEqual(['task-1'])
+      expect(store.consumeJustUnblocked()).toEqual([])
+    })
+  })
+
   describe('getById', () => {
     it('should return task from local state if cached', async () => {
       const store = useTaskStore()
@@ -324,7 +466,7 @@ describe('TaskStore Edge Cases', () => {
         effortLevel: 'medium',
         location: 'home',
         priority: 'important',
-        dependsOnId: task1!.id
+        dependsOnIds: [task1!.id]
       })
 
       expect(task2).toBeDefined()
@@ -332,7 +474,7 @@ describe('TaskStore Edge Cases', () => {
       // Now try to update task1 to depend on task2 - this should fail (circular)
       const result = await store.update({
         id: task1!.id,
-        dependsOnId: task2!.id
+        dependsOnIds: [task2!.id]
       })
 
       expect(result).toBeUndefined()
@@ -3,9 +3,13 @@
  * T032e, T032f, T032g, T032h
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
 import { useTaskStore } from '@/stores/taskStore'
+import { useSyncStore } from '@/stores/syncStore'
+import { getPurgedTaskIds, setTrashRetentionDays } from '@/services/trash'
+import { setAutoArchiveDays } from '@/services/archive'
+import { compareClocks } from '@/utils/hlc'
 import { db } from '@/db/database'
 import type { CreateTaskInput } from '@/types/task'
 
@@ -16,11 +20,13 @@ describe('taskStore integration with IndexedDB', () => {
 
     // Clear the database before each test
     await db.tasks.clear()
+    await db.completions.clear()
   })
 
   afterEach(async () => {
     // Clean up after each test
     await db.tasks.clear()
+    await db.completions.clear()
   })
 
   // Helper to create valid task input
@@ -349,5 +355,709 @@ describe('taskStore integration with IndexedDB', () => {
       expect(updated!.recurringPattern!.nextDueDate).not.toBe(originalNextDue)
       expect(updated!.status).toBe('active') // Recurring tasks stay active
     })
+
+    it('records each recurring completion in the history table', async () => {
+      const store = useTaskStore()
+      const task = await store.create(
+        createValidInput({
+          type: 'recurring',
+          recurringPattern: {
+            intervalValue: 1,
+            intervalUnit: 'weeks',
+            lastCompletedDate: '2024-01-15T12:00:00.000Z'
+          }
+        })
+      )
+
+      await store.complete(task!.id!)
+      await store.complete(task!.id!, { note: ' Used the new mop ', actualDurationMinutes: 25 })
+
+      const history = await store.getCompletionHistory(task!.id!)
+      expect(history).toHaveLength(2)
+      expect(history[0]!.note).toBe('Used the new mop')
+      expect(history[0]!.actualDurationMinutes).toBe(25)
+    })
+
+    it('rejects invalid completion details without completing', async () => {
+      const store = useTaskStore()
+      const task = await store.create(
+        createValidInput({
+          type: 'recurring',
+          recurringPattern: {
+            intervalValue: 1,
+            intervalUnit: 'days',
+            lastCompletedDate: '2024-01-15T12:00:00.000Z'
+          }
+        })
+      )
+
+      const result = await store.complete(task!.id!, { actualDurationMinutes: 0 })
+
+      expect(result).toBeUndefined()
+      expect(store.error).toBe('Actual duration must be between 1 and 480 minutes')
+      expect(await store.getCompletionHistory(task!.id!)).toHaveLength(0)
+    })
+  })
+
+  describe('bulk actions', () => {
+    it('completes selected tasks, advancing recurring ones and completing projects', async () => {
+      const store = useTaskStore()
+      const oneOff = await store.create(createValidInput({ name: 'Wash car' }))
+      const recurring = await store.create(
+        createValidInput({
+          name: 'Water plants',
+          type: 'recurring',
+          recurringPattern: {
+            intervalValue: 3,
+            intervalUnit: 'days',
+            lastCompletedDate: '2024-01-15T12:00:00.000Z'
+          }
+        })
+      )
+      const project = await store.create(
+        createValidInput({ name: 'Garden', type: 'project', projectSession: { minSessionDurationMinutes: 30 } })
+      )
+
+      const count = await store.bulkComplete([oneOff!.id, recurring!.id, project!.id])
+
+      expect(count).toBe(3)
+      expect((await db.tasks.get(oneOff!.id))!.status).toBe('completed')
+      expect((await db.tasks.get(project!.id))!.status).toBe('completed')
+      const updated = await db.tasks.get(recurring!.id)
+      expect(updated!.recurringPattern!.lastCompletedDate).not.toBe('2024-01-15T12:00:00.000Z')
+      expect(updated!.recurringPattern!.nextDueDate > updated!.recurringPattern!.lastCompletedDate).toBe(true)
+      expect(await store.getCompletionHistory(recurring!.id)).toHaveLength(1)
+    })
+
+    it('names the tasks actually completed in the undo label', async () => {
+      const store = useTaskStore()
+      const done = await store.create(createValidInput({ name: 'Done already' }))
+      const open = await store.create(createValidInput({ name: 'Still open' }))
+      await store.bulkComplete([done!.id])
+
+      const count = await store.bulkComplete([done!.id, open!.id])
+
+      expect(count).toBe(1)
+      expect(store.undoStack[store.undoStack.length - 1]!.label).toBe('Completed 1 task')
+    })
+
+    it('publishes tasks unblocked by a bulk completion', async () => {
+      const store = useTaskStore()
+      const first = await store.create(createValidInput({ name: 'Buy paint' }))
+      const second = await store.create(createValidInput({ name: 'Paint fence', dependsOnIds: [first!.id] }))
+
+      await store.bulkComplete([first!.id])
+
+      expect(store.consumeJustUnblocked()).toEqual([second!.id])
+    })
+
+    it('archives and deletes selected tasks', async () => {
+      const store = useTaskStore()
+      const a = await store.create(createValidInput({ name: 'Old task' }))
+      const b = await store.create(createValidInput({ name: 'Example task' }))
+      const c = await store.create(createValidInput({ name: 'Another example' }))
+
+      expect(await store.bulkArchive([a!.id])).toBe(1)
+      expect(await store.bulkRemove([b!.id, c!.id])).toBe(2)
+
+      expect(store.archivedTasks.map((t) => t.id)).toEqual([a!.id])
+      expect(store.activeTasks).toHaveLength(0)
+      expect((await db.tasks.get(b!.id))!.deletedAt).toBeDefined()
+      expect(store.searchTasks('example')).toHaveLength(0)
+    })
+
+    it('sets priority, effort and location on selected tasks', async () => {
+      const store = useTaskStore()
+      const a = await store.create(createValidInput({ priority: 'optional' }))
+      const b = await store.create(createValidInput({ priority: 'critical', location: 'outside' }))
+
+      const count = await store.bulkUpdate([a!.id, b!.id], { priority: 'critical', location: 'outside' })
+
+      // b already had both values
+      expect(count).toBe(1)
+      const stored = await db.tasks.bulkGet([a!.id, b!.id])
+      expect(stored.map((t) => [t!.priority, t!.location, t!.effortLevel])).toEqual([
+        ['critical', 'outside', 'medium'],
+        ['critical', 'outside', 'medium']
+      ])
+    })
+
+    it('skips unknown and deleted tasks', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      await store.remove(task!.id)
+
+      expect(await store.bulkArchive([task!.id, 'missing'])).toBe(0)
+      expect(store.error).toBeNull()
+    })
+  })
+
+  describe('undo and redo', () => {
+    it('restores a deleted task', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Mow lawn' }))
+      await store.remove(task!.id)
+
+      expect(await store.undo()).toBe(true)
+
+      expect((await db.tasks.get(task!.id))!.deletedAt).toBeUndefined()
+      expect(store.activeTasks.map((t) => t.id)).toEqual([task!.id])
+      expect(store.searchTasks('mow')).toHaveLength(1)
+    })
+
+    it('rolls a recurring completion back and forward again', async () => {
+      const store = useTaskStore()
+      const task = await store.create(
+        createValidInput({
+          type: 'recurring',
+          recurringPattern: {
+            intervalValue: 3,
+            intervalUnit: 'days',
+            lastCompletedDate: '2024-01-15T12:00:00.000Z'
+          }
+        })
+      )
+      const originalPattern = task!.recurringPattern!
+
+      await store.complete(task!.id)
+      const completedPattern = store.taskById(task!.id)!.recurringPattern!
+
+      // Completing goes through update internally but is a single operation
+      expect(store.undoStack.map((e) => e.label)).toEqual(['Added "Test Task"', 'Completed "Test Task"'])
+
+      await store.undo()
+      expect((await db.tasks.get(task!.id))!.recurringPattern).toEqual(originalPattern)
+      expect(await store.getCompletionHistory(task!.id)).toHaveLength(0)
+
+      await store.redo()
+      expect((await db.tasks.get(task!.id))!.recurringPattern).toEqual(completedPattern)
+      expect(await store.getCompletionHistory(task!.id)).toHaveLength(1)
+    })
+
+    it('removes an undone creation for good', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      await store.undo()
+
+      expect(await db.tasks.get(task!.id)).toBeUndefined()
+      expect(store.tasks).toHaveLength(0)
+      expect(store.canRedo).toBe(true)
+    })
+
+    it('gives restored tasks a new updatedAt', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Before' }))
+      await store.update({ id: task!.id, name: 'After' })
+      const editedAt = store.taskById(task!.id)!.updatedAt
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(Date.now() + 60_000))
+      await store.undo()
+      vi.useRealTimers()
+
+      const restored = store.taskById(task!.id)!
+      expect(restored.name).toBe('Before')
+      expect(restored.updatedAt > editedAt).toBe(true)
+    })
+
+    it('undoes a bulk action in one step', async () => {
+      const store = useTaskStore()
+      const a = await store.create(createValidInput({ name: 'Example one' }))
+      const b = await store.create(createValidInput({ name: 'Example two' }))
+      await store.bulkRemove([a!.id, b!.id])
+
+      await store.undo()
+
+      expect(store.activeTasks).toHaveLength(2)
+    })
+
+    it('clears redo on a new operation and keeps the last 20 operations', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      await store.update({ id: task!.id, name: 'Renamed' })
+      await store.undo()
+      expect(store.canRedo).toBe(true)
+
+      await store.update({ id: task!.id, priority: 'critical' })
+      expect(store.canRedo).toBe(false)
+
+      for (let i = 0; i < 25; i++) {
+        await store.update({ id: task!.id, timeEstimateMinutes: 10 + i })
+      }
+      expect(store.undoStack).toHaveLength(20)
+    })
+
+    it('does not record failed operations', async () => {
+      const store = useTaskStore()
+      await store.update({ id: 'missing', name: 'Nope' })
+
+      expect(store.canUndo).toBe(false)
+      expect(await store.undo()).toBe(false)
+    })
+
+    describe('with backup enabled', () => {
+      beforeEach(async () => {
+        await db.syncState.clear()
+        const syncStore = useSyncStore()
+        await syncStore.storeAccessToken('token')
+        vi.spyOn(syncStore, 'scheduleDebouncedSync').mockImplementation(() => {})
+      })
+
+      afterEach(async () => {
+        vi.restoreAllMocks()
+        await db.syncState.clear()
+      })
+
+      it('leaves nothing queued when an unsynced creation is undone', async () => {
+        const store = useTaskStore()
+        const syncStore = useSyncStore()
+        const task = await store.create(createValidInput())
+        await store.update({ id: task!.id, name: 'Renamed' })
+
+        await store.undo()
+        await store.undo()
+
+        expect(await db.tasks.get(task!.id)).toBeUndefined()
+        expect(syncStore.syncState!.pendingChanges).toHaveLength(0)
+      })
+
+      it('queues a soft delete when a synced creation is undone', async () => {
+        const store = useTaskStore()
+        const syncStore = useSyncStore()
+        const task = await store.create(createValidInput())
+        await syncStore.clearPendingChanges()
+
+        await store.undo()
+
+        expect((await db.tasks.get(task!.id))!.deletedAt).toBeDefined()
+        expect(syncStore.syncState!.pendingChanges.map((c) => [c.taskId, c.operation])).toEqual([
+          [task!.id, 'delete']
+        ])
+      })
+
+      it('replaces the queued change of an undone edit', async () => {
+        const store = useTaskStore()
+        const syncStore = useSyncStore()
+        const task = await store.create(createValidInput({ name: 'Original' }))
+        await syncStore.clearPendingChanges()
+        await store.update({ id: task!.id, name: 'Edited' })
+
+        await store.undo()
+
+        const queued = syncStore.syncState!.pendingChanges
+        expect(queued).toHaveLength(1)
+        expect(queued[0]!.operation).toBe('update')
+        expect(queued[0]!.data!.name).toBe('Original')
+      })
+    })
+  })
+
+  describe('trash', () => {
+    afterEach(() => {
+      localStorage.clear()
+    })
+
+    it('lists deleted tasks, most recently deleted first', async () => {
+      const store = useTaskStore()
+      const a = await store.create(createValidInput({ name: 'First' }))
+      const b = await store.create(createValidInput({ name: 'Second' }))
+      await db.tasks.update(a!.id, { deletedAt: '2024-01-02T00:00:00.000Z' })
+      await db.tasks.update(b!.id, { deletedAt: '2024-01-05T00:00:00.000Z' })
+      await store.loadTasks()
+
+      expect(store.deletedTasks.map((t) => t.name)).toEqual(['Second', 'First'])
+    })
+
+    it('restores a deleted task', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Clean gutters' }))
+      await store.remove(task!.id)
+
+      const restored = await store.restore(task!.id)
+
+      expect(restored!.deletedAt).toBeUndefined()
+      expect((await db.tasks.get(task!.id))!.deletedAt).toBeUndefined()
+      expect(store.deletedTasks).toHaveLength(0)
+      expect(store.searchTasks('gutters')).toHaveLength(1)
+    })
+
+    it('only restores tasks that are in the trash', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      expect(await store.restore(task!.id)).toBeUndefined()
+      expect(store.error).toBe('Task not found in trash')
+    })
+
+    it('deletes tasks forever and remembers them for sync', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      const active = await store.create(createValidInput({ name: 'Keep me' }))
+      await store.remove(task!.id)
+
+      expect(await store.purge([task!.id, active!.id])).toBe(1)
+
+      expect(await db.tasks.get(task!.id)).toBeUndefined()
+      expect(await db.tasks.get(active!.id)).toBeDefined()
+      expect(getPurgedTaskIds().has(task!.id)).toBe(true)
+      // Undoing the delete can't bring a purged task back
+      expect(store.undoStack.some((e) => e.after.some((s) => s.id === task!.id))).toBe(false)
+    })
+
+    it('cleans up with the retention period chosen on this device', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString()
+      await db.tasks.update(task!.id, { deletedAt: tenDaysAgo })
+
+      expect(await store.cleanupDeletedTasks()).toBe(0)
+
+      setTrashRetentionDays(7)
+      expect(await store.cleanupDeletedTasks()).toBe(1)
+      expect(await db.tasks.get(task!.id)).toBeUndefined()
+    })
+  })
+
+  describe('archive', () => {
+    afterEach(() => {
+      localStorage.clear()
+    })
+
+    it('keeps the completion time while a task is archived', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      const completed = await store.complete(task!.id)
+
+      const archived = await store.updateStatus(task!.id, 'archived')
+
+      expect(completed!.completedAt).toBeDefined()
+      expect(archived!.completedAt).toBe(completed!.completedAt)
+      expect(store.archivedTasks.map((t) => t.id)).toEqual([task!.id])
+    })
+
+    it('unarchives completed tasks as completed and others as active', async () => {
+      const store = useTaskStore()
+      const done = await store.create(createValidInput({ name: 'Done' }))
+      const shelved = await store.create(createValidInput({ name: 'Shelved' }))
+      await store.complete(done!.id)
+      await store.bulkArchive([done!.id, shelved!.id])
+
+      expect((await store.unarchive(done!.id))!.status).toBe('completed')
+      expect((await store.unarchive(shelved!.id))!.status).toBe('active')
+      expect(store.undoStack[store.undoStack.length - 1]!.label).toBe('Unarchived "Shelved"')
+    })
+
+    it('clears the completion time when a task is reopened', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      await store.complete(task!.id)
+
+      await store.updateStatus(task!.id, 'active')
+
+      expect(store.taskById(task!.id)!.completedAt).toBeUndefined()
+      expect((await db.tasks.get(task!.id))!.completedAt).toBeUndefined()
+    })
+
+    it('keeps dependents unblocked once a completed prerequisite is archived', async () => {
+      const store = useTaskStore()
+      const first = await store.create(createValidInput({ name: 'Buy paint' }))
+      const second = await store.create(createValidInput({ name: 'Paint fence', dependsOnIds: [first!.id] }))
+      const shelved = await store.create(createValidInput({ name: 'Buy brushes' }))
+      const third = await store.create(createValidInput({ name: 'Paint shed', dependsOnIds: [shelved!.id] }))
+
+      await store.complete(first!.id)
+      await store.bulkArchive([first!.id, shelved!.id])
+
+      expect(store.hasIncompleteDependencies(second!.id)).toBe(false)
+      // Archiving a task that was never done doesn't count as doing it
+      expect(store.hasIncompleteDependencies(third!.id)).toBe(true)
+    })
+
+    it('archives one-off tasks completed longer ago than the auto-archive period', async () => {
+      const store = useTaskStore()
+      const old = await store.create(createValidInput({ name: 'Old' }))
+      const recent = await store.create(createValidInput({ name: 'Recent' }))
+      const open = await store.create(createValidInput({ name: 'Open' }))
+      await store.bulkComplete([old!.id, recent!.id])
+      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString()
+      await db.tasks.update(old!.id, { completedAt: tenDaysAgo })
+      await store.loadTasks()
+      setAutoArchiveDays(7)
+
+      expect(await store.autoArchiveCompleted()).toBe(1)
+
+      expect(store.taskById(old!.id)!.status).toBe('archived')
+      expect((await db.tasks.get(old!.id))!.status).toBe('archived')
+      expect(store.taskById(recent!.id)!.status).toBe('completed')
+      expect(store.taskById(open!.id)!.status).toBe('active')
+      // Automatic archiving isn't offered for undo
+      expect(store.undoStack.some((e) => e.label.startsWith('Archived'))).toBe(false)
+    })
+
+    it('does not auto-archive when turned off', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      await store.complete(task!.id)
+      await db.tasks.update(task!.id, { completedAt: '2020-01-01T00:00:00.000Z' })
+      await store.loadTasks()
+
+      expect(await store.autoArchiveCompleted(0)).toBe(0)
+      expect(store.taskById(task!.id)!.status).toBe('completed')
+    })
+  })
+
+  describe('logSession', () => {
+    const createProjectInput = () =>
+      createValidInput({
+        type: 'project',
+        timeEstimateMinutes: 600,
+        projectSession: { minSessionDurationMinutes: 30 }
+      })
+
+    it('should accept a total project estimate above the single-task limit', async () => {
+      const store = useTaskStore()
+
+      const task = await store.create(createProjectInput())
+
+      expect(task).toBeDefined()
+      expect(task!.timeEstimateMinutes).toBe(600)
+    })
+
+    it('should append sessions and keep the project active', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createProjectInput())
+
+      await store.logSession(task!.id, 40)
+      await store.logSession(task!.id, 25)
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.sessionLogs?.map((l) => l.durationMinutes)).toEqual([40, 25])
+      expect(stored?.status).toBe('active')
+    })
+
+    it('should reject sessions on non-project tasks', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      const result = await store.logSession(task!.id, 30)
+
+      expect(result).toBeUndefined()
+      expect(store.error).toBe('Only project tasks can log sessions')
+    })
+
+    it('should reject out-of-range durations', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createProjectInput())
+
+      const result = await store.logSession(task!.id, 0)
+
+      expect(result).toBeUndefined()
+      expect(store.error).toBe('Session duration must be between 1 and 480 minutes')
+    })
+  })
+
+  describe('tags', () => {
+    it('should store tags lowercase without duplicates', async () => {
+      const store = useTaskStore()
+
+      const task = await store.create(createValidInput({ tags: ['Computer', ' computer', '#Phone'] }))
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.tags).toEqual(['computer', 'phone'])
+    })
+
+    it('should find tasks by tag with the multi-entry index', async () => {
+      const store = useTaskStore()
+      const tagged = await store.create(createValidInput({ name: 'Email', tags: ['computer'] }))
+      await store.create(createValidInput({ name: 'Groceries', tags: ['shop'] }))
+
+      const result = await store.getTasksByTag('Computer')
+
+      expect(result.map((t) => t.id)).toEqual([tagged!.id])
+    })
+
+    it('should list every tag in use', async () => {
+      const store = useTaskStore()
+      await store.create(createValidInput({ tags: ['phone', 'car'] }))
+      await store.create(createValidInput({ tags: ['computer', 'car'] }))
+
+      expect(store.allTags).toEqual(['car', 'computer', 'phone'])
+    })
+
+    it('should remove tags when updated with an empty list', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ tags: ['car'] }))
+
+      await store.update({ id: task!.id, tags: [] })
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.tags).toBeUndefined()
+      expect(store.allTags).toEqual([])
+    })
+  })
+
+  describe('notes', () => {
+    it('should store trimmed notes', async () => {
+      const store = useTaskStore()
+
+      const task = await store.create(createValidInput({ notes: '  Filter: **HEPA 12**\n' }))
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.notes).toBe('Filter: **HEPA 12**')
+    })
+
+    it('should remove notes when updated with blank text', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ notes: 'Call 0123 456789' }))
+
+      await store.update({ id: task!.id, notes: '  ' })
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored).not.toHaveProperty('notes')
+    })
+
+    it('should reject overlong notes', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      const result = await store.update({ id: task!.id, notes: 'x'.repeat(5001) })
+
+      expect(result).toBeUndefined()
+      expect(store.error).toContain('Notes must be at most 5000 characters')
+    })
+  })
+
+  describe('search', () => {
+    it('should find tasks loaded from IndexedDB', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Renew passport', tags: ['documents'] }))
+      setActivePinia(createPinia())
+      const freshStore = useTaskStore()
+
+      await freshStore.loadTasks()
+
+      expect(freshStore.searchTasks('passprt').map((t) => t.id)).toEqual([task!.id])
+      expect(freshStore.searchTasks('#doc').map((t) => t.id)).toEqual([task!.id])
+    })
+
+    it('should search notes', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Replace filter' }))
+
+      await store.update({ id: task!.id, notes: 'Part number HX-4410' })
+
+      expect(store.searchTasks('hx 4410').map((t) => t.id)).toEqual([task!.id])
+    })
+
+    it('should keep the index in step with updates and deletes', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput({ name: 'Buy milk' }))
+      expect(store.searchTasks('milk')).toHaveLength(1)
+
+      await store.update({ id: task!.id, name: 'Buy bread' })
+      expect(store.searchTasks('milk')).toHaveLength(0)
+      expect(store.searchTasks('bread')).toHaveLength(1)
+
+      await store.remove(task!.id)
+      expect(store.searchTasks('bread')).toHaveLength(0)
+    })
+  })
+
+  describe('snooze', () => {
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+
+    it('should store the snooze date on the task', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      const until = inDays(3)
+
+      await store.snooze(task!.id, until)
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.snoozedUntil).toBe(until.toISOString())
+      expect(store.taskById(task!.id)?.snoozedUntil).toBe(until.toISOString())
+    })
+
+    it('should reject a snooze date in the past', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      const result = await store.snooze(task!.id, inDays(-1))
+
+      expect(result).toBeUndefined()
+      expect(store.error).toBe('Snooze date must be in the future')
+    })
+
+    it('should clear the snooze when woken up', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+      await store.snooze(task!.id, inDays(3))
+
+      await store.unsnooze(task!.id)
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.snoozedUntil).toBeUndefined()
+    })
+
+    it('should end the snooze when a recurring task is done anyway', async () => {
+      const store = useTaskStore()
+      const task = await store.create(
+        createValidInput({
+          type: 'recurring',
+          recurringPattern: {
+            intervalValue: 1,
+            intervalUnit: 'weeks',
+            lastCompletedDate: new Date().toISOString()
+          }
+        })
+      )
+      await store.snooze(task!.id, inDays(3))
+
+      const result = await store.complete(task!.id)
+
+      expect(result?.snoozedUntil).toBeUndefined()
+    })
+  })
+
+  describe('change clocks', () => {
+    it('should stamp every change with a later clock', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createValidInput())
+
+      await store.update({ id: task!.id, name: 'Renamed' })
+      const renamed = store.taskById(task!.id)!
+      await store.bulkUpdate([task!.id], { priority: 'critical' })
+      const edited = store.taskById(task!.id)!
+
+      expect(task!.hlc).toBeDefined()
+      expect(compareClocks(renamed.hlc!, task!.hlc!)).toBeGreaterThan(0)
+      expect(compareClocks(edited.hlc!, renamed.hlc!)).toBeGreaterThan(0)
+      expect((await db.tasks.get(task!.id))?.hlc).toBe(edited.hlc)
+    })
+
+    describe('with sync enabled', () => {
+      beforeEach(async () => {
+        const syncStore = useSyncStore()
+        await syncStore.storeAccessToken('token')
+        vi.spyOn(syncStore, 'scheduleDebouncedSync').mockImplementation(() => {})
+      })
+
+      afterEach(async () => {
+        vi.restoreAllMocks()
+        await db.syncState.clear()
+      })
+
+      it('should queue the clock of a change for sync', async () => {
+        const store = useTaskStore()
+        const syncStore = useSyncStore()
+        const task = await store.create(createValidInput())
+
+        await store.snooze(task!.id, new Date(Date.now() + 86_400_000))
+
+        const queued = syncStore.syncState!.pendingChanges
+        expect(queued.at(-1)!.hlc).toBe(store.taskById(task!.id)!.hlc)
+      })
+    })
   })
 })
@@ -245,4 +245,65 @@ describe('TaskStore - Type Changes', () => {
       expect(updated?.projectSession?.minSessionDurationMinutes).toBe(90)
     })
   })
+
+  describe('Project checklists', () => {
+    const createProjectInput = () =>
+      createValidInput({
+        type: 'project',
+        projectSession: { minSessionDurationMinutes: 30 },
+        subtasks: [
+          { id: '', name: ' Sand the frame ', timeEstimateMinutes: 20, completed: false },
+          { id: '', name: 'Paint', timeEstimateMinutes: 45, completed: false }
+        ]
+      })
+
+    it('should assign IDs and keep step order on create', async () => {
+      const store = useTaskStore()
+
+      const task = await store.create(createProjectInput())
+
+      expect(task!.subtasks).toHaveLength(2)
+      expect(task!.subtasks!.every((s) => s.id.length > 0)).toBe(true)
+      expect(task!.subtasks!.map((s) => s.name)).toEqual(['Sand the frame', 'Paint'])
+    })
+
+    it('should check off a step and persist it', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createProjectInput())
+      const stepId = task!.subtasks![0]!.id
+
+      await store.toggleSubtask(task!.id, stepId, true)
+
+      const stored = await db.tasks.get(task!.id)
+      expect(stored?.subtasks?.[0]?.completed).toBe(true)
+      expect(stored?.subtasks?.[0]?.completedAt).toBeDefined()
+      expect(stored?.status).toBe('active')
+
+      await store.toggleSubtask(task!.id, stepId)
+
+      const unchecked = await db.tasks.get(task!.id)
+      expect(unchecked?.subtasks?.[0]?.completed).toBe(false)
+      expect(unchecked?.subtasks?.[0]?.completedAt).toBeUndefined()
+    })
+
+    it('should report an error for an unknown step', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createProjectInput())
+
+      const result = await store.toggleSubtask(task!.id, 'missing')
+
+      expect(result).toBeUndefined()
+      expect(store.error).toBe('Subtask not found')
+    })
+
+    it('should clear subtasks when changing to one-off', async () => {
+      const store = useTaskStore()
+      const task = await store.create(createProjectInput())
+
+      await store.update({ id: task!.id, type: 'one-off' })
+
+      const updated = await db.tasks.get(task!.id)
+      expect(updated?.subtasks).toBeUndefined()
+    })
+  })
 })
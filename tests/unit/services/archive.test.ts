@@ -0,0 +1,111 @@
+/**
+ * Unit tests for archiving finished tasks
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  DEFAULT_AUTO_ARCHIVE_DAYS,
+  filterExportedTasks,
+  getAutoArchiveDays,
+  getTasksToAutoArchive,
+  isTaskDone,
+  setAutoArchiveDays
+} from '@/services/archive'
+import type { Task } from '@/types/task'
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+const now = new Date('2024-03-31T12:00:00.000Z')
+
+afterEach(() => {
+  localStorage.clear()
+})
+
+describe('auto-archive period', () => {
+  it('should default to two weeks', () => {
+    expect(getAutoArchiveDays()).toBe(DEFAULT_AUTO_ARCHIVE_DAYS)
+  })
+
+  it('should remember the chosen period, including never', () => {
+    setAutoArchiveDays(7)
+    expect(getAutoArchiveDays()).toBe(7)
+
+    setAutoArchiveDays(0)
+    expect(getAutoArchiveDays()).toBe(0)
+  })
+
+  it('should ignore periods that are not offered', () => {
+    localStorage.setItem('sparetime-auto-archive-days', '3')
+    expect(getAutoArchiveDays()).toBe(DEFAULT_AUTO_ARCHIVE_DAYS)
+  })
+})
+
+describe('isTaskDone', () => {
+  it('should count completed tasks and tasks archived after completion', () => {
+    expect(isTaskDone(createTask({ status: 'completed' }))).toBe(true)
+    expect(isTaskDone(createTask({ status: 'archived', completedAt: '2024-03-01T00:00:00.000Z' }))).toBe(true)
+  })
+
+  it('should not count active tasks or tasks archived without completion', () => {
+    expect(isTaskDone(createTask())).toBe(false)
+    expect(isTaskDone(createTask({ status: 'archived' }))).toBe(false)
+  })
+})
+
+describe('getTasksToAutoArchive', () => {
+  it('should pick one-off tasks completed before the period', () => {
+    const tasks = [
+      createTask({ id: 'old', status: 'completed', completedAt: '2024-03-20T12:00:00.000Z' }),
+      createTask({ id: 'recent', status: 'completed', completedAt: '2024-03-28T12:00:00.000Z' }),
+      createTask({ id: 'active' }),
+      createTask({ id: 'archived', status: 'archived', completedAt: '2024-03-01T00:00:00.000Z' })
+    ]
+
+    expect(getTasksToAutoArchive(tasks, 7, now)).toEqual(['old'])
+  })
+
+  it('should skip other task types and deleted tasks', () => {
+    const completedAt = '2024-03-01T00:00:00.000Z'
+    const tasks = [
+      createTask({ id: 'project', type: 'project', status: 'completed', completedAt }),
+      createTask({ id: 'deleted', status: 'completed', completedAt, deletedAt: '2024-03-02T00:00:00.000Z' })
+    ]
+
+    expect(getTasksToAutoArchive(tasks, 7, now)).toEqual([])
+  })
+
+  it('should fall back to the last update for tasks without a completion time', () => {
+    const tasks = [createTask({ status: 'completed', updatedAt: '2024-03-01T00:00:00.000Z' })]
+
+    expect(getTasksToAutoArchive(tasks, 7, now)).toEqual(['task-1'])
+  })
+
+  it('should archive nothing when turned off', () => {
+    const tasks = [createTask({ status: 'completed', completedAt: '2020-01-01T00:00:00.000Z' })]
+
+    expect(getTasksToAutoArchive(tasks, 0, now)).toEqual([])
+  })
+})
+
+describe('filterExportedTasks', () => {
+  const tasks = [createTask({ id: 'a' }), createTask({ id: 'b', status: 'archived' })]
+
+  it('should leave archived tasks out unless asked for', () => {
+    expect(filterExportedTasks(tasks, false).map((t) => t.id)).toEqual(['a'])
+    expect(filterExportedTasks(tasks, true)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for recurring task completion statistics
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateCompletionStats, intervalToDays } from '@/services/completionStats'
+import type { CompletionRecord } from '@/types/task'
+
+/**
+ * Helper to create a completion record
+ */
+function createRecord(completedAt: string, actualDurationMinutes?: number): CompletionRecord {
+  return { taskId: 'task-1', completedAt, actualDurationMinutes }
+}
+
+describe('intervalToDays', () => {
+  it('should convert interval units to days', () => {
+    expect(intervalToDays(2, 'weeks')).toBe(14)
+    expect(intervalToDays(12, 'hours')).toBe(0.5)
+    expect(intervalToDays(3, 'days')).toBe(3)
+  })
+})
+
+describe('calculateCompletionStats', () => {
+  it('should average the interval between completions regardless of order', () => {
+    const stats = calculateCompletionStats(
+      [
+        createRecord('2024-01-15T10:00:00.000Z'),
+        createRecord('2024-01-01T10:00:00.000Z'),
+        createRecord('2024-01-11T10:00:00.000Z')
+      ],
+      { intervalValue: 1, intervalUnit: 'weeks' }
+    )
+
+    expect(stats.completionCount).toBe(3)
+    expect(stats.averageIntervalDays).toBe(7)
+    expect(stats.configuredIntervalDays).toBe(7)
+    expect(stats.intervalRatio).toBe(1)
+    expect(stats.lastCompletedAt).toBe('2024-01-15T10:00:00.000Z')
+  })
+
+  it('should report a ratio above 1 when done less often than configured', () => {
+    const stats = calculateCompletionStats(
+      [createRecord('2024-01-01T10:00:00.000Z'), createRecord('2024-01-21T10:00:00.000Z')],
+      { intervalValue: 10, intervalUnit: 'days' }
+    )
+
+    expect(stats.intervalRatio).toBe(2)
+  })
+
+  it('should leave intervals empty with a single completion', () => {
+    const stats = calculateCompletionStats([createRecord('2024-01-01T10:00:00.000Z')], {
+      intervalValue: 1,
+      intervalUnit: 'days'
+    })
+
+    expect(stats.averageIntervalDays).toBeNull()
+    expect(stats.intervalRatio).toBeNull()
+  })
+
+  it('should average only recorded durations', () => {
+    const stats = calculateCompletionStats([
+      createRecord('2024-01-01T10:00:00.000Z', 20),
+      createRecord('2024-01-02T10:00:00.000Z'),
+      createRecord('2024-01-03T10:00:00.000Z', 30)
+    ])
+
+    expect(stats.averageDurationMinutes).toBe(25)
+    expect(stats.configuredIntervalDays).toBeNull()
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the dependency graph builder
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildDependencyGraph } from '@/services/dependencyGraph'
+import type { Task } from '@/types/task'
+
+/**
+ * Helper to create a test task
+ */
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    name: `Task ${id}`,
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  }
+}
+
+describe('buildDependencyGraph', () => {
+  it('should only include active tasks that take part in a dependency', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('a'),
+      createTestTask('b', { dependsOnIds: ['a'] }),
+      createTestTask('c')
+    ])
+
+    expect(graph.nodes.map((n) => n.task.id)).toEqual(['a', 'b'])
+    expect(graph.edges).toEqual([{ fromId: 'a', toId: 'b' }])
+  })
+
+  it('should mark tasks with incomplete prerequisites as blocked', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('done', { status: 'completed' }),
+      createTestTask('a'),
+      createTestTask('b', { dependsOnIds: ['a', 'done'] })
+    ])
+
+    const byId = new Map(graph.nodes.map((n) => [n.task.id, n]))
+    expect(byId.get('a')?.blocked).toBe(false)
+    expect(byId.get('b')?.blocked).toBe(true)
+    expect(byId.has('done')).toBe(false)
+  })
+
+  it('should place dependents in a column after their deepest prerequisite', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('a'),
+      createTestTask('b', { dependsOnIds: ['a'] }),
+      createTestTask('c', { dependsOnIds: ['a', 'b'] })
+    ])
+
+    const columns = Object.fromEntries(graph.nodes.map((n) => [n.task.id, n.column]))
+    expect(columns).toEqual({ a: 0, b: 1, c: 2 })
+
+    for (const edge of graph.edges) {
+      const from = graph.nodes.find((n) => n.task.id === edge.fromId)!
+      const to = graph.nodes.find((n) => n.task.id === edge.toId)!
+      expect(from.x).toBeLessThan(to.x)
+    }
+  })
+
+  it('should count only tasks whose last open prerequisite is the node', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('paint'),
+      createTestTask('sand'),
+      createTestTask('wall', { dependsOnIds: ['paint', 'sand'] }),
+      createTestTask('brush', { dependsOnIds: ['paint'], timeEstimateMinutes: 10 })
+    ])
+
+    const paint = graph.nodes.find((n) => n.task.id === 'paint')!
+    expect(paint.unblocksTaskIds).toEqual(['brush'])
+    expect(paint.unblocksMinutes).toBe(10)
+  })
+
+  it('should pick the ready task that unblocks the most work', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('small'),
+      createTestTask('big'),
+      createTestTask('x', { dependsOnIds: ['small'], timeEstimateMinutes: 15 }),
+      createTestTask('y', { dependsOnIds: ['big'], timeEstimateMinutes: 60 }),
+      createTestTask('z', { dependsOnIds: ['big'], timeEstimateMinutes: 30 })
+    ])
+
+    expect(graph.mostUnblocking?.task.id).toBe('big')
+    expect(graph.mostUnblocking?.unblocksMinutes).toBe(90)
+  })
+
+  it('should return an empty graph when there are no dependencies', () => {
+    const graph = buildDependencyGraph([createTestTask('a'), createTestTask('b')])
+
+    expect(graph.nodes).toHaveLength(0)
+    expect(graph.mostUnblocking).toBeNull()
+    expect(graph.width).toBe(0)
+  })
+
+  it('should terminate on cyclic data from older syncs', () => {
+    const graph = buildDependencyGraph([
+      createTestTask('a', { dependsOnIds: ['b'] }),
+      createTestTask('b', { dependsOnIds: ['a'] })
+    ])
+
+    expect(graph.nodes).toHaveLength(2)
+    expect(graph.nodes.every((n) => n.blocked)).toBe(true)
+  })
+})
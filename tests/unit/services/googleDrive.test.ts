@@ -11,6 +11,8 @@ import {
 } from '@/services/googleDrive'
 import type { Task } from '@/types/task'
 import type { GoogleDriveBackup } from '@/types/sync'
+import type { Place } from '@/types/place'
+import { setPlaceCoordinateSyncEnabled } from '@/services/places'
 
 // Helper to create test tasks
 function createTestTask(overrides: Partial<Task> = {}): Task {
@@ -113,7 +115,7 @@ describe('Google Drive Service', () => {
           nextDueDate: '2025-12-27T10:00:00.000Z'
         },
         deadline: '2025-12-31T23:59:59.000Z',
-        dependsOnId: 'task-1'
+        dependsOnIds: ['task-1']
       })
 
       const backup = await createBackupPayload([task])
@@ -122,6 +124,38 @@ describe('Google Drive Service', () => {
     })
   })
 
+  describe('places in backup payload', () => {
+    const place: Place = {
+      id: 'place-1',
+      name: 'Home',
+      latitude: 52.52,
+      longitude: 13.405,
+      radiusMeters: 150,
+      createdAt: '2025-12-23T10:00:00.000Z',
+      updatedAt: '2025-12-23T10:00:00.000Z'
+    }
+
+    afterEach(() => {
+      setPlaceCoordinateSyncEnabled(false)
+    })
+
+    it('should leave place coordinates out by default', async () => {
+      const backup = await createBackupPayload([createTestTask()], [place])
+
+      expect(backup.places).toEqual([
+        { id: 'place-1', name: 'Home', createdAt: place.createdAt, updatedAt: place.updatedAt }
+      ])
+    })
+
+    it('should include place coordinates once the user opts in', async () => {
+      setPlaceCoordinateSyncEnabled(true)
+
+      const backup = await createBackupPayload([createTestTask()], [place])
+
+      expect(backup.places).toEqual([place])
+    })
+  })
+
   describe('validateBackupPayload', () => {
     it('should validate a correct backup payload', async () => {
       const tasks = [createTestTask()]
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for issuing hybrid logical clocks on this device
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getDeviceId, observeClocks, tickClock } from '@/services/hlc'
+import { compareClocks, formatClock, parseClock } from '@/utils/hlc'
+
+const now = new Date('2024-03-31T12:00:00.000Z').getTime()
+
+afterEach(() => {
+  localStorage.clear()
+})
+
+describe('getDeviceId', () => {
+  it('should keep the same ID on this device', () => {
+    const deviceId = getDeviceId()
+
+    expect(deviceId).toMatch(/^[0-9a-f]{12}$/)
+    expect(getDeviceId()).toBe(deviceId)
+  })
+
+  it('should work where crypto.randomUUID is unavailable', () => {
+    vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+
+    try {
+      expect(parseClock(tickClock(now))?.deviceId).toMatch(/^[0-9a-f]{12}$/)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+})
+
+describe('tickClock', () => {
+  it('should follow the wall clock and stamp this device', () => {
+    const clock = parseClock(tickClock(now))
+
+    expect(clock).toEqual({ wallTime: now, counter: 0, deviceId: getDeviceId() })
+  })
+
+  it('should keep moving forward when the wall clock stands still or goes back', () => {
+    const first = tickClock(now)
+    const second = tickClock(now)
+    const third = tickClock(now - 60_000)
+
+    expect(compareClocks(second, first)).toBeGreaterThan(0)
+    expect(compareClocks(third, second)).toBeGreaterThan(0)
+    expect(parseClock(third)).toMatchObject({ wallTime: now, counter: 2 })
+  })
+
+  it('should move on a millisecond when the counter runs out', () => {
+    localStorage.setItem('sparetime-hlc', formatClock({ wallTime: now, counter: 9999, deviceId: 'a' }))
+
+    expect(parseClock(tickClock(now))).toMatchObject({ wallTime: now + 1, counter: 0 })
+  })
+})
+
+describe('observeClocks', () => {
+  it('should order later changes after clocks from a device running ahead', () => {
+    const ahead = formatClock({ wallTime: now + 3_600_000, counter: 5, deviceId: 'other' })
+
+    observeClocks([undefined, ahead, 'not a clock'])
+
+    expect(compareClocks(tickClock(now), ahead)).toBeGreaterThan(0)
+  })
+
+  it('should not move the clock back', () => {
+    const last = tickClock(now)
+
+    observeClocks([formatClock({ wallTime: now - 1000, counter: 0, deviceId: 'other' })])
+
+    expect(compareClocks(tickClock(now - 2000), last)).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for named places
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  distanceMeters,
+  findNearestPlace,
+  stripPlaceCoordinates,
+  mergePlaces,
+  preparePlacesForSync,
+  isPlaceCoordinateSyncEnabled,
+  setPlaceCoordinateSyncEnabled
+} from '@/services/places'
+import type { Place } from '@/types/place'
+
+/**
+ * Helper to create a place
+ */
+function createPlace(overrides: Partial<Place> = {}): Place {
+  return {
+    id: 'place-1',
+    name: 'Home',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+// Two points about 111 m apart (0.001 degrees of latitude)
+const home = { latitude: 52.52, longitude: 13.405 }
+const nextDoor = { latitude: 52.521, longitude: 13.405 }
+const office = { latitude: 52.5, longitude: 13.45 }
+
+describe('distanceMeters', () => {
+  it('should be zero for the same point', () => {
+    expect(distanceMeters(home, home)).toBe(0)
+  })
+
+  it('should measure short distances', () => {
+    expect(distanceMeters(home, nextDoor)).toBeCloseTo(111, 0)
+  })
+
+  it('should measure long distances', () => {
+    // Berlin to Paris is roughly 878 km
+    const paris = { latitude: 48.8566, longitude: 2.3522 }
+    expect(distanceMeters(home, paris) / 1000).toBeCloseTo(878, -1)
+  })
+})
+
+describe('findNearestPlace', () => {
+  const places = [
+    createPlace({ id: 'home', name: 'Home', ...home }),
+    createPlace({ id: 'office', name: 'Office', ...office }),
+    createPlace({ id: 'parents', name: "Parents' house" })
+  ]
+
+  it('should find the place the position is in', () => {
+    expect(findNearestPlace(places, home)?.id).toBe('home')
+    expect(findNearestPlace(places, office)?.id).toBe('office')
+  })
+
+  it('should use the default radius', () => {
+    expect(findNearestPlace(places, nextDoor)?.id).toBe('home')
+    expect(findNearestPlace(places, { latitude: 52.53, longitude: 13.405 })).toBeNull()
+  })
+
+  it('should respect a custom radius', () => {
+    const small = [createPlace({ id: 'home', ...home, radiusMeters: 50 })]
+    expect(findNearestPlace(small, nextDoor)).toBeNull()
+  })
+
+  it('should pick the closest of overlapping places', () => {
+    const overlapping = [
+      createPlace({ id: 'home', ...home, radiusMeters: 500 }),
+      createPlace({ id: 'garden', ...nextDoor, radiusMeters: 500 })
+    ]
+    expect(findNearestPlace(overlapping, { latitude: 52.5208, longitude: 13.405 })?.id).toBe('garden')
+  })
+
+  it('should ignore deleted places', () => {
+    const deleted = [createPlace({ id: 'home', ...home, deletedAt: '2024-01-02T00:00:00.000Z' })]
+    expect(findNearestPlace(deleted, home)).toBeNull()
+  })
+})
+
+describe('stripPlaceCoordinates', () => {
+  it('should remove coordinates and radius only', () => {
+    const stripped = stripPlaceCoordinates(createPlace({ ...home, radiusMeters: 100 }))
+
+    expect(stripped).toEqual(createPlace())
+    expect('latitude' in stripped).toBe(false)
+  })
+})
+
+describe('mergePlaces', () => {
+  it('should keep places from both sides', () => {
+    const merged = mergePlaces([createPlace({ id: 'a' })], [createPlace({ id: 'b' })])
+    expect(merged.map((p) => p.id).sort()).toEqual(['a', 'b'])
+  })
+
+  it('should keep the newer version', () => {
+    const local = createPlace({ name: 'Home', updatedAt: '2024-01-02T00:00:00.000Z' })
+    const remote = createPlace({ name: 'Flat', updatedAt: '2024-01-03T00:00:00.000Z' })
+
+    expect(mergePlaces([local], [remote])[0]!.name).toBe('Flat')
+    expect(mergePlaces([remote], [local])[0]!.name).toBe('Flat')
+  })
+
+  it('should keep local coordinates when the remote copy was stripped', () => {
+    const local = createPlace({ ...home, radiusMeters: 100 })
+    const remote = createPlace({ name: 'Flat', updatedAt: '2024-01-03T00:00:00.000Z' })
+
+    const [merged] = mergePlaces([local], [remote])
+    expect(merged).toMatchObject({ name: 'Flat', ...home, radiusMeters: 100 })
+  })
+})
+
+describe('coordinate sync opt-in', () => {
+  afterEach(() => {
+    setPlaceCoordinateSyncEnabled(false)
+  })
+
+  it('should be off by default', () => {
+    expect(isPlaceCoordinateSyncEnabled()).toBe(false)
+  })
+
+  it('should strip coordinates unless opted in', () => {
+    const places = [createPlace({ ...home })]
+
+    expect(preparePlacesForSync(places, false)[0]!.latitude).toBeUndefined()
+    expect(preparePlacesForSync(places, true)[0]!.latitude).toBe(home.latitude)
+  })
+
+  it('should remember the opt-in', () => {
+    setPlaceCoordinateSyncEnabled(true)
+    expect(isPlaceCoordinateSyncEnabled()).toBe(true)
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for project session tracking
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getTimeSpentMinutes,
+  getLastWorkedAt,
+  getProjectEffort,
+  calculateStalledScore,
+  MAX_STALLED_DAYS
+} from '@/services/projectSessions'
+import type { ProjectSessionLog, Task } from '@/types/task'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Helper to create a project task
+ */
+function createProject(sessionLogs?: ProjectSessionLog[], overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    type: 'project',
+    timeEstimateMinutes: 120,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    projectSession: { minSessionDurationMinutes: 30 },
+    sessionLogs,
+    createdAt: new Date(Date.now() - 60 * DAY_MS).toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  }
+}
+
+/**
+ * Helper to create a session logged some days ago
+ */
+function createLog(daysAgo: number, durationMinutes: number): ProjectSessionLog {
+  return { loggedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString(), durationMinutes }
+}
+
+describe('getTimeSpentMinutes', () => {
+  it('should sum logged session durations', () => {
+    expect(getTimeSpentMinutes(createProject([createLog(3, 40), createLog(1, 25)]))).toBe(65)
+  })
+
+  it('should return 0 without sessions', () => {
+    expect(getTimeSpentMinutes(createProject())).toBe(0)
+  })
+})
+
+describe('getLastWorkedAt', () => {
+  it('should use the latest session', () => {
+    const latest = createLog(1, 25)
+
+    expect(getLastWorkedAt(createProject([createLog(3, 40), latest]))).toBe(latest.loggedAt)
+  })
+
+  it('should fall back to the creation date', () => {
+    const task = createProject()
+
+    expect(getLastWorkedAt(task)).toBe(task.createdAt)
+  })
+})
+
+describe('getProjectEffort', () => {
+  it('should measure time spent against the estimate', () => {
+    const effort = getProjectEffort(createProject([createLog(2, 30), createLog(1, 60)]))
+
+    expect(effort).toEqual({
+      spentMinutes: 90,
+      estimateMinutes: 120,
+      remainingMinutes: 30,
+      progress: 0.75,
+      sessionCount: 2
+    })
+  })
+
+  it('should cap progress when the estimate is exceeded', () => {
+    const effort = getProjectEffort(createProject([createLog(1, 200)]))
+
+    expect(effort.progress).toBe(1)
+    expect(effort.remainingMinutes).toBe(0)
+  })
+})
+
+describe('calculateStalledScore', () => {
+  it('should return null for non-project tasks', () => {
+    expect(calculateStalledScore(createProject(undefined, { type: 'one-off' }))).toBeNull()
+  })
+
+  it('should grow with days since the last session', () => {
+    const recent = calculateStalledScore(createProject([createLog(2, 30)]))!
+    const stale = calculateStalledScore(createProject([createLog(15, 30)]))!
+
+    expect(recent).toBeLessThan(stale)
+    expect(stale).toBeCloseTo(15 / MAX_STALLED_DAYS, 1)
+  })
+
+  it('should saturate at 1', () => {
+    expect(calculateStalledScore(createProject([createLog(MAX_STALLED_DAYS * 2, 30)]))).toBe(1)
+  })
+})
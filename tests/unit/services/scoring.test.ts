@@ -8,10 +8,13 @@ import {
   calculateScore,
   normalizeScore,
   calculateFactors,
-  compareTasks
+  compareTasks,
+  getPostponementCount,
+  scoreAndRankTasks,
+  DEFAULT_SCORING_PROFILE
 } from '@/services/scoring'
 import type { Task, Priority } from '@/types/task'
-import type { SuggestionContext, TaskScore } from '@/types/suggestion'
+import type { SuggestionContext, TaskScore, ScoringProfile } from '@/types/suggestion'
 
 /**
  * Helper to create a test task
@@ -506,4 +509,181 @@ describe('Scoring Algorithm', () => {
       expect(homeScore).toBe(outsideScore)
     })
   })
+
+  describe('Postponement factor', () => {
+    it('should return 0 for a task that was never skipped', () => {
+      const task = createTestTask()
+
+      expect(getPostponementCount(task)).toBe(0)
+      expect(calculateFactors(task, createTestContext()).postponements).toBe(0)
+    })
+
+    it('should increase with the number of postponements', () => {
+      const onceSkipped = createTestTask({
+        postponements: { count: 1, timestamps: ['2025-01-01T10:00:00Z'] }
+      })
+      const oftenSkipped = createTestTask({
+        postponements: { count: 3, timestamps: [] }
+      })
+
+      const context = createTestContext()
+      const onceFactors = calculateFactors(onceSkipped, context)
+      const oftenFactors = calculateFactors(oftenSkipped, context)
+
+      expect(onceFactors.postponements).toBeGreaterThan(0)
+      expect(oftenFactors.postponements).toBeGreaterThan(onceFactors.postponements)
+      expect(calculateScore(oftenSkipped, context)).toBeGreaterThan(
+        calculateScore(onceSkipped, context)
+      )
+    })
+
+    it('should cap the postponement factor at 1', () => {
+      const task = createTestTask({ postponements: { count: 50, timestamps: [] } })
+
+      expect(calculateFactors(task, createTestContext()).postponements).toBe(1)
+    })
+
+    it('should only count postponements since last completion for recurring tasks', () => {
+      const task = createTestTask({
+        type: 'recurring',
+        recurringPattern: {
+          intervalValue: 1,
+          intervalUnit: 'weeks',
+          lastCompletedDate: '2025-01-10T00:00:00Z',
+          nextDueDate: '2025-01-17T00:00:00Z'
+        },
+        postponements: {
+          count: 3,
+          timestamps: ['2025-01-02T00:00:00Z', '2025-01-05T00:00:00Z', '2025-01-12T00:00:00Z']
+        }
+      })
+
+      expect(getPostponementCount(task)).toBe(1)
+    })
+  })
+
+  describe('Stalled projects', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000
+
+    it('should leave the stalled factor out for non-project tasks', () => {
+      const factors = calculateFactors(createTestTask(), createTestContext())
+
+      expect(factors.stalled).toBeNull()
+    })
+
+    it('should score a long-idle project above a recently worked one', () => {
+      const base = {
+        type: 'project' as const,
+        projectSession: { minSessionDurationMinutes: 30 },
+        createdAt: new Date(Date.now() - 60 * DAY_MS).toISOString()
+      }
+      const recent = createTestTask({
+        ...base,
+        id: 'recent',
+        sessionLogs: [{ loggedAt: new Date(Date.now() - DAY_MS).toISOString(), durationMinutes: 30 }]
+      })
+      const stalled = createTestTask({
+        ...base,
+        id: 'stalled',
+        sessionLogs: [{ loggedAt: new Date(Date.now() - 20 * DAY_MS).toISOString(), durationMinutes: 30 }]
+      })
+
+      const ranked = scoreAndRankTasks([recent, stalled], createTestContext())
+
+      expect(ranked[0].taskId).toBe('stalled')
+      expect(ranked[0].reason).toContain('not worked on for 20 days')
+    })
+  })
+
+  describe('Tag match', () => {
+    const withTags = (tags: string[]) => createTestContext({ contextFilters: { tags } })
+
+    it('should leave the factor out when no tags are selected or the task is untagged', () => {
+      expect(calculateFactors(createTestTask({ tags: ['computer'] }), createTestContext()).tagMatch).toBeNull()
+      expect(calculateFactors(createTestTask(), withTags(['computer'])).tagMatch).toBeNull()
+    })
+
+    it('should score the share of task tags at hand', () => {
+      const task = createTestTask({ tags: ['computer', 'phone'] })
+
+      expect(calculateFactors(task, withTags(['computer', 'phone', 'car'])).tagMatch).toBe(1)
+      expect(calculateFactors(task, withTags(['computer'])).tagMatch).toBe(0.5)
+      expect(calculateFactors(task, withTags(['car'])).tagMatch).toBe(0)
+    })
+
+    it('should rank tasks needing what the user has with them first', () => {
+      const car = createTestTask({ id: 'car', tags: ['car'] })
+      const computer = createTestTask({ id: 'computer', tags: ['computer'] })
+
+      const ranked = scoreAndRankTasks([car, computer], withTags(['computer']))
+
+      expect(ranked[0].taskId).toBe('computer')
+      expect(ranked[0].reason).toContain('you have computer at hand')
+    })
+  })
+
+  describe('Configurable scoring weights', () => {
+    const createProfile = (overrides: Partial<ScoringProfile['weights']> = {}): ScoringProfile => ({
+      ...DEFAULT_SCORING_PROFILE,
+      weights: { ...DEFAULT_SCORING_PROFILE.weights, ...overrides }
+    })
+
+    it('should match equal weighting with the default profile', () => {
+      const task = createTestTask({ priority: 'critical', timeEstimateMinutes: 60 })
+      const context = createTestContext({ availableTimeMinutes: 60 })
+
+      // priority 1, timeMatch 1, urgency 0.5, postponements 0 => 2.5 / 4
+      expect(calculateScore(task, context)).toBeCloseTo(0.625)
+      expect(calculateScore(task, context, DEFAULT_SCORING_PROFILE)).toBeCloseTo(0.625)
+    })
+
+    it('should ignore factors with a weight of 0', () => {
+      const task = createTestTask({ priority: 'critical', timeEstimateMinutes: 15 })
+      const context = createTestContext({ availableTimeMinutes: 60 })
+
+      const profile = createProfile({ timeMatch: 0, urgency: 0, postponements: 0 })
+
+      expect(calculateScore(task, context, profile)).toBe(1)
+    })
+
+    it('should let a heavy priority weight rank a critical task above a better time fit', () => {
+      const critical = createTestTask({ id: 'critical', priority: 'critical', timeEstimateMinutes: 10 })
+      const filler = createTestTask({ id: 'filler', priority: 'optional', timeEstimateMinutes: 60 })
+      const context = createTestContext({ availableTimeMinutes: 60 })
+
+      const equal = scoreAndRankTasks([critical, filler], context)
+      expect(equal[0].taskId).toBe('filler')
+
+      const weighted = scoreAndRankTasks([critical, filler], context, createProfile({ priority: 5 }))
+      expect(weighted[0].taskId).toBe('critical')
+    })
+
+    it('should return 0 when every applicable weight is 0', () => {
+      const task = createTestTask()
+      const profile = createProfile({
+        urgency: 0,
+        deadlineProximity: 0,
+        priority: 0,
+        postponements: 0,
+        timeMatch: 0,
+        effortMatch: 0,
+        locationMatch: 0
+      })
+
+      expect(calculateScore(task, createTestContext(), profile)).toBe(0)
+    })
+
+    it('should use the profile deadline horizon for deadline proximity', () => {
+      const deadline = new Date()
+      deadline.setDate(deadline.getDate() + 20)
+      const task = createTestTask({ deadline: deadline.toISOString() })
+      const context = createTestContext()
+
+      expect(calculateFactors(task, context).deadlineProximity).toBeGreaterThan(0)
+      expect(
+        calculateFactors(task, context, { ...DEFAULT_SCORING_PROFILE, maxDeadlineDays: 10 })
+          .deadlineProximity
+      ).toBe(0)
+    })
+  })
 })
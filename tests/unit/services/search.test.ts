@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the full-text task search index
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  tokenize,
+  createSearchIndex,
+  indexTask,
+  removeFromIndex,
+  searchIndex,
+  highlightMatches,
+  matchesQuery
+} from '@/services/search'
+import type { Task } from '@/types/task'
+
+/**
+ * Helper to create a minimal task
+ */
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('tokenize', () => {
+  it('should split text into lowercase words', () => {
+    expect(tokenize('Call the Bank, re: mortgage!')).toEqual(['call', 'the', 'bank', 're', 'mortgage'])
+  })
+
+  it('should strip accents and tag markers', () => {
+    expect(tokenize('Café #Car')).toEqual(['cafe', 'car'])
+  })
+})
+
+describe('searchIndex', () => {
+  const tasks = [
+    createTask({ id: 'vacuum', name: 'Vacuum the living room' }),
+    createTask({ id: 'bank', name: 'Call the bank', tags: ['phone'] }),
+    createTask({ id: 'tyres', name: 'Change winter tyres', tags: ['car'] }),
+    createTask({ id: 'deleted', name: 'Vacuum the car', deletedAt: '2024-01-02T00:00:00.000Z' })
+  ]
+  const index = createSearchIndex(tasks)
+
+  it('should return nothing for a blank query', () => {
+    expect(searchIndex(index, '   ')).toEqual([])
+  })
+
+  it('should match whole words and prefixes', () => {
+    expect(searchIndex(index, 'bank')).toEqual(['bank'])
+    expect(searchIndex(index, 'vac')).toEqual(['vacuum'])
+  })
+
+  it('should tolerate typos', () => {
+    expect(searchIndex(index, 'vaccum')).toEqual(['vacuum'])
+    expect(searchIndex(index, 'tyers')).toEqual(['tyres'])
+  })
+
+  it('should not match short words fuzzily', () => {
+    expect(searchIndex(index, 'cas')).toEqual([])
+  })
+
+  it('should search tags', () => {
+    expect(searchIndex(index, '#phone')).toEqual(['bank'])
+    expect(searchIndex(index, 'car')).toEqual(['tyres'])
+  })
+
+  it('should require every query word to match', () => {
+    expect(searchIndex(index, 'call bank')).toEqual(['bank'])
+    expect(searchIndex(index, 'call tyres')).toEqual([])
+  })
+
+  it('should rank exact matches before prefix matches', () => {
+    const ranked = createSearchIndex([
+      createTask({ id: 'prefix', name: 'Buy gardening gloves' }),
+      createTask({ id: 'exact', name: 'Weed the garden' })
+    ])
+
+    expect(searchIndex(ranked, 'garden')).toEqual(['exact', 'prefix'])
+  })
+
+  it('should skip deleted tasks', () => {
+    expect(searchIndex(index, 'vacuum')).toEqual(['vacuum'])
+  })
+})
+
+describe('index updates', () => {
+  it('should reindex a renamed task', () => {
+    const index = createSearchIndex([createTask({ id: 'a', name: 'Buy milk' })])
+
+    indexTask(index, createTask({ id: 'a', name: 'Buy bread' }))
+
+    expect(searchIndex(index, 'milk')).toEqual([])
+    expect(searchIndex(index, 'bread')).toEqual(['a'])
+  })
+
+  it('should remove a task', () => {
+    const index = createSearchIndex([createTask({ id: 'a', name: 'Buy milk' })])
+
+    removeFromIndex(index, 'a')
+
+    expect(searchIndex(index, 'milk')).toEqual([])
+    expect(index.words.size).toBe(0)
+  })
+})
+
+describe('highlightMatches', () => {
+  it('should mark matching words and keep the rest', () => {
+    expect(highlightMatches('Vacuum the living room', 'vac room')).toEqual([
+      { text: 'Vacuum', match: true },
+      { text: ' the living ', match: false },
+      { text: 'room', match: true }
+    ])
+  })
+
+  it('should return the whole text without a query', () => {
+    expect(highlightMatches('Call the bank', '')).toEqual([{ text: 'Call the bank', match: false }])
+  })
+
+  it('should match accented text', () => {
+    expect(highlightMatches('Visit café', 'cafe')).toContainEqual({ text: 'café', match: true })
+  })
+})
+
+describe('matchesQuery', () => {
+  it('should match tags by prefix', () => {
+    expect(matchesQuery('computer', 'comp')).toBe(true)
+    expect(matchesQuery('car', 'phone')).toBe(false)
+  })
+})
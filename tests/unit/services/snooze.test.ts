@@ -0,0 +1,67 @@
+/**
+ * Unit tests for task snoozing
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isSnoozed, getSnoozeUntil } from '@/services/snooze'
+import type { Task } from '@/types/task'
+
+/**
+ * Helper to create a minimal task
+ */
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('isSnoozed', () => {
+  const now = new Date(2024, 0, 3, 12, 0)
+
+  it('should not be snoozed without a snooze date', () => {
+    expect(isSnoozed(createTask(), now)).toBe(false)
+  })
+
+  it('should be snoozed until the snooze date', () => {
+    const task = createTask({ snoozedUntil: new Date(2024, 0, 6).toISOString() })
+
+    expect(isSnoozed(task, now)).toBe(true)
+    expect(isSnoozed(task, new Date(2024, 0, 6))).toBe(false)
+  })
+
+  it('should expire on its own', () => {
+    const task = createTask({ snoozedUntil: new Date(2024, 0, 2).toISOString() })
+
+    expect(isSnoozed(task, now)).toBe(false)
+  })
+})
+
+describe('getSnoozeUntil', () => {
+  // Wednesday 3 January 2024, midday
+  const from = new Date(2024, 0, 3, 12, 0)
+
+  it('should return the start of the chosen day', () => {
+    expect(getSnoozeUntil('tomorrow', from)).toEqual(new Date(2024, 0, 4))
+    expect(getSnoozeUntil('in-3-days', from)).toEqual(new Date(2024, 0, 6))
+  })
+
+  it('should snooze until the coming Saturday', () => {
+    expect(getSnoozeUntil('weekend', from)).toEqual(new Date(2024, 0, 6))
+    // On a Saturday, snooze until the following one
+    expect(getSnoozeUntil('weekend', new Date(2024, 0, 6, 9))).toEqual(new Date(2024, 0, 13))
+  })
+
+  it('should snooze until next Monday', () => {
+    expect(getSnoozeUntil('next-week', from)).toEqual(new Date(2024, 0, 8))
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for project checklist helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getPendingSubtasks,
+  getNextSubtask,
+  getEffectiveTimeEstimate,
+  getSubtaskProgress
+} from '@/services/subtasks'
+import type { Subtask, Task } from '@/types/task'
+
+/**
+ * Helper to create a checklist step
+ */
+function createSubtask(id: string, minutes: number, completed = false): Subtask {
+  return { id, name: `Step ${id}`, timeEstimateMinutes: minutes, completed }
+}
+
+/**
+ * Helper to create a project task
+ */
+function createProject(subtasks: Subtask[] | undefined, overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    type: 'project',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    projectSession: { minSessionDurationMinutes: 45 },
+    subtasks,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  }
+}
+
+describe('getPendingSubtasks', () => {
+  it('should return unchecked steps in checklist order', () => {
+    const task = createProject([createSubtask('a', 10, true), createSubtask('b', 20), createSubtask('c', 5)])
+
+    expect(getPendingSubtasks(task).map((s) => s.id)).toEqual(['b', 'c'])
+  })
+
+  it('should ignore subtasks on non-project tasks', () => {
+    const task = createProject([createSubtask('a', 10)], { type: 'one-off' })
+
+    expect(getPendingSubtasks(task)).toEqual([])
+  })
+})
+
+describe('getNextSubtask', () => {
+  it('should return the first unchecked step that fits', () => {
+    const task = createProject([createSubtask('a', 10, true), createSubtask('b', 60), createSubtask('c', 15)])
+
+    expect(getNextSubtask(task, 30)?.id).toBe('c')
+    expect(getNextSubtask(task, 60)?.id).toBe('b')
+  })
+
+  it('should return undefined when no step fits', () => {
+    const task = createProject([createSubtask('a', 60)])
+
+    expect(getNextSubtask(task, 30)).toBeUndefined()
+  })
+})
+
+describe('getEffectiveTimeEstimate', () => {
+  it('should use the next fitting step for projects with a checklist', () => {
+    const task = createProject([createSubtask('a', 60), createSubtask('b', 10)])
+
+    expect(getEffectiveTimeEstimate(task, 20)).toBe(10)
+  })
+
+  it('should use the shortest pending step when none fits', () => {
+    const task = createProject([createSubtask('a', 60), createSubtask('b', 40)])
+
+    expect(getEffectiveTimeEstimate(task, 20)).toBe(40)
+  })
+
+  it('should fall back to the minimum session when every step is done', () => {
+    const task = createProject([createSubtask('a', 10, true)])
+
+    expect(getEffectiveTimeEstimate(task, 60)).toBe(45)
+  })
+
+  it('should use the time estimate for other task types', () => {
+    const task = createProject(undefined, { type: 'one-off', projectSession: undefined })
+
+    expect(getEffectiveTimeEstimate(task, 60)).toBe(30)
+  })
+})
+
+describe('getSubtaskProgress', () => {
+  it('should count completed steps and minutes', () => {
+    const task = createProject([createSubtask('a', 10, true), createSubtask('b', 20), createSubtask('c', 5, true)])
+
+    expect(getSubtaskProgress(task)).toEqual({
+      completedCount: 2,
+      totalCount: 3,
+      completedMinutes: 15,
+      totalMinutes: 35
+    })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for task list sorting and grouping
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  getDueBucket,
+  getTaskDueDate,
+  sortTasks,
+  groupTasks,
+  getTaskListView,
+  setTaskListView,
+  DEFAULT_TASK_LIST_VIEW
+} from '@/services/taskListView'
+import type { Task } from '@/types/task'
+
+/**
+ * Helper to create a minimal task
+ */
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+// Wednesday 10 January 2024, noon local time
+const now = new Date(2024, 0, 10, 12, 0)
+const day = (d: number) => new Date(2024, 0, d, 9, 0).toISOString()
+
+function recurringDue(date: string): Partial<Task> {
+  return {
+    type: 'recurring',
+    recurringPattern: {
+      intervalValue: 1,
+      intervalUnit: 'weeks',
+      lastCompletedDate: day(1),
+      nextDueDate: date
+    }
+  }
+}
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id)
+
+describe('getTaskDueDate', () => {
+  it('should use the earlier of deadline and next recurrence', () => {
+    expect(getTaskDueDate(createTask({ deadline: day(20), ...recurringDue(day(12)) }))).toBe(day(12))
+    expect(getTaskDueDate(createTask({ deadline: day(11), ...recurringDue(day(12)) }))).toBe(day(11))
+    expect(getTaskDueDate(createTask())).toBeUndefined()
+  })
+})
+
+describe('getDueBucket', () => {
+  it('should sort tasks into due buckets', () => {
+    expect(getDueBucket(createTask({ deadline: day(8) }), now)).toBe('overdue')
+    expect(getDueBucket(createTask({ deadline: day(10) }), now)).toBe('today')
+    expect(getDueBucket(createTask({ deadline: day(14) }), now)).toBe('this-week')
+    expect(getDueBucket(createTask({ deadline: day(15) }), now)).toBe('later')
+    expect(getDueBucket(createTask(), now)).toBe('none')
+  })
+})
+
+describe('sortTasks', () => {
+  const tasks = [
+    createTask({ id: 'a', priority: 'optional', timeEstimateMinutes: 60, updatedAt: day(3) }),
+    createTask({ id: 'b', priority: 'critical', timeEstimateMinutes: 5, deadline: day(20), updatedAt: day(5) }),
+    createTask({ id: 'c', priority: 'important', timeEstimateMinutes: 15, ...recurringDue(day(7)), updatedAt: day(4) }),
+    createTask({ id: 'd', priority: 'critical', timeEstimateMinutes: 30, deadline: day(11), updatedAt: day(2) })
+  ]
+
+  it('should keep the given order in manual mode', () => {
+    expect(ids(sortTasks(tasks, 'manual', now))).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should put the most urgent first and undated tasks last', () => {
+    expect(ids(sortTasks(tasks, 'urgency', now))).toEqual(['c', 'd', 'b', 'a'])
+  })
+
+  it('should sort by deadline', () => {
+    expect(ids(sortTasks(tasks, 'deadline', now))).toEqual(['d', 'b', 'a', 'c'])
+  })
+
+  it('should sort by priority, keeping ties in order', () => {
+    expect(ids(sortTasks(tasks, 'priority', now))).toEqual(['b', 'd', 'c', 'a'])
+  })
+
+  it('should sort by time estimate and by last update', () => {
+    expect(ids(sortTasks(tasks, 'time', now))).toEqual(['b', 'c', 'd', 'a'])
+    expect(ids(sortTasks(tasks, 'updated', now))).toEqual(['b', 'c', 'a', 'd'])
+  })
+
+  it('should not modify the input', () => {
+    sortTasks(tasks, 'priority', now)
+    expect(ids(tasks)).toEqual(['a', 'b', 'c', 'd'])
+  })
+})
+
+describe('groupTasks', () => {
+  it('should return one group without grouping', () => {
+    const tasks = [createTask()]
+    expect(groupTasks(tasks, 'none', now)).toEqual([{ key: 'all', label: '', tasks }])
+  })
+
+  it('should group by type in a fixed order, skipping empty groups', () => {
+    const groups = groupTasks(
+      [createTask({ id: 'p', type: 'project' }), createTask({ id: 'o' }), createTask({ id: 'o2' })],
+      'type',
+      now
+    )
+
+    expect(groups.map((g) => [g.label, ids(g.tasks)])).toEqual([
+      ['One-Off', ['o', 'o2']],
+      ['Projects', ['p']]
+    ])
+  })
+
+  it('should group by due bucket', () => {
+    const groups = groupTasks(
+      [createTask({ id: 'later', deadline: day(25) }), createTask({ id: 'late', deadline: day(2) })],
+      'due',
+      now
+    )
+
+    expect(groups.map((g) => g.key)).toEqual(['overdue', 'later'])
+  })
+})
+
+describe('task list view preference', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('should default to date added without grouping', () => {
+    expect(getTaskListView()).toEqual(DEFAULT_TASK_LIST_VIEW)
+  })
+
+  it('should remember the choice', () => {
+    setTaskListView({ sort: 'priority', group: 'due' })
+    expect(getTaskListView()).toEqual({ sort: 'priority', group: 'due' })
+  })
+
+  it('should ignore unknown saved values', () => {
+    localStorage.setItem('sparetime-task-list-view', JSON.stringify({ sort: 'random', group: 'effort' }))
+    expect(getTaskListView()).toEqual({ sort: 'manual', group: 'effort' })
+
+    localStorage.setItem('sparetime-task-list-view', 'not json')
+    expect(getTaskListView()).toEqual(DEFAULT_TASK_LIST_VIEW)
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for field-level three-way merging of tasks
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyFieldValues,
+  composeConflictResolution,
+  getConflictFields,
+  getConflictVersion,
+  getDifferingFields,
+  isSameFieldValue,
+  isSameTask,
+  mergeTaskFields
+} from '@/services/taskMerge'
+import type { Task } from '@/types/task'
+import type { SyncConflict } from '@/types/sync'
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('isSameFieldValue', () => {
+  it('should ignore the key order of objects', () => {
+    expect(isSameFieldValue({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toBe(true)
+  })
+
+  it('should keep the order of arrays', () => {
+    expect(isSameFieldValue(['a', 'b'], ['b', 'a'])).toBe(false)
+  })
+
+  it('should tell a missing value from an empty one', () => {
+    expect(isSameFieldValue(undefined, undefined)).toBe(true)
+    expect(isSameFieldValue(undefined, '')).toBe(false)
+  })
+})
+
+describe('mergeTaskFields', () => {
+  const base = createTask({ notes: 'Old notes' })
+
+  it('should take edits to different fields from both sides', () => {
+    const local = createTask({ name: 'Renamed', notes: 'Old notes', updatedAt: '2024-01-02T00:00:00.000Z' })
+    const remote = createTask({ priority: 'critical', notes: 'Old notes', updatedAt: '2024-01-03T00:00:00.000Z' })
+
+    const { merged, conflictingFields } = mergeTaskFields(base, local, remote)
+
+    expect(conflictingFields).toEqual([])
+    expect(merged.name).toBe('Renamed')
+    expect(merged.priority).toBe('critical')
+    expect(merged.updatedAt).toBe(local.updatedAt)
+  })
+
+  it('should remove fields cleared on the other side', () => {
+    const local = createTask({ name: 'Renamed', notes: 'Old notes' })
+    const remote = createTask()
+
+    const { merged } = mergeTaskFields(base, local, remote)
+
+    expect('notes' in merged).toBe(false)
+  })
+
+  it('should accept the same edit made on both sides', () => {
+    const local = createTask({ name: 'Same', notes: 'Old notes' })
+    const remote = createTask({ name: 'Same', notes: 'Old notes' })
+
+    expect(mergeTaskFields(base, local, remote).conflictingFields).toEqual([])
+  })
+
+  it('should report fields changed differently on both sides, keeping the local value', () => {
+    const local = createTask({ name: 'Local name', notes: 'Old notes', location: 'outside' })
+    const remote = createTask({ name: 'Remote name', notes: 'Old notes', effortLevel: 'high' })
+
+    const { merged, conflictingFields } = mergeTaskFields(base, local, remote)
+
+    expect(conflictingFields).toEqual(['name'])
+    expect(merged.name).toBe('Local name')
+    expect(merged.location).toBe('outside')
+    expect(merged.effortLevel).toBe('high')
+  })
+
+  it('should compare nested values such as recurring patterns', () => {
+    const pattern = {
+      intervalValue: 1,
+      intervalUnit: 'weeks' as const,
+      lastCompletedDate: '2024-01-01T00:00:00.000Z',
+      nextDueDate: '2024-01-08T00:00:00.000Z'
+    }
+    const withPattern = createTask({ type: 'recurring', recurringPattern: pattern })
+    const local = { ...withPattern, recurringPattern: { ...pattern, intervalValue: 2 } }
+    const remote = { ...withPattern, recurringPattern: { ...pattern, intervalValue: 3 } }
+
+    expect(mergeTaskFields(withPattern, local, remote).conflictingFields).toEqual(['recurringPattern'])
+  })
+})
+
+describe('isSameTask', () => {
+  it('should ignore updatedAt', () => {
+    expect(isSameTask(createTask(), createTask({ updatedAt: '2024-02-01T00:00:00.000Z' }))).toBe(true)
+    expect(isSameTask(createTask(), createTask({ name: 'Other' }))).toBe(false)
+  })
+
+  it('should ignore the change clock', () => {
+    expect(isSameTask(createTask({ hlc: '1704067200000-0000-a' }), createTask({ hlc: '1704067300000-0001-b' }))).toBe(true)
+  })
+})
+
+describe('conflict versions', () => {
+  const local = createTask({ name: 'Local name', location: 'outside' })
+  const remote = createTask({ name: 'Remote name', effortLevel: 'high' })
+  const merged = createTask({ name: 'Local name', location: 'outside', effortLevel: 'high' })
+
+  it('should settle only the conflicting fields', () => {
+    expect(applyFieldValues(merged, remote, ['name'])).toEqual({ ...merged, name: 'Remote name' })
+  })
+
+  it('should keep merged changes whichever side is chosen', () => {
+    const conflict: SyncConflict = {
+      taskId: 'task-1',
+      localData: local,
+      remoteData: remote,
+      detectedAt: '2024-01-05T00:00:00.000Z',
+      mergedData: merged,
+      conflictingFields: ['name']
+    }
+
+    expect(getConflictVersion(conflict, 'local')).toEqual(merged)
+    expect(getConflictVersion(conflict, 'remote')).toEqual({ ...merged, name: 'Remote name' })
+  })
+
+  it('should use the whole copy for conflicts without a field-level merge', () => {
+    const conflict: SyncConflict = { taskId: 'task-1', localData: local, remoteData: remote, detectedAt: '' }
+
+    expect(getConflictVersion(conflict, 'remote')).toBe(remote)
+  })
+})
+
+describe('field-by-field resolution', () => {
+  const local = createTask({ name: 'Local name', priority: 'critical', location: 'outside' })
+  const remote = createTask({ name: 'Remote name', priority: 'optional', effortLevel: 'high' })
+  const merged = createTask({ name: 'Local name', priority: 'critical', location: 'outside', effortLevel: 'high' })
+  const conflict: SyncConflict = {
+    taskId: 'task-1',
+    localData: local,
+    remoteData: remote,
+    detectedAt: '2024-01-05T00:00:00.000Z',
+    mergedData: merged,
+    conflictingFields: ['name', 'priority']
+  }
+
+  it('should list differing fields, ignoring updatedAt', () => {
+    const other = createTask({ notes: 'New', updatedAt: '2024-02-01T00:00:00.000Z' })
+
+    expect(getDifferingFields(createTask(), other)).toEqual(['notes'])
+  })
+
+  it('should settle the conflicting fields, or every differing field without a merge', () => {
+    expect(getConflictFields(conflict)).toEqual(['name', 'priority'])
+    const wholeTask = { ...conflict, mergedData: undefined, conflictingFields: undefined }
+    expect(getConflictFields(wholeTask).sort()).toEqual(['effortLevel', 'location', 'name', 'priority'])
+  })
+
+  it('should combine the values picked per field with merged changes', () => {
+    const resolved = composeConflictResolution(conflict, { priority: 'remote' })
+
+    expect(resolved.name).toBe('Local name')
+    expect(resolved.priority).toBe('optional')
+    expect(resolved.location).toBe('outside')
+    expect(resolved.effortLevel).toBe('high')
+  })
+
+  it('should let typed-in values win over the picked ones', () => {
+    const resolved = composeConflictResolution(conflict, { name: 'remote' }, { name: 'Typed name' })
+
+    expect(resolved.name).toBe('Typed name')
+    expect(resolved.id).toBe('task-1')
+  })
+})
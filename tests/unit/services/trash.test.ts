@@ -0,0 +1,88 @@
+/**
+ * Unit tests for trash retention
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  addPurgedTaskIds,
+  getDaysLeftInTrash,
+  getPurgedTaskIds,
+  getTrashRetentionDays,
+  isPastRetention,
+  setTrashRetentionDays
+} from '@/services/trash'
+import type { Task } from '@/types/task'
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    name: 'Test Task',
+    type: 'one-off',
+    timeEstimateMinutes: 30,
+    effortLevel: 'medium',
+    location: 'home',
+    status: 'active',
+    priority: 'important',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+const now = new Date('2024-03-31T12:00:00.000Z')
+
+afterEach(() => {
+  localStorage.clear()
+})
+
+describe('retention period', () => {
+  it('should default to 30 days', () => {
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+  })
+
+  it('should remember a chosen period and ignore unknown values', () => {
+    setTrashRetentionDays(7)
+    expect(getTrashRetentionDays()).toBe(7)
+
+    localStorage.setItem('sparetime-trash-retention-days', '12')
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+  })
+})
+
+describe('isPastRetention', () => {
+  it('should only flag tasks deleted before the cutoff', () => {
+    expect(isPastRetention(createTask({ deletedAt: '2024-02-29T12:00:00.000Z' }), 30, now)).toBe(true)
+    expect(isPastRetention(createTask({ deletedAt: '2024-03-02T12:00:00.000Z' }), 30, now)).toBe(false)
+    expect(isPastRetention(createTask(), 30, now)).toBe(false)
+  })
+})
+
+describe('getDaysLeftInTrash', () => {
+  it('should count down to removal', () => {
+    expect(getDaysLeftInTrash(createTask({ deletedAt: '2024-03-31T08:00:00.000Z' }), 30, now)).toBe(30)
+    expect(getDaysLeftInTrash(createTask({ deletedAt: '2024-03-21T08:00:00.000Z' }), 30, now)).toBe(20)
+    expect(getDaysLeftInTrash(createTask({ deletedAt: '2024-01-01T08:00:00.000Z' }), 30, now)).toBe(0)
+  })
+})
+
+describe('purged tasks', () => {
+  it('should remember tasks deleted forever', () => {
+    addPurgedTaskIds(['a', 'b'], now)
+    addPurgedTaskIds(['c'], now)
+
+    expect([...getPurgedTaskIds()].sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should forget entries older than the retention period', () => {
+    addPurgedTaskIds(['old'], new Date('2024-01-01T00:00:00.000Z'))
+    addPurgedTaskIds(['new'], now)
+
+    expect([...getPurgedTaskIds()]).toEqual(['new'])
+  })
+
+  it('should survive corrupted storage', () => {
+    localStorage.setItem('sparetime-purged-tasks', 'not json')
+    expect(getPurgedTaskIds().size).toBe(0)
+  })
+})
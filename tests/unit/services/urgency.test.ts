@@ -242,4 +242,15 @@ describe('Urgency Calculation', () => {
       expect(normalized).toBe(0) // No urgency contribution for future tasks
     })
   })
+
+  describe('normalizeUrgency horizon', () => {
+    it('should reach maximum urgency sooner with a shorter overdue horizon', () => {
+      expect(normalizeUrgency(7)).toBeLessThan(1)
+      expect(normalizeUrgency(7, 7)).toBe(1)
+    })
+
+    it('should scale between 0.5 and 1 using the given horizon', () => {
+      expect(normalizeUrgency(5, 10)).toBeCloseTo(0.75)
+    })
+  })
 })
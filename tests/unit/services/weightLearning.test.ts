@@ -0,0 +1,169 @@
+/**
+ * Unit tests for weight learning from suggestion outcomes
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  extractLearningSamples,
+  learnScoringWeights,
+  MIN_LEARNING_SAMPLES
+} from '@/services/weightLearning'
+import { DEFAULT_SCORING_PROFILE } from '@/services/scoring'
+import type { ScoringFactors, SuggestionAction, SuggestionSession } from '@/types/suggestion'
+
+/**
+ * Helper to create scoring factors
+ */
+function createFactors(overrides: Partial<ScoringFactors> = {}): ScoringFactors {
+  return {
+    urgency: 0,
+    deadlineProximity: null,
+    priority: 0.5,
+    postponements: 0,
+    timeMatch: 0.5,
+    effortMatch: null,
+    locationMatch: null,
+    ...overrides
+  }
+}
+
+/**
+ * Helper to create a session where one suggestion was acted on
+ */
+function createSession(
+  factors: ScoringFactors | undefined,
+  actionType: SuggestionAction['type'] | null
+): SuggestionSession {
+  return {
+    timestamp: new Date().toISOString(),
+    availableTimeMinutes: 30,
+    suggestions: [{ taskId: 'task-1', score: 0.5, urgency: 0, reason: 'Test', factors }],
+    actionTaken: actionType
+      ? { type: actionType, taskId: 'task-1', timestamp: new Date().toISOString() }
+      : undefined
+  }
+}
+
+/**
+ * Sessions where high-priority suggestions get completed and low-priority ones dismissed
+ */
+function createPriorityDrivenSessions(count: number): SuggestionSession[] {
+  const sessions: SuggestionSession[] = []
+  for (let i = 0; i < count; i++) {
+    const completed = i % 2 === 0
+    sessions.push(
+      createSession(createFactors({ priority: completed ? 1 : 0 }), completed ? 'completed' : 'dismissed')
+    )
+  }
+  return sessions
+}
+
+describe('extractLearningSamples', () => {
+  it('should label completed suggestions 1 and dismissed or postponed ones 0', () => {
+    const samples = extractLearningSamples(
+      [
+        createSession(createFactors(), 'completed'),
+        createSession(createFactors(), 'dismissed'),
+        createSession(createFactors(), 'postponed')
+      ],
+      DEFAULT_SCORING_PROFILE
+    )
+
+    expect(samples.map((s) => s.label)).toEqual([1, 0, 0])
+  })
+
+  it('should skip sessions without an action or without recorded factors', () => {
+    const samples = extractLearningSamples(
+      [createSession(createFactors(), null), createSession(undefined, 'completed')],
+      DEFAULT_SCORING_PROFILE
+    )
+
+    expect(samples).toHaveLength(0)
+  })
+
+  it('should learn from every suggestion acted on, using the last action per suggestion', () => {
+    const timestamp = new Date().toISOString()
+    const session: SuggestionSession = {
+      timestamp,
+      availableTimeMinutes: 30,
+      suggestions: [
+        { taskId: 'task-1', score: 0.5, urgency: 0, reason: 'Test', factors: createFactors({ priority: 1 }) },
+        { taskId: 'task-2', score: 0.4, urgency: 0, reason: 'Test', factors: createFactors({ priority: 0 }) }
+      ],
+      actions: [
+        { type: 'dismissed', taskId: 'task-1', timestamp },
+        { type: 'dismissed', taskId: 'task-2', timestamp },
+        { type: 'completed', taskId: 'task-1', timestamp }
+      ]
+    }
+
+    const samples = extractLearningSamples([session], DEFAULT_SCORING_PROFILE)
+
+    expect(samples.map((s) => [s.values.priority, s.label])).toEqual([[1, 1], [0, 0]])
+  })
+})
+
+describe('learnScoringWeights', () => {
+  it('should return null with fewer than the minimum samples', () => {
+    const sessions = createPriorityDrivenSessions(MIN_LEARNING_SAMPLES - 1)
+
+    expect(learnScoringWeights(sessions, DEFAULT_SCORING_PROFILE)).toBeNull()
+  })
+
+  it('should return null when every outcome is the same', () => {
+    const sessions = Array.from({ length: MIN_LEARNING_SAMPLES }, () =>
+      createSession(createFactors(), 'completed')
+    )
+
+    expect(learnScoringWeights(sessions, DEFAULT_SCORING_PROFILE)).toBeNull()
+  })
+
+  it('should raise the weight of a factor that predicts completion', () => {
+    const result = learnScoringWeights(
+      createPriorityDrivenSessions(MIN_LEARNING_SAMPLES * 2),
+      DEFAULT_SCORING_PROFILE
+    )
+
+    expect(result).not.toBeNull()
+    expect(result!.sampleCount).toBe(MIN_LEARNING_SAMPLES * 2)
+    expect(result!.weights.priority).toBeGreaterThan(1)
+    expect(result!.weights.priority).toBeGreaterThan(result!.weights.timeMatch)
+  })
+
+  it('should lower the weight of a factor that predicts dismissal', () => {
+    const sessions: SuggestionSession[] = []
+    for (let i = 0; i < MIN_LEARNING_SAMPLES * 2; i++) {
+      const completed = i % 2 === 0
+      sessions.push(
+        createSession(createFactors({ timeMatch: completed ? 0 : 1 }), completed ? 'completed' : 'dismissed')
+      )
+    }
+
+    const result = learnScoringWeights(sessions, DEFAULT_SCORING_PROFILE)
+
+    expect(result!.weights.timeMatch).toBeLessThan(1)
+  })
+
+  it('should keep learned weights within the allowed range', () => {
+    const result = learnScoringWeights(
+      createPriorityDrivenSessions(MIN_LEARNING_SAMPLES * 5),
+      DEFAULT_SCORING_PROFILE
+    )
+
+    for (const weight of Object.values(result!.weights)) {
+      expect(weight).toBeGreaterThanOrEqual(0)
+      expect(weight).toBeLessThanOrEqual(5)
+    }
+  })
+
+  it('should round learned weights to the slider step', () => {
+    const result = learnScoringWeights(
+      createPriorityDrivenSessions(MIN_LEARNING_SAMPLES * 2),
+      DEFAULT_SCORING_PROFILE
+    )
+
+    for (const weight of Object.values(result!.weights)) {
+      expect(weight % 0.5).toBe(0)
+    }
+  })
+})
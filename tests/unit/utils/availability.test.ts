@@ -0,0 +1,99 @@
+/**
+ * Unit tests for seasonal and time-of-day availability windows
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseTimeOfDay,
+  hasAvailabilityConstraints,
+  isAvailableAt,
+  getNextAvailableAt,
+  describeAvailability
+} from '@/utils/availability'
+import type { AvailabilityWindow } from '@/types/task'
+
+// Office hours on weekdays
+const BANK_HOURS: AvailabilityWindow = { weekdays: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }
+
+// Mowing season
+const LAWN_SEASON: AvailabilityWindow = { months: [4, 5, 6, 7, 8, 9, 10] }
+
+describe('parseTimeOfDay', () => {
+  it('should parse HH:mm into minutes since midnight', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0)
+    expect(parseTimeOfDay('09:30')).toBe(570)
+    expect(parseTimeOfDay('23:59')).toBe(1439)
+  })
+
+  it('should reject malformed times', () => {
+    expect(parseTimeOfDay('9:30')).toBeNull()
+    expect(parseTimeOfDay('24:00')).toBeNull()
+    expect(parseTimeOfDay('12:60')).toBeNull()
+  })
+})
+
+describe('hasAvailabilityConstraints', () => {
+  it('should ignore missing and empty windows', () => {
+    expect(hasAvailabilityConstraints(undefined)).toBe(false)
+    expect(hasAvailabilityConstraints({ months: [], weekdays: [] })).toBe(false)
+    expect(hasAvailabilityConstraints({ startTime: '09:00' })).toBe(false)
+    expect(hasAvailabilityConstraints(LAWN_SEASON)).toBe(true)
+  })
+})
+
+describe('isAvailableAt', () => {
+  it('should always be available without a window', () => {
+    expect(isAvailableAt(undefined, new Date(2024, 0, 1, 3))).toBe(true)
+  })
+
+  it('should check months', () => {
+    expect(isAvailableAt(LAWN_SEASON, new Date(2024, 3, 1))).toBe(true)
+    expect(isAvailableAt(LAWN_SEASON, new Date(2024, 10, 1))).toBe(false)
+  })
+
+  it('should check weekdays and the time range', () => {
+    // Tuesday 2 January 2024
+    expect(isAvailableAt(BANK_HOURS, new Date(2024, 0, 2, 9, 0))).toBe(true)
+    expect(isAvailableAt(BANK_HOURS, new Date(2024, 0, 2, 16, 59))).toBe(true)
+    expect(isAvailableAt(BANK_HOURS, new Date(2024, 0, 2, 17, 0))).toBe(false)
+    expect(isAvailableAt(BANK_HOURS, new Date(2024, 0, 2, 8, 59))).toBe(false)
+    // Saturday 6 January 2024
+    expect(isAvailableAt(BANK_HOURS, new Date(2024, 0, 6, 12, 0))).toBe(false)
+  })
+
+  it('should support time ranges spanning midnight', () => {
+    const night: AvailabilityWindow = { startTime: '22:00', endTime: '02:00' }
+
+    expect(isAvailableAt(night, new Date(2024, 0, 2, 23, 0))).toBe(true)
+    expect(isAvailableAt(night, new Date(2024, 0, 2, 1, 0))).toBe(true)
+    expect(isAvailableAt(night, new Date(2024, 0, 2, 12, 0))).toBe(false)
+  })
+})
+
+describe('getNextAvailableAt', () => {
+  it('should return the given moment when already available', () => {
+    const now = new Date(2024, 0, 2, 10, 0)
+    expect(getNextAvailableAt(BANK_HOURS, now)).toBe(now)
+  })
+
+  it('should find the start time later the same day', () => {
+    expect(getNextAvailableAt(BANK_HOURS, new Date(2024, 0, 2, 7, 30))).toEqual(new Date(2024, 0, 2, 9, 0))
+  })
+
+  it('should skip to the next matching weekday', () => {
+    // Friday evening -> Monday morning
+    expect(getNextAvailableAt(BANK_HOURS, new Date(2024, 0, 5, 18, 0))).toEqual(new Date(2024, 0, 8, 9, 0))
+  })
+
+  it('should find the start of the next season', () => {
+    expect(getNextAvailableAt(LAWN_SEASON, new Date(2024, 10, 15, 12, 0))).toEqual(new Date(2025, 3, 1))
+  })
+})
+
+describe('describeAvailability', () => {
+  it('should collapse consecutive months and work weeks', () => {
+    expect(describeAvailability(LAWN_SEASON)).toBe('Apr-Oct')
+    expect(describeAvailability(BANK_HOURS)).toBe('Mon-Fri · 09:00-17:00')
+    expect(describeAvailability({ months: [12, 1, 2], weekdays: [6, 0] })).toBe('Jan-Feb, Dec · Sat, Sun')
+  })
+})
@@ -1,10 +1,10 @@
 /**
  * Unit tests for SHA-256 checksum utilities
- * Tests for generateChecksum
+ * Tests for generateChecksum and generateUUID
  */
 
-import { describe, it, expect } from 'vitest'
-import { generateChecksum } from '@/utils/crypto'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { generateChecksum, generateUUID } from '@/utils/crypto'
 
 describe('Crypto Utilities', () => {
   describe('generateChecksum', () => {
@@ -55,4 +55,23 @@ describe('Crypto Utilities', () => {
       expect(checksum1).toBe(checksum2)
     })
   })
+
+  describe('generateUUID', () => {
+    const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should generate distinct v4 UUIDs', () => {
+      expect(generateUUID()).toMatch(UUID_V4)
+      expect(generateUUID()).not.toBe(generateUUID())
+    })
+
+    it('should fall back to getRandomValues without crypto.randomUUID', () => {
+      vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+
+      expect(generateUUID()).toMatch(UUID_V4)
+    })
+  })
 })
@@ -134,6 +134,37 @@ describe('calculateNextDueDateFromPattern', () => {
     expect(typeof result).toBe('string')
     expect(result).toContain('2024-01-22')
   })
+
+  describe('fixed calendar schedule', () => {
+    // Tuesdays, regardless of when the task was last done
+    const schedule = {
+      kind: 'weekdays' as const,
+      weekdays: [2 as const],
+      startDate: new Date(2024, 0, 1).toISOString()
+    }
+    const pattern = {
+      intervalValue: 1,
+      intervalUnit: 'weeks' as const,
+      lastCompletedDate: new Date(2024, 0, 4, 18).toISOString(), // Thursday
+      schedule
+    }
+
+    it('uses the next calendar occurrence after the last completion', () => {
+      const result = new Date(calculateNextDueDateFromPattern(pattern))
+
+      expect(result.getDay()).toBe(2)
+      expect(result.getDate()).toBe(9)
+    })
+
+    it('skips the occurrence that was due when completed early', () => {
+      const early = { ...pattern, lastCompletedDate: new Date(2024, 0, 8, 18).toISOString() } // Monday
+      const previousDueDate = new Date(2024, 0, 9).toISOString()
+
+      const result = new Date(calculateNextDueDateFromPattern(early, previousDueDate))
+
+      expect(result.getDate()).toBe(16)
+    })
+  })
 })
 
 describe('calculateUrgency', () => {
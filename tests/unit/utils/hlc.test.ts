@@ -0,0 +1,50 @@
+/**
+ * Unit tests for hybrid logical clock strings
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  LEGACY_DEVICE_ID,
+  clockFromTimestamp,
+  compareClocks,
+  formatClock,
+  getTaskClock,
+  parseClock
+} from '@/utils/hlc'
+
+const now = new Date('2024-03-31T12:00:00.000Z').getTime()
+
+describe('clock format', () => {
+  it('should parse what it formats', () => {
+    const clock = { wallTime: now, counter: 3, deviceId: 'abc123' }
+
+    expect(parseClock(formatClock(clock))).toEqual(clock)
+    expect(parseClock('2024-03-31T12:00:00.000Z')).toBeNull()
+  })
+
+  it('should sort by wall time, then counter, then device', () => {
+    const clocks = [
+      formatClock({ wallTime: now, counter: 10, deviceId: 'a' }),
+      formatClock({ wallTime: now + 1, counter: 0, deviceId: 'a' }),
+      formatClock({ wallTime: now, counter: 2, deviceId: 'b' }),
+      formatClock({ wallTime: now, counter: 2, deviceId: 'a' })
+    ]
+
+    expect([...clocks].sort(compareClocks)).toEqual([clocks[3], clocks[2], clocks[0], clocks[1]])
+  })
+})
+
+describe('legacy clocks', () => {
+  const updatedAt = '2024-03-31T12:00:00.000Z'
+
+  it('should derive the same clock from the same update on every device', () => {
+    expect(clockFromTimestamp(updatedAt)).toBe(formatClock({ wallTime: now, counter: 0, deviceId: LEGACY_DEVICE_ID }))
+  })
+
+  it('should use the clock of a task, or derive one from updatedAt', () => {
+    const hlc = formatClock({ wallTime: now - 5000, counter: 1, deviceId: 'phone' })
+
+    expect(getTaskClock({ updatedAt, hlc })).toBe(hlc)
+    expect(getTaskClock({ updatedAt })).toBe(clockFromTimestamp(updatedAt))
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the task notes Markdown subset
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseMarkdown, parseInline, sanitizeUrl } from '@/utils/markdown'
+
+describe('sanitizeUrl', () => {
+  it('should allow web, mail and phone links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1')
+    expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com')
+    expect(sanitizeUrl('tel:+441234567890')).toBe('tel:+441234567890')
+  })
+
+  it('should add https to www links', () => {
+    expect(sanitizeUrl('www.example.com')).toBe('https://www.example.com/')
+  })
+
+  it('should reject scripts and other protocols', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull()
+    expect(sanitizeUrl('JaVaScRiPt:alert(1)')).toBeNull()
+    expect(sanitizeUrl('data:text/html,<b>x</b>')).toBeNull()
+    expect(sanitizeUrl('/relative/path')).toBeNull()
+  })
+})
+
+describe('parseInline', () => {
+  it('should parse emphasis and code', () => {
+    expect(parseInline('Use **M8** bolts, *not* `M6`')).toEqual([
+      { type: 'text', text: 'Use ' },
+      { type: 'strong', text: 'M8' },
+      { type: 'text', text: ' bolts, ' },
+      { type: 'em', text: 'not' },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'M6' }
+    ])
+  })
+
+  it('should not treat underscores inside words as emphasis', () => {
+    expect(parseInline('part_number_42')).toEqual([{ type: 'text', text: 'part_number_42' }])
+  })
+
+  it('should parse links and bare URLs', () => {
+    expect(parseInline('[Manual](https://example.com/manual.pdf) or https://example.com.')).toEqual([
+      { type: 'link', text: 'Manual', href: 'https://example.com/manual.pdf' },
+      { type: 'text', text: ' or ' },
+      { type: 'link', text: 'https://example.com', href: 'https://example.com/' },
+      { type: 'text', text: '.' }
+    ])
+  })
+
+  it('should render unsafe links as text', () => {
+    expect(parseInline('[click](javascript:alert)')).toEqual([{ type: 'text', text: 'click' }])
+    expect(parseInline('[x](data:text/html,hi)')).toEqual([{ type: 'text', text: 'x' }])
+  })
+
+  it('should turn images into links instead of loading them', () => {
+    expect(parseInline('![photo](https://example.com/a.jpg)')).toEqual([
+      { type: 'link', text: 'photo', href: 'https://example.com/a.jpg' }
+    ])
+  })
+
+  it('should keep HTML as text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+      { type: 'text', text: '<img src=x onerror=alert(1)>' }
+    ])
+  })
+
+  it('should keep line breaks', () => {
+    expect(parseInline('one\ntwo')).toEqual([
+      { type: 'text', text: 'one' },
+      { type: 'break' },
+      { type: 'text', text: 'two' }
+    ])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('should return no blocks for empty notes', () => {
+    expect(parseMarkdown('')).toEqual([])
+    expect(parseMarkdown('\n\n')).toEqual([])
+  })
+
+  it('should split paragraphs on blank lines', () => {
+    const blocks = parseMarkdown('First\n\nSecond')
+
+    expect(blocks.map((b) => b.type)).toEqual(['paragraph', 'paragraph'])
+  })
+
+  it('should parse headings, lists and quotes', () => {
+    const blocks = parseMarkdown('# Parts\n- filter\n- belt\n1. open\n2. swap\n> keep receipt')
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, inlines: [{ type: 'text', text: 'Parts' }] },
+      {
+        type: 'list',
+        ordered: false,
+        items: [[{ type: 'text', text: 'filter' }], [{ type: 'text', text: 'belt' }]]
+      },
+      {
+        type: 'list',
+        ordered: true,
+        items: [[{ type: 'text', text: 'open' }], [{ type: 'text', text: 'swap' }]]
+      },
+      { type: 'quote', inlines: [{ type: 'text', text: 'keep receipt' }] }
+    ])
+  })
+
+  it('should keep fenced code verbatim', () => {
+    const blocks = parseMarkdown('```\n**not bold**\n<b>x</b>\n```\nafter')
+
+    expect(blocks).toEqual([
+      { type: 'code', text: '**not bold**\n<b>x</b>' },
+      { type: 'paragraph', inlines: [{ type: 'text', text: 'after' }] }
+    ])
+  })
+})
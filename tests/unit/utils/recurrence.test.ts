@@ -0,0 +1,136 @@
+/**
+ * Unit tests for fixed calendar recurrence rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseRRule,
+  getNextOccurrence,
+  getScheduleInterval,
+  describeSchedule
+} from '@/utils/recurrence'
+import type { RecurrenceSchedule } from '@/types/task'
+
+// Monday 1 January 2024 (local time)
+const START = new Date(2024, 0, 1).toISOString()
+
+/**
+ * Helper to create a schedule anchored at START
+ */
+function createSchedule(overrides: Partial<RecurrenceSchedule>): RecurrenceSchedule {
+  return { kind: 'weekdays', startDate: START, ...overrides }
+}
+
+/**
+ * Format a date as local YYYY-MM-DD for readable assertions
+ */
+function localDate(date: Date | null): string | null {
+  if (!date) return null
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+describe('parseRRule', () => {
+  it('should parse the supported parts', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2SA,-1FR;BYMONTH=1,7')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [
+        { weekday: 6, ordinal: 2 },
+        { weekday: 5, ordinal: -1 }
+      ],
+      byMonthDay: [],
+      byMonth: [1, 7]
+    })
+  })
+
+  it('should reject rules without FREQ or with unsupported parts', () => {
+    expect(parseRRule('BYDAY=TU')).toBeNull()
+    expect(parseRRule('FREQ=WEEKLY;COUNT=5')).toBeNull()
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toBeNull()
+    expect(parseRRule('FREQ=HOURLY')).toBeNull()
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('should find the next matching weekday', () => {
+    const schedule = createSchedule({ kind: 'weekdays', weekdays: [2, 4] })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 2, 20)))).toBe('2024-01-04')
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 4)))).toBe('2024-01-09')
+  })
+
+  it('should respect week intervals from the start date', () => {
+    const schedule = createSchedule({ kind: 'weekdays', weekdays: [2], interval: 2 })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 3)))).toBe('2024-01-16')
+  })
+
+  it('should find a day of the month', () => {
+    const schedule = createSchedule({ kind: 'day-of-month', dayOfMonth: 1 })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 1)))).toBe('2024-02-01')
+  })
+
+  it('should treat -1 as the last day of the month', () => {
+    const schedule = createSchedule({ kind: 'day-of-month', dayOfMonth: -1 })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 1, 1)))).toBe('2024-02-29')
+  })
+
+  it('should skip months without the day', () => {
+    const schedule = createSchedule({ kind: 'day-of-month', dayOfMonth: 31 })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 31)))).toBe('2024-03-31')
+  })
+
+  it('should find the nth weekday of the month', () => {
+    const secondSaturday = createSchedule({ kind: 'nth-weekday', ordinal: 2, weekday: 6 })
+    const lastFriday = createSchedule({ kind: 'nth-weekday', ordinal: -1, weekday: 5 })
+
+    expect(localDate(getNextOccurrence(secondSaturday, new Date(2024, 0, 1)))).toBe('2024-01-13')
+    expect(localDate(getNextOccurrence(lastFriday, new Date(2024, 0, 1)))).toBe('2024-01-26')
+  })
+
+  it('should follow an RRULE', () => {
+    const schedule = createSchedule({ kind: 'rrule', rrule: 'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15' })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 5, 1)))).toBe('2025-03-15')
+  })
+
+  it('should not return dates before the schedule starts', () => {
+    const schedule = createSchedule({ kind: 'weekdays', weekdays: [1], startDate: new Date(2024, 2, 1).toISOString() })
+
+    expect(localDate(getNextOccurrence(schedule, new Date(2024, 0, 1)))).toBe('2024-03-04')
+  })
+
+  it('should return null for a schedule that never occurs', () => {
+    const schedule = createSchedule({ kind: 'rrule', rrule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30' })
+
+    expect(getNextOccurrence(schedule, START)).toBeNull()
+  })
+})
+
+describe('getScheduleInterval', () => {
+  it('should approximate the repeat interval', () => {
+    expect(getScheduleInterval(createSchedule({ kind: 'weekdays', weekdays: [2] }))).toEqual({
+      intervalValue: 1,
+      intervalUnit: 'weeks'
+    })
+    expect(getScheduleInterval(createSchedule({ kind: 'day-of-month', dayOfMonth: 1, interval: 3 }))).toEqual({
+      intervalValue: 3,
+      intervalUnit: 'months'
+    })
+  })
+})
+
+describe('describeSchedule', () => {
+  it('should describe each kind', () => {
+    expect(describeSchedule(createSchedule({ kind: 'weekdays', weekdays: [4, 2] }))).toBe('Every Tue, Thu')
+    expect(describeSchedule(createSchedule({ kind: 'day-of-month', dayOfMonth: 1 }))).toBe('Day 1 of every month')
+    expect(describeSchedule(createSchedule({ kind: 'nth-weekday', ordinal: 2, weekday: 6 }))).toBe(
+      '2nd Sat of every month'
+    )
+  })
+})
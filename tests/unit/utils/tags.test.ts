@@ -0,0 +1,31 @@
+/**
+ * Unit tests for task tags
+ */
+
+import { describe, it, expect } from 'vitest'
+import { normalizeTag, normalizeTags, collectTags } from '@/utils/tags'
+import type { Task } from '@/types/task'
+
+describe('normalizeTag', () => {
+  it('should lowercase, trim and collapse whitespace', () => {
+    expect(normalizeTag('  Grocery   Store ')).toBe('grocery store')
+  })
+
+  it('should drop a leading hash', () => {
+    expect(normalizeTag('#Car')).toBe('car')
+  })
+})
+
+describe('normalizeTags', () => {
+  it('should drop empty and duplicate tags, keeping order', () => {
+    expect(normalizeTags(['Phone', '', 'computer', 'phone ', '  '])).toEqual(['phone', 'computer'])
+  })
+})
+
+describe('collectTags', () => {
+  it('should return every tag once, sorted', () => {
+    const tasks = [{ tags: ['phone', 'car'] }, { tags: ['computer', 'car'] }, {}] as Task[]
+
+    expect(collectTags(tasks)).toEqual(['car', 'computer', 'phone'])
+  })
+})
@@ -20,7 +20,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-2',
+          dependsOnIds: ['task-2'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -33,7 +33,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-3',
+          dependsOnIds: ['task-3'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -52,7 +52,7 @@ describe('Validation Edge Cases', () => {
       ]
 
       // Try to make task-3 depend on task-1 (would create cycle: 1->2->3->1)
-      const hasCycle = detectCircularDependency('task-3', 'task-1', tasks)
+      const hasCycle = detectCircularDependency('task-3', ['task-1'], tasks)
       expect(hasCycle).toBe(true)
     })
 
@@ -67,7 +67,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-2',
+          dependsOnIds: ['task-2'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -80,7 +80,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-3',
+          dependsOnIds: ['task-3'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -111,7 +111,7 @@ describe('Validation Edge Cases', () => {
       ]
 
       // Try to make task-3 depend on task-4 (no cycle: 1->2->3->4)
-      const hasCycle = detectCircularDependency('task-3', 'task-4', tasks)
+      const hasCycle = detectCircularDependency('task-3', ['task-4'], tasks)
       expect(hasCycle).toBe(false)
     })
 
@@ -126,14 +126,14 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'missing-task',
+          dependsOnIds: ['missing-task'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         }
       ]
 
       // Try to make task-1 depend on task-2 when its current dependency is missing
-      const hasCycle = detectCircularDependency('task-1', 'task-2', tasks)
+      const hasCycle = detectCircularDependency('task-1', ['task-2'], tasks)
       expect(hasCycle).toBe(false)
     })
 
@@ -148,7 +148,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-2',
+          dependsOnIds: ['task-2'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -161,7 +161,7 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-3',
+          dependsOnIds: ['task-3'],
           createdAt: nowISO(),
           updatedAt: nowISO()
         },
@@ -174,14 +174,14 @@ describe('Validation Edge Cases', () => {
           location: 'home',
           status: 'active',
           priority: 'important',
-          dependsOnId: 'task-1', // Already creates cycle
+          dependsOnIds: ['task-1'], // Already creates cycle
           createdAt: nowISO(),
           updatedAt: nowISO()
         }
       ]
 
       // Even though there's already a cycle, our function should detect it
-      const hasCycle = detectCircularDependency('task-3', 'task-1', tasks)
+      const hasCycle = detectCircularDependency('task-3', ['task-1'], tasks)
       expect(hasCycle).toBe(true)
     })
   })
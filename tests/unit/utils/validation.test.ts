@@ -4,7 +4,19 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { validateTask, detectCircularDependency } from '@/utils/validation'
+import {
+  validateTask,
+  validateSubtasks,
+  validateAvailability,
+  validateTags,
+  validateNotes,
+  validateTaskName,
+  validateRecurrenceSchedule,
+  detectCircularDependency,
+  validateScoringProfile,
+  validatePlace
+} from '@/utils/validation'
+import { DEFAULT_SCORING_PROFILE } from '@/services/scoring'
 import type { CreateTaskInput, Task, Priority } from '@/types/task'
 
 describe('validateTask', () => {
@@ -160,6 +172,38 @@ describe('validateTask', () => {
       expect(result.errors.some((e) => e.toLowerCase().includes('recurring'))).toBe(true)
     })
 
+    it('accepts a fixed calendar schedule', () => {
+      const input: CreateTaskInput = {
+        ...validInput,
+        type: 'recurring',
+        recurringPattern: {
+          intervalValue: 1,
+          intervalUnit: 'months',
+          lastCompletedDate: new Date().toISOString(),
+          schedule: { kind: 'day-of-month', dayOfMonth: 1, startDate: new Date().toISOString() }
+        }
+      }
+
+      expect(validateTask(input).valid).toBe(true)
+    })
+
+    it('rejects invalid schedules', () => {
+      const startDate = new Date().toISOString()
+
+      expect(validateRecurrenceSchedule({ kind: 'weekdays', weekdays: [], startDate })).toContain(
+        'Pick at least one weekday'
+      )
+      expect(validateRecurrenceSchedule({ kind: 'day-of-month', dayOfMonth: 32, startDate })).toContain(
+        'Day of month must be between 1 and 31, or last'
+      )
+      expect(validateRecurrenceSchedule({ kind: 'rrule', rrule: 'FREQ=DAILY;COUNT=3', startDate })).toContain(
+        'RRULE must have FREQ and may only use INTERVAL, BYDAY, BYMONTHDAY, and BYMONTH'
+      )
+      expect(
+        validateRecurrenceSchedule({ kind: 'rrule', rrule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=31', startDate })
+      ).toContain('Schedule has no upcoming dates')
+    })
+
     it('accepts recurring type with valid pattern', () => {
       const input: CreateTaskInput = {
         ...validInput,
@@ -176,6 +220,43 @@ describe('validateTask', () => {
     })
   })
 
+  describe('subtask validation', () => {
+    const step = { id: 's1', name: 'Sand the frame', timeEstimateMinutes: 20, completed: false }
+
+    it('accepts a checklist on a project', () => {
+      const input: CreateTaskInput = { ...validInput, type: 'project', subtasks: [step] }
+
+      expect(validateTask(input).valid).toBe(true)
+    })
+
+    it('rejects subtasks on non-project tasks', () => {
+      const input: CreateTaskInput = { ...validInput, subtasks: [step] }
+      const result = validateTask(input)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Only project tasks can have subtasks')
+    })
+
+    it('rejects blank step names and out-of-range estimates', () => {
+      const errors = validateSubtasks(
+        [
+          { ...step, name: '   ' },
+          { ...step, timeEstimateMinutes: 0 }
+        ],
+        'project'
+      )
+
+      expect(errors).toContain('Subtask names must be between 1 and 200 characters')
+      expect(errors).toContain('Subtask time estimates must be between 1 and 480 minutes')
+    })
+
+    it('rejects more than 50 steps', () => {
+      const steps = Array.from({ length: 51 }, (_, i) => ({ ...step, id: `s${i}` }))
+
+      expect(validateSubtasks(steps, 'project')).toContain('Projects can have at most 50 subtasks')
+    })
+  })
+
   describe('priority validation', () => {
     it('rejects invalid priority value', () => {
       const input = { ...validInput, priority: 'urgent' as Priority }
@@ -208,6 +289,88 @@ describe('validateTask', () => {
   })
 })
 
+describe('validateTags', () => {
+  it('accepts short tags', () => {
+    expect(validateTags(['computer', 'Car', ' phone '])).toEqual([])
+  })
+
+  it('rejects empty and overlong tags', () => {
+    expect(validateTags(['  '])).toContain('Tags must be between 1 and 30 characters')
+    expect(validateTags(['x'.repeat(31)])).toContain('Tags must be between 1 and 30 characters')
+  })
+
+  it('rejects too many tags', () => {
+    const tags = Array.from({ length: 21 }, (_, i) => `tag-${i}`)
+    expect(validateTags(tags)).toContain('A task can have at most 20 tags')
+  })
+})
+
+describe('validateTaskName', () => {
+  it('accepts names up to 200 characters', () => {
+    expect(validateTaskName('x'.repeat(200))).toEqual([])
+  })
+
+  it('rejects empty and longer names', () => {
+    expect(validateTaskName('')).toContain('Task name is required')
+    expect(validateTaskName('x'.repeat(201))).toContain('Task name must be 200 characters or less')
+  })
+})
+
+describe('validateNotes', () => {
+  it('accepts notes up to 5000 characters', () => {
+    expect(validateNotes('')).toEqual([])
+    expect(validateNotes('x'.repeat(5000))).toEqual([])
+  })
+
+  it('rejects longer notes', () => {
+    expect(validateNotes('x'.repeat(5001))).toContain('Notes must be at most 5000 characters')
+  })
+})
+
+describe('validateAvailability', () => {
+  it('accepts seasonal and time-of-day windows', () => {
+    expect(validateAvailability({ months: [4, 5, 6, 7, 8, 9, 10] })).toEqual([])
+    expect(validateAvailability({ weekdays: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' })).toEqual([])
+    expect(validateAvailability({ startTime: '22:00', endTime: '02:00' })).toEqual([])
+  })
+
+  it('rejects invalid months and weekdays', () => {
+    expect(validateAvailability({ months: [0, 13] })).toContain('Available months must be between 1 and 12')
+    expect(validateAvailability({ weekdays: [7 as never] })).toContain(
+      'Available weekdays must be between 0 (Sunday) and 6 (Saturday)'
+    )
+  })
+
+  it('rejects incomplete or malformed time ranges', () => {
+    expect(validateAvailability({ startTime: '09:00' })).toContain('Set both a start and an end time, or neither')
+    expect(validateAvailability({ startTime: '9am', endTime: '17:00' })).toContain('Available times must use HH:mm')
+    expect(validateAvailability({ startTime: '09:00', endTime: '09:00' })).toContain(
+      'Available start and end time must differ'
+    )
+  })
+
+  it('rejects an empty window', () => {
+    expect(validateAvailability({ months: [] })).toContain(
+      'Availability window needs months, weekdays, or a time range'
+    )
+  })
+
+  it('is checked by validateTask', () => {
+    const result = validateTask({
+      name: 'Mow the lawn',
+      type: 'one-off',
+      timeEstimateMinutes: 60,
+      effortLevel: 'high',
+      location: 'outside',
+      priority: 'important',
+      availability: { months: [13] }
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('Available months must be between 1 and 12')
+  })
+})
+
 describe('T032d: detectCircularDependency', () => {
   // Helper to create tasks with IDs
   function createTask(id: string, dependsOnId?: string): Task {
@@ -220,7 +383,7 @@ describe('T032d: detectCircularDependency', () => {
       location: 'home',
       status: 'active',
       priority: 'important',
-      dependsOnId,
+      dependsOnIds: dependsOnId ? [dependsOnId] : undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     }
@@ -234,7 +397,7 @@ describe('T032d: detectCircularDependency', () => {
     ]
 
     // If we try to make Task 2 depend on Task 1, it creates a cycle
-    const wouldCreateCycle = detectCircularDependency('2', '1', tasks)
+    const wouldCreateCycle = detectCircularDependency('2', ['1'], tasks)
 
     expect(wouldCreateCycle).toBe(true)
   })
@@ -247,7 +410,7 @@ describe('T032d: detectCircularDependency', () => {
     ]
 
     // If we try to make Task 3 depend on Task 1, it creates a cycle
-    const wouldCreateCycle = detectCircularDependency('3', '1', tasks)
+    const wouldCreateCycle = detectCircularDependency('3', ['1'], tasks)
 
     expect(wouldCreateCycle).toBe(true)
   })
@@ -256,7 +419,7 @@ describe('T032d: detectCircularDependency', () => {
     const tasks: Task[] = [createTask('1')]
 
     // Task 1 trying to depend on itself
-    const wouldCreateCycle = detectCircularDependency('1', '1', tasks)
+    const wouldCreateCycle = detectCircularDependency('1', ['1'], tasks)
 
     expect(wouldCreateCycle).toBe(true)
   })
@@ -268,7 +431,7 @@ describe('T032d: detectCircularDependency', () => {
     ]
 
     // Task 3 depending on Task 2 is fine (chain: 3 → 2 → 1)
-    const wouldCreateCycle = detectCircularDependency('3', '2', tasks)
+    const wouldCreateCycle = detectCircularDependency('3', ['2'], tasks)
 
     expect(wouldCreateCycle).toBe(false)
   })
@@ -277,7 +440,7 @@ describe('T032d: detectCircularDependency', () => {
     const tasks: Task[] = [createTask('1'), createTask('2')]
 
     // New task (undefined ID) depending on existing task
-    const wouldCreateCycle = detectCircularDependency(undefined, '1', tasks)
+    const wouldCreateCycle = detectCircularDependency(undefined, ['1'], tasks)
 
     expect(wouldCreateCycle).toBe(false)
   })
@@ -286,8 +449,104 @@ describe('T032d: detectCircularDependency', () => {
     const tasks: Task[] = [createTask('1'), createTask('2'), createTask('3')]
 
     // No existing dependencies, so no cycle possible
-    const wouldCreateCycle = detectCircularDependency('2', '1', tasks)
+    const wouldCreateCycle = detectCircularDependency('2', ['1'], tasks)
+
+    expect(wouldCreateCycle).toBe(false)
+  })
+
+  it('returns true when the cycle runs through any of several dependencies', () => {
+    const tasks: Task[] = [
+      createTask('1'),
+      createTask('2'),
+      { ...createTask('3'), dependsOnIds: ['1', '4'] }, // 3 → 1, 3 → 4
+      createTask('4', '5') // 4 → 5
+    ]
+
+    // Making 5 depend on 2 and 3 closes 5 → 3 → 4 → 5
+    const wouldCreateCycle = detectCircularDependency('5', ['2', '3'], tasks)
+
+    expect(wouldCreateCycle).toBe(true)
+  })
+
+  it('returns false for shared prerequisites (diamond)', () => {
+    const tasks: Task[] = [
+      createTask('1'),
+      createTask('2', '1'), // 2 → 1
+      createTask('3', '1') // 3 → 1
+    ]
+
+    // 4 → 2 → 1 and 4 → 3 → 1 is a DAG, not a cycle
+    const wouldCreateCycle = detectCircularDependency('4', ['2', '3'], tasks)
 
     expect(wouldCreateCycle).toBe(false)
   })
 })
+
+describe('validateScoringProfile', () => {
+  it('accepts the default profile', () => {
+    expect(validateScoringProfile(DEFAULT_SCORING_PROFILE).valid).toBe(true)
+  })
+
+  it('rejects weights outside 0-5', () => {
+    const result = validateScoringProfile({
+      ...DEFAULT_SCORING_PROFILE,
+      weights: { ...DEFAULT_SCORING_PROFILE.weights, priority: 6 }
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('Factor weights must be between 0 and 5')
+  })
+
+  it('rejects a profile where every weight is 0', () => {
+    const weights = { ...DEFAULT_SCORING_PROFILE.weights }
+    for (const key of Object.keys(weights) as Array<keyof typeof weights>) {
+      weights[key] = 0
+    }
+
+    const result = validateScoringProfile({ ...DEFAULT_SCORING_PROFILE, weights })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('At least one factor must have a weight above 0')
+  })
+
+  it('rejects horizons outside 1-365 days', () => {
+    const result = validateScoringProfile({
+      ...DEFAULT_SCORING_PROFILE,
+      maxDeadlineDays: 0,
+      maxOverdueDays: 400
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toHaveLength(2)
+  })
+})
+
+describe('validatePlace', () => {
+  it('accepts a name with or without coordinates', () => {
+    expect(validatePlace({ name: 'Office' }).valid).toBe(true)
+    expect(validatePlace({ name: 'Home', latitude: 52.52, longitude: 13.405, radiusMeters: 150 }).valid).toBe(true)
+  })
+
+  it('rejects empty and overlong names', () => {
+    expect(validatePlace({ name: '  ' }).errors).toContain('Place name must be between 1 and 50 characters')
+    expect(validatePlace({ name: 'x'.repeat(51) }).errors).toContain('Place name must be between 1 and 50 characters')
+  })
+
+  it('requires both coordinates in range', () => {
+    expect(validatePlace({ name: 'Home', latitude: 52.52 }).errors).toContain(
+      'Set both latitude and longitude, or neither'
+    )
+    expect(validatePlace({ name: 'Home', latitude: 91, longitude: 0 }).errors).toContain(
+      'Latitude must be between -90 and 90'
+    )
+    expect(validatePlace({ name: 'Home', latitude: 0, longitude: -181 }).errors).toContain(
+      'Longitude must be between -180 and 180'
+    )
+  })
+
+  it('rejects a radius out of range', () => {
+    expect(validatePlace({ name: 'Home', radiusMeters: 5 }).errors).toContain(
+      'Radius must be between 10 and 10000 meters'
+    )
+  })
+})